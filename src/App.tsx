@@ -1,7 +1,26 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useValidatorData } from './hooks/useValidatorData';
 import { ValidatorTable } from './components/ValidatorTable';
 import { HistoricalPerformance } from './components/HistoricalPerformance';
+import { NetworkSelector } from './components/NetworkSelector';
+import { LightClientSyncStatus } from './components/LightClientSyncStatus';
+import { UnclaimedRewards } from './components/UnclaimedRewards';
+import { PayoutBuilder } from './components/PayoutBuilder';
+import { DecentralizationPanel } from './components/DecentralizationPanel';
+import { WaitingList } from './components/WaitingList';
+import { NominatorPortfolio } from './components/NominatorPortfolio';
+import { StakingActions } from './components/StakingActions';
+import { NominationOptimizer } from './components/NominationOptimizer';
+import { OfflineSigning } from './components/OfflineSigning';
+import { ElectionPrediction } from './components/ElectionPrediction';
+import { useElectionStore } from './stores/electionStore';
+import { useNominatorStore } from './stores/nominatorStore';
+import { useStakingActionsStore } from './stores/stakingActionsStore';
+import { selectSelectedAccount, useWalletStore } from './stores/walletStore';
+import { toNetworkAddress } from './utils/networks';
+
+// stable empty selection, a new array per render would rerender on every store change
+const NO_TARGETS: string[] = [];
 
 /**
  * main app component
@@ -12,6 +31,8 @@ import { HistoricalPerformance } from './components/HistoricalPerformance';
 const App: React.FC = () => {
   // get all validator data and actions from hook
   const {
+    network,
+    connectionMode,
     validators,
     currentPage,
     pageSize,
@@ -19,20 +40,58 @@ const App: React.FC = () => {
     totalValidators,
     activeEra,
     lastEra,
+    eraTiming,
+    currentEraReward,
+    currentEraRewardProjected,
+    activeEraStart,
     historicalEras,
     loading,
     loadingPage,
     calculatingAPY,
     error,
+    eraChange,
+    dismissEraChange,
+    retry,
     fetchPage,
     setPageSize,
     includeFullCommission,
     includeBlockedNominations,
+    excludeSlashedWithinEras,
+    searchQuery,
+    groupByIdentity,
+    maxPerOperator,
+    identities,
+    identityGroupSizes,
     setFilterOptions,
     selectedHistoricalValidator,
     setSelectedHistoricalValidator
   } = useValidatorData();
 
+  // predicted backing of the next election, only once predicted on this network
+  const predictedBacking = useElectionStore(state => (state.networkId === network.id ? state.predictedBacking : null));
+
+  // nominations of the wallet account, looked up by the nominator status
+  const walletAddress = useWalletStore(state => selectSelectedAccount(state)?.address);
+  const detectExtensions = useWalletStore(state => state.detectExtensions);
+  const account = walletAddress ? toNetworkAddress(walletAddress, network.ss58Prefix) : undefined;
+  const accountTargets = useNominatorStore(state =>
+    (state.networkId === network.id && state.address === account && !state.loading ? state.targets : null));
+  const accountEraRewards = useNominatorStore(state =>
+    (state.networkId === network.id && state.address === account && !state.loading ? state.eraRewards : null));
+
+  // validators picked in the table for the nominate call
+  const nominationTargets = useStakingActionsStore(state => (state.targetsNetworkId === network.id ? state.targets : NO_TARGETS));
+  const maxNominations = useStakingActionsStore(state => (state.networkId === network.id ? state.limits?.maxNominations ?? null : null));
+  const toggleTarget = useStakingActionsStore(state => state.toggleTarget);
+
+  // active set (with APY) or all intentions ranked by approval stake
+  const [view, setView] = useState<'active' | 'waiting'>('active');
+
+  // look for wallet extensions once, the wallet panels only read the result
+  useEffect(() => {
+    detectExtensions();
+  }, [detectExtensions]);
+
   // handler for validator selection in the table
   const handleValidatorSelect = (address: string) => {
     setSelectedHistoricalValidator(address);
@@ -45,10 +104,22 @@ const App: React.FC = () => {
           Polkadot Staking Rewards Analyzer
         </h1>
 
+        {/* network selection */}
+        <NetworkSelector network={network} connectionMode={connectionMode} />
+
         {/* error display */}
         {error && (
           <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-6">
             <strong>Error:</strong> {error}
+            <button className="ml-4 underline" onClick={retry}>Retry</button>
+          </div>
+        )}
+
+        {/* a new era started while the page was open, everything was reloaded */}
+        {eraChange && (
+          <div className="bg-blue-100 border border-blue-400 text-blue-800 px-4 py-3 rounded mb-6">
+            <strong>Era changed:</strong> era {eraChange.to} started (was {eraChange.from}). Validators, stakes and last era APY were reloaded.
+            <button className="ml-4 underline" onClick={dismissEraChange}>Dismiss</button>
           </div>
         )}
 
@@ -58,6 +129,7 @@ const App: React.FC = () => {
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900 mx-auto"></div>
             <p className="mt-4">Loading validator data...</p>
             <p className="text-sm text-gray-500 mt-2">This may take a few moments</p>
+            {connectionMode === 'light-client' && <LightClientSyncStatus />}
           </div>
         )}
 
@@ -66,10 +138,28 @@ const App: React.FC = () => {
           <div className="grid grid-cols-12 gap-6 w-full">
             {/* main validator table */}
             <div className="col-span-12 lg:col-span-8">
-              <ValidatorTable
+              <div className="flex gap-2 mb-2">
+                {(['active', 'waiting'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    className={`px-3 py-1 rounded ${view === mode ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 shadow'}`}
+                    onClick={() => setView(mode)}
+                  >
+                    {mode === 'active' ? 'Active validators' : 'Waiting list'}
+                  </button>
+                ))}
+              </div>
+
+              {view === 'waiting' && <WaitingList network={network} activeEra={activeEra} />}
+              {view === 'active' && <ValidatorTable
+                network={network}
                 validators={validators}
                 activeEra={activeEra}
                 lastEra={lastEra}
+                eraTiming={eraTiming}
+                currentEraReward={currentEraReward}
+                currentEraRewardProjected={currentEraRewardProjected}
+                activeEraStart={activeEraStart}
                 currentPage={currentPage}
                 totalPages={totalPages}
                 totalValidators={totalValidators}
@@ -78,22 +168,76 @@ const App: React.FC = () => {
                 calculatingAPY={calculatingAPY}
                 includeFullCommission={includeFullCommission}
                 includeBlockedNominations={includeBlockedNominations}
+                excludeSlashedWithinEras={excludeSlashedWithinEras}
+                searchQuery={searchQuery}
+                groupByIdentity={groupByIdentity}
+                maxPerOperator={maxPerOperator}
+                identities={identities}
+                identityGroupSizes={identityGroupSizes}
+                predictedBacking={predictedBacking}
+                accountTargets={accountTargets}
+                accountEraRewards={accountEraRewards}
+                nominationTargets={nominationTargets}
+                maxNominations={maxNominations}
                 selectedHistoricalValidator={selectedHistoricalValidator}
                 onPageChange={fetchPage}
                 onPageSizeChange={setPageSize}
                 onFilterChange={setFilterOptions}
                 onValidatorSelect={handleValidatorSelect}
-              />
+                onNominationToggle={address => toggleTarget(network.id, address)}
+              />}
             </div>
 
-            {/* historical performance sidebar */}
+            {/* election, decentralization and historical performance sidebar */}
             <div className="col-span-12 lg:col-span-4">
+              <ElectionPrediction network={network} activeEra={activeEra} />
+              <DecentralizationPanel network={network} />
               <HistoricalPerformance
+                network={network}
                 validators={validators}
                 historicalEras={historicalEras}
                 activeEra={activeEra}
               />
             </div>
+
+            {/* payout status of the validators on the page and any added by address */}
+            <div className="col-span-12">
+              <UnclaimedRewards
+                network={network}
+                validators={validators}
+                activeEra={activeEra}
+                historyDepth={network.historyDepth}
+              />
+            </div>
+
+            {/* staking status of any stash */}
+            <div className="col-span-12">
+              <NominatorPortfolio network={network} activeEra={activeEra} eraTiming={eraTiming} />
+            </div>
+
+            {/* nominate targets picked by expected return */}
+            <div className="col-span-12">
+              <NominationOptimizer network={network} />
+            </div>
+
+            {/* bond and nominate with the wallet account */}
+            <div className="col-span-12">
+              <StakingActions network={network} activeEra={activeEra} eraTiming={eraTiming} />
+            </div>
+
+            {/* batched payouts of unpaid eras */}
+            <div className="col-span-12">
+              <PayoutBuilder
+                network={network}
+                validators={validators}
+                activeEra={activeEra}
+              />
+            </div>
+
+            {/* calls exported for air-gapped signers */}
+            <div className="col-span-12">
+              <OfflineSigning network={network} />
+            </div>
           </div>
         )}
       </div>
@@ -0,0 +1,45 @@
+import React, { useEffect, useState } from 'react';
+import { clearCaches } from '../utils/api';
+import { CacheStats, getCacheStats } from '../utils/eraCache';
+
+/**
+ * size of the persistent era cache and a button to clear it
+ */
+export const CacheControls: React.FC = () => {
+    const [stats, setStats] = useState<CacheStats | null>(null);
+    const [clearing, setClearing] = useState<boolean>(false);
+
+    const refreshStats = () => {
+        getCacheStats().then(setStats);
+    };
+
+    // load stats on mount
+    useEffect(() => {
+        refreshStats();
+    }, []);
+
+    const handleClear = async () => {
+        setClearing(true);
+        try {
+            await clearCaches();
+        } finally {
+            setClearing(false);
+            refreshStats();
+        }
+    };
+
+    return (
+        <div className="flex items-center text-xs text-gray-600">
+            <button className="hover:underline" onClick={refreshStats} title="Refresh cache size">
+                Cached era entries: {stats ? `${stats.entries.toLocaleString()} / ${stats.maxEntries.toLocaleString()}` : '–'}
+            </button>
+            <button
+                className="ml-2 text-red-600 hover:underline disabled:opacity-50"
+                onClick={handleClear}
+                disabled={clearing}
+            >
+                {clearing ? 'Clearing...' : 'Clear cache'}
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { useConnectionStore } from '../stores/connectionStore';
+
+/**
+ * shows the rpc endpoint in use and its status
+ * the details list the last health check of every endpoint of the network
+ */
+export const ConnectionStatus: React.FC = () => {
+    const { endpoint, status, health, lastFailover } = useConnectionStore();
+
+    // local ui state
+    const [showDetails, setShowDetails] = useState<boolean>(false);
+
+    // color coded dot for the connection status
+    const statusClasses: Record<typeof status, string> = {
+        connecting: 'bg-yellow-400',
+        syncing: 'bg-blue-400',
+        connected: 'bg-green-500',
+        error: 'bg-red-500',
+        closed: 'bg-gray-400'
+    };
+
+    const currentHealth = health.find(h => h.uri === endpoint);
+
+    return (
+        <div className="text-xs text-gray-600">
+            <button
+                className="flex items-center hover:underline"
+                onClick={() => setShowDetails(!showDetails)}
+            >
+                <span className={`inline-block h-2 w-2 rounded-full mr-2 ${statusClasses[status]}`}></span>
+                <span className="font-mono">{endpoint || 'no endpoint'}</span>
+                <span className="ml-2">
+                    ({status}{currentHealth?.latency != null ? `, ${currentHealth.latency} ms` : ''})
+                </span>
+            </button>
+
+            {/* last automatic endpoint switch */}
+            {lastFailover && (
+                <div className="mt-1 text-orange-600">
+                    Switched from {lastFailover.from} to {lastFailover.to} at {new Date(lastFailover.at).toLocaleTimeString()}
+                </div>
+            )}
+
+            {/* health of all endpoints */}
+            {showDetails && (
+                <table className="mt-2 border-collapse">
+                    <thead>
+                        <tr className="bg-gray-100">
+                            <th className="border px-2 py-1 text-left">Endpoint</th>
+                            <th className="border px-2 py-1 text-right">Latency</th>
+                            <th className="border px-2 py-1 text-right">Best Block</th>
+                            <th className="border px-2 py-1 text-right">Lag</th>
+                            <th className="border px-2 py-1 text-left">Status</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {health.length === 0 ? (
+                            <tr>
+                                <td colSpan={5} className="border px-2 py-1 text-center">Checking endpoints...</td>
+                            </tr>
+                        ) : (
+                            health.map(h => (
+                                <tr key={h.uri} className={h.uri === endpoint ? 'bg-green-50' : ''}>
+                                    <td className="border px-2 py-1 font-mono">{h.uri}</td>
+                                    <td className="border px-2 py-1 text-right">{h.latency != null ? `${h.latency} ms` : '–'}</td>
+                                    <td className="border px-2 py-1 text-right">{h.bestBlock ?? '–'}</td>
+                                    <td className="border px-2 py-1 text-right">{h.blockLag ?? '–'}</td>
+                                    <td className={`border px-2 py-1 ${h.ok ? 'text-green-600' : 'text-red-600'}`}>
+                                        {h.ok ? 'healthy' : h.error || 'unhealthy'}
+                                    </td>
+                                </tr>
+                            ))
+                        )}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,91 @@
+import React from 'react';
+import { useOperatorStore } from '../stores/operatorStore';
+import { useIdentityStore } from '../stores/identityStore';
+import { NAKAMOTO_THRESHOLD, OperatorLink, getIdentityLabel } from '../sdk';
+import { formatBalance } from '../utils/api';
+import { NetworkConfig } from '../utils/networks';
+
+interface DecentralizationPanelProps {
+    network: NetworkConfig;
+}
+
+// number of biggest operators listed
+const TOP_OPERATORS = 10;
+
+const LINK_LABELS: Record<OperatorLink, string> = {
+    identity: 'same identity',
+    rewardAccount: 'same reward account',
+    controller: 'same controller'
+};
+
+/**
+ * stake concentration of the active set by operator
+ * operators are clustered from identities and shared staking accounts, see sdk/decentralization
+ */
+export const DecentralizationPanel: React.FC<DecentralizationPanelProps> = ({ network }) => {
+    const { operators, metrics, loading, error } = useOperatorStore();
+    const identities = useIdentityStore(state => state.identities);
+
+    return (
+        <div className="bg-white rounded-lg shadow-md p-4 mb-6">
+            <h2 className="text-xl font-bold mb-2">Decentralization</h2>
+
+            {loading && <p className="text-sm text-blue-600">Loading operators...</p>}
+            {error && <p className="text-sm text-red-600">Failed to load operators: {error}</p>}
+
+            {metrics && (
+                <>
+                    <div className="grid grid-cols-2 gap-3 mb-4">
+                        <div className="bg-gray-50 p-3 rounded">
+                            <h3 className="text-sm font-medium text-gray-500">Operators</h3>
+                            <p className="text-2xl font-bold">{metrics.operatorCount}</p>
+                            <p className="text-xs text-gray-500">running {metrics.validatorCount} validators</p>
+                        </div>
+                        <div className="bg-gray-50 p-3 rounded" title={`Fewest operators holding more than ${(NAKAMOTO_THRESHOLD * 100).toFixed(0)}% of the active stake`}>
+                            <h3 className="text-sm font-medium text-gray-500">Nakamoto coefficient</h3>
+                            <p className="text-2xl font-bold">{metrics.nakamotoCoefficient}</p>
+                            <p className="text-xs text-gray-500">{metrics.validatorNakamotoCoefficient} counting validators separately</p>
+                        </div>
+                        <div className="bg-gray-50 p-3 rounded col-span-2" title="0 = every validator has the same stake, 1 = one validator has all of it">
+                            <h3 className="text-sm font-medium text-gray-500">Gini coefficient of validator stake</h3>
+                            <p className="text-2xl font-bold">{metrics.gini.toFixed(3)}</p>
+                        </div>
+                    </div>
+
+                    <h3 className="text-sm font-semibold mb-1">Biggest operators</h3>
+                    <table className="w-full border-collapse text-sm">
+                        <thead>
+                            <tr className="bg-gray-100">
+                                <th className="border p-1 text-left">Operator</th>
+                                <th className="border p-1 text-right">Validators</th>
+                                <th className="border p-1 text-right">Stake share</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {operators.slice(0, TOP_OPERATORS).map(operator => (
+                                <tr key={operator.id} className="hover:bg-gray-50">
+                                    <td
+                                        className="border p-1"
+                                        title={operator.links.map(link => LINK_LABELS[link]).join(', ') || undefined}
+                                    >
+                                        {identities[operator.id]?.display
+                                            ?? identities[operator.validators[0]]?.parentDisplay
+                                            ?? getIdentityLabel(operator.id, identities[operator.id])}
+                                    </td>
+                                    <td className="border p-1 text-right">{operator.validators.length}</td>
+                                    <td className="border p-1 text-right" title={formatBalance(operator.stake, network)}>
+                                        {(operator.share * 100).toFixed(2)}%
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <p className="text-xs text-gray-500 mt-2">
+                        Validators are grouped by identity parent, shared reward account and controller. These are hints:
+                        unrelated validators can share a custodian, and operators using separate accounts stay apart.
+                    </p>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+import { useElectionStore } from '../stores/electionStore';
+import { useValidatorStore } from '../stores/validatorStore';
+import { useIdentityStore } from '../stores/identityStore';
+import { getIdentityLabel } from '../sdk';
+import { formatBalance } from '../utils/api';
+import { NetworkConfig } from '../utils/networks';
+
+interface ElectionPredictionProps {
+    network: NetworkConfig;
+    activeEra: number;
+}
+
+/**
+ * predicted outcome of the next election, entries and exits of the active set
+ * the expected backing of every validator shows up in the validator table once predicted
+ */
+export const ElectionPrediction: React.FC<ElectionPredictionProps> = ({ network, activeEra }) => {
+    const { networkId, activeEra: predictedEra, elected, entries, exits, predictedBacking: prediction, stage, error, predictElection } = useElectionStore();
+    const allValidators = useValidatorStore(state => state.allValidators);
+    const identities = useIdentityStore(state => state.identities);
+
+    const running = stage === 'loading' || stage === 'electing';
+    // a prediction of another network is about to be replaced, one of an older era can be rerun
+    const predictedBacking = networkId === network.id ? prediction : null;
+    const upToDate = predictedBacking !== null && predictedEra === activeEra;
+    const minBacking = elected.length > 0 ? elected[elected.length - 1].backing : 0n;
+
+    return (
+        <div className="bg-white rounded-lg shadow-md p-4 mb-6">
+            <h2 className="text-xl font-bold mb-2">Next Election</h2>
+            <p className="text-sm text-gray-600 mb-2">
+                Runs seq-phragmén with balancing on the current nominations and bonds of all stakers. Nominations
+                can still change until the election, so this is an estimate.
+            </p>
+
+            <button
+                className="px-3 py-1 rounded bg-blue-600 text-white disabled:opacity-50"
+                disabled={running || upToDate || allValidators.length === 0}
+                onClick={() => predictElection(network.id, activeEra, allValidators.map(v => v.address))}
+            >
+                {upToDate ? `Predicted in era ${predictedEra}` : predictedBacking ? 'Predict again' : 'Predict next election'}
+            </button>
+
+            {stage === 'loading' && <p className="text-sm text-blue-600 mt-2">Loading nominations and bonds of all stakers...</p>}
+            {stage === 'electing' && <p className="text-sm text-blue-600 mt-2">Running the election...</p>}
+            {error && <p className="text-sm text-red-600 mt-2">Election prediction failed: {error}</p>}
+
+            {predictedBacking && (
+                <>
+                    {!upToDate && <p className="text-sm text-yellow-700 mt-2">The era changed since, predict again for fresh numbers.</p>}
+                    <p className="text-sm mt-3">
+                        {elected.length} validators elected, lowest backing {formatBalance(minBacking, network)}
+                    </p>
+
+                    <h3 className="text-sm font-semibold mt-3 mb-1 text-green-700">Entering ({entries.length})</h3>
+                    <ul className="text-sm">
+                        {entries.map(address => (
+                            <li key={address} className="flex justify-between" title={address}>
+                                <span>{getIdentityLabel(address, identities[address])}</span>
+                                <span className="text-gray-500">{formatBalance(predictedBacking[address], network)}</span>
+                            </li>
+                        ))}
+                    </ul>
+
+                    <h3 className="text-sm font-semibold mt-3 mb-1 text-red-700">Leaving ({exits.length})</h3>
+                    <ul className="text-sm">
+                        {exits.map(address => (
+                            <li key={address} title={address}>{getIdentityLabel(address, identities[address])}</li>
+                        ))}
+                    </ul>
+                </>
+            )}
+        </div>
+    );
+};
@@ -1,11 +1,16 @@
 import React, { useState, useMemo } from 'react';
 import { Validator, useValidatorStore } from '../stores/validatorStore';
-import { formatDOT } from '../utils/api';
+import { usePayoutStore } from '../stores/payoutStore';
+import { useIdentityStore } from '../stores/identityStore';
+import { EraPayoutStatus, SlashingHistory, getIdentityLabel, perbillToRatio } from '../sdk';
+import { formatBalance } from '../utils/api';
+import { NetworkConfig } from '../utils/networks';
 
 /**
  * histPerformance props
  */
 interface HistoricalPerformanceProps {
+    network: NetworkConfig;
     validators: Validator[];
     historicalEras: number[];
     activeEra: number;
@@ -17,6 +22,7 @@ interface HistoricalPerformanceProps {
  * commission rates, and APY - that way the user can check how the validator did in the past and it the performance is consistent.
  */
 export const HistoricalPerformance: React.FC<HistoricalPerformanceProps> = ({
+    network,
     validators,
     historicalEras
 }) => {
@@ -31,6 +37,9 @@ export const HistoricalPerformance: React.FC<HistoricalPerformanceProps> = ({
         setSelectedHistoricalValidator
     } = useValidatorStore();
 
+    const statusByValidator = usePayoutStore(state => state.statusByValidator);
+    const identities = useIdentityStore(state => state.identities);
+
     // local ui state
     const [showInactiveEras, setShowInactiveEras] = useState<boolean>(false);
 
@@ -44,10 +53,11 @@ export const HistoricalPerformance: React.FC<HistoricalPerformanceProps> = ({
     const filteredEras = useMemo(() => {
         if (!validator || showInactiveEras) return historicalEras;
 
-        // oly show eras where validator earned points or rewards
+        // oly show eras where validator earned points or rewards, or got slashed
         return historicalEras.filter(era =>
             validator.performance.previousErasPoints[era] > 0 ||
-            validator.rewards.previousErasRewards[era] > 0n
+            validator.rewards.previousErasRewards[era] > 0n ||
+            validator.slashing.slashes.some(slash => slash.era === era)
         );
     }, [validator, historicalEras, showInactiveEras]);
 
@@ -115,6 +125,35 @@ export const HistoricalPerformance: React.FC<HistoricalPerformanceProps> = ({
         return <span className={classes}>{formattedAPY}</span>;
     };
 
+    /**
+     * payout status of an era, unpaid eras close to expiry in bold
+     */
+    const formatPayout = (status: EraPayoutStatus | undefined) => {
+        if (!status) return <span className="text-gray-400">–</span>;
+        if (status.state === 'claimed') return <span className="text-green-600">Paid</span>;
+
+        const label = status.state === 'partial'
+            ? `${status.unclaimedPages.length}/${status.pageCount} pages unpaid`
+            : 'Unpaid';
+        return (
+            <span className={status.expiring ? 'text-red-700 font-bold' : 'text-red-500'} title={`${status.erasLeft} eras left to pay out`}>
+                {label}
+            </span>
+        );
+    };
+
+    /**
+     * slash for an offence in the era, the chain only keeps them for the bonding duration
+     */
+    const formatSlash = (slash: SlashingHistory['slashes'][number] | undefined) => {
+        if (!slash) return <span className="text-gray-400">–</span>;
+        return (
+            <span className="text-red-700 font-bold" title={`${formatBalance(slash.amount, network)} own stake slashed`}>
+                -{(perbillToRatio(slash.fraction) * 100).toFixed(2)}%
+            </span>
+        );
+    };
+
     /**
      * format commission rate as a percntage
      */
@@ -225,8 +264,8 @@ export const HistoricalPerformance: React.FC<HistoricalPerformanceProps> = ({
                     <option value="">Please select validator</option>
                     {validators.map(v => (
                         <option key={v.address} value={v.address}>
-                            {/* shorten addy for nicer display */}
-                            {v.address.substring(0, 8)}...{v.address.substring(v.address.length - 8)}
+                            {/* identity name or shortened addy for nicer display */}
+                            {getIdentityLabel(v.address, identities[v.address])}
                         </option>
                     ))}
                 </select>
@@ -283,6 +322,11 @@ export const HistoricalPerformance: React.FC<HistoricalPerformanceProps> = ({
                                     formatAPY(showInactiveEras ? validator.rewards.averageAPY : validator.rewards.activeOnlyAverageAPY)
                                 }
                             </p>
+                            {!loadingAPY && (
+                                <p className="text-xs text-gray-500">
+                                    APR {(showInactiveEras ? validator.rewards.averageAPR : validator.rewards.activeOnlyAverageAPR).toFixed(2)}% (not compounded)
+                                </p>
+                            )}
                             <p className="text-xs text-gray-500 mt-1">
                                 Based on {showInactiveEras ? activeAPYEras : activeAPYEras} of {historicalEras.length} eras this validator participated in
                                 {!showInactiveEras ? " (inactive eras hidden)" : ""}
@@ -299,6 +343,17 @@ export const HistoricalPerformance: React.FC<HistoricalPerformanceProps> = ({
                         </div>
                     </div>
 
+                    {/* slashes still waiting to be applied */}
+                    {validator.slashing.pending.length > 0 && (
+                        <div className="mb-4 p-2 bg-red-50 border border-red-300 rounded text-sm text-red-700">
+                            {validator.slashing.pending.map((slash, index) => (
+                                <div key={index}>
+                                    Pending slash of {formatBalance(slash.own + slash.others, network)} ({formatBalance(slash.others, network)} from nominators), applied in era {slash.applyEra}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
                     {/* historical era performance table */}
                     <h3 className="text-lg font-semibold mb-2">Historical Era Performance</h3>
                     <div className="overflow-x-auto">
@@ -309,13 +364,16 @@ export const HistoricalPerformance: React.FC<HistoricalPerformanceProps> = ({
                                     <th className="border p-2 text-right">Points</th>
                                     <th className="border p-2 text-right">Rewards</th>
                                     <th className="border p-2 text-right">Commission</th>
+                                    <th className="border p-2 text-right">APR</th>
                                     <th className="border p-2 text-right">APY</th>
+                                    <th className="border p-2 text-right">Payout</th>
+                                    <th className="border p-2 text-right">Slash</th>
                                 </tr>
                             </thead>
                             <tbody>
                                 {filteredEras.length === 0 ? (
                                     <tr>
-                                        <td colSpan={5} className="border p-4 text-center text-gray-500">
+                                        <td colSpan={8} className="border p-4 text-center text-gray-500">
                                             {!showInactiveEras
                                                 ? "No active eras found for this validator in the selected period"
                                                 : "No historical data available"}
@@ -329,17 +387,29 @@ export const HistoricalPerformance: React.FC<HistoricalPerformanceProps> = ({
                                                 {validator.performance.previousErasPoints[era] || 0}
                                             </td>
                                             <td className="border p-2 text-right">
-                                                {formatDOT(validator.rewards.previousErasRewards[era] || 0n)}
+                                                {formatBalance(validator.rewards.previousErasRewards[era] || 0n, network)}
                                             </td>
                                             <td className="border p-2 text-right">
                                                 {formatCommission(validator.historicalCommission[era] || validator.commission)}
                                             </td>
+                                            <td className="border p-2 text-right">
+                                                {loadingAPY ?
+                                                    <span className="text-gray-400">Calculating...</span> :
+                                                    formatAPY(validator.rewards.aprByEra[era] || 0)
+                                                }
+                                            </td>
                                             <td className="border p-2 text-right">
                                                 {loadingAPY ?
                                                     <span className="text-gray-400">Calculating...</span> :
                                                     formatAPY(validator.rewards.apyByEra[era] || 0)
                                                 }
                                             </td>
+                                            <td className="border p-2 text-right">
+                                                {formatPayout(statusByValidator[validator.address]?.[era])}
+                                            </td>
+                                            <td className="border p-2 text-right">
+                                                {formatSlash(validator.slashing.slashes.find(slash => slash.era === era))}
+                                            </td>
                                         </tr>
                                     ))
                                 )}
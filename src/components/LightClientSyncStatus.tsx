@@ -0,0 +1,26 @@
+import React from 'react';
+import { useConnectionStore } from '../stores/connectionStore';
+
+/**
+ * sync progress of the embedded light client
+ * shown instead of the loading message until smoldot has a finalized block
+ */
+export const LightClientSyncStatus: React.FC = () => {
+    const { status, sync } = useConnectionStore();
+
+    if (status !== 'syncing') return null;
+
+    return (
+        <div className="mt-4 text-sm text-gray-600">
+            <p className="font-medium">Syncing light client...</p>
+            <p className="text-xs text-gray-500 mt-1">
+                {sync
+                    ? `${sync.peers} peers, ${sync.bestBlock !== null ? `best block #${sync.bestBlock.toLocaleString()}` : 'waiting for first block'}${sync.isSyncing ? ' (warp syncing)' : ''}`
+                    : 'starting smoldot and connecting to peers'}
+            </p>
+            <p className="text-xs text-gray-500 mt-1">
+                Data is verified against the chain, loading validators starts once the light client has synced
+            </p>
+        </div>
+    );
+};
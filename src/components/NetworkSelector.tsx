@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { useNetworkStore } from '../stores/networkStore';
+import { ConnectionMode, NETWORKS, NetworkConfig } from '../utils/networks';
+import { ConnectionStatus } from './ConnectionStatus';
+import { CacheControls } from './CacheControls';
+
+interface NetworkSelectorProps {
+    network: NetworkConfig;
+    connectionMode: ConnectionMode;
+    disabled?: boolean;
+}
+
+// form values for a custom network, kept as strings while editing
+const emptyCustomForm = {
+    name: '',
+    endpoint: '',
+    symbol: '',
+    decimals: '10',
+    ss58Prefix: '42',
+    historyDepth: '84'
+};
+
+/**
+ * network picker
+ * - switch between built-in relay chains and custom endpoints
+ * - add / remove custom networks, selection is persisted by the network store
+ */
+export const NetworkSelector: React.FC<NetworkSelectorProps> = ({ network, connectionMode, disabled = false }) => {
+    const { customNetworks, setNetwork, setConnectionMode, addCustomNetwork, removeCustomNetwork } = useNetworkStore();
+
+    // local ui state for the custom network form
+    const [showCustomForm, setShowCustomForm] = useState<boolean>(false);
+    const [form, setForm] = useState(emptyCustomForm);
+
+    const updateForm = (field: keyof typeof emptyCustomForm, value: string) => {
+        setForm({ ...form, [field]: value });
+    };
+
+    // only allow adding when every field is filled in and the endpoint is a websocket url
+    const decimals = parseInt(form.decimals, 10);
+    const ss58Prefix = parseInt(form.ss58Prefix, 10);
+    const historyDepth = parseInt(form.historyDepth, 10);
+    const isFormValid = form.name.trim() !== '' &&
+        /^wss?:\/\//.test(form.endpoint.trim()) &&
+        form.symbol.trim() !== '' &&
+        !isNaN(decimals) && decimals >= 0 &&
+        !isNaN(ss58Prefix) && ss58Prefix >= 0 &&
+        !isNaN(historyDepth) && historyDepth >= 1;
+
+    const handleAddCustomNetwork = () => {
+        if (!isFormValid) return;
+
+        addCustomNetwork({
+            name: form.name.trim(),
+            endpoints: [form.endpoint.trim()],
+            symbol: form.symbol.trim(),
+            decimals,
+            ss58Prefix,
+            historyDepth
+        });
+        setForm(emptyCustomForm);
+        setShowCustomForm(false);
+    };
+
+    return (
+        <div className="bg-white rounded-lg shadow-md p-4 mb-6">
+            <div className="flex flex-wrap items-center gap-4">
+                <label className="text-sm font-medium">
+                    Network:
+                    <select
+                        className="ml-2 p-1 border rounded"
+                        value={network.id}
+                        onChange={(e) => setNetwork(e.target.value)}
+                        disabled={disabled}
+                    >
+                        {NETWORKS.map(n => (
+                            <option key={n.id} value={n.id}>{n.name}</option>
+                        ))}
+                        {customNetworks.length > 0 && (
+                            <optgroup label="Custom">
+                                {customNetworks.map(n => (
+                                    <option key={n.id} value={n.id}>{n.name}</option>
+                                ))}
+                            </optgroup>
+                        )}
+                    </select>
+                </label>
+
+                {/* light client only for networks with a bundled chain spec */}
+                <label
+                    className="inline-flex items-center text-sm cursor-pointer"
+                    title={network.lightClientChain ? 'Verify data with the embedded smoldot light client' : 'No bundled chain spec for this network'}
+                >
+                    <input
+                        type="checkbox"
+                        className="form-checkbox h-4 w-4 text-blue-600 mr-2"
+                        checked={connectionMode === 'light-client'}
+                        onChange={(e) => setConnectionMode(e.target.checked ? 'light-client' : 'rpc')}
+                        disabled={disabled || !network.lightClientChain}
+                    />
+                    Light client
+                </label>
+
+                <ConnectionStatus />
+
+                {network.custom && (
+                    <button
+                        className="text-sm text-red-600 hover:underline disabled:opacity-50"
+                        onClick={() => removeCustomNetwork(network.id)}
+                        disabled={disabled}
+                    >
+                        Remove
+                    </button>
+                )}
+
+                <div className="ml-auto">
+                    <CacheControls />
+                </div>
+
+                <button
+                    className="text-sm text-blue-600 hover:underline"
+                    onClick={() => setShowCustomForm(!showCustomForm)}
+                >
+                    {showCustomForm ? 'Cancel' : 'Add custom network'}
+                </button>
+            </div>
+
+            {/* custom network form */}
+            {showCustomForm && (
+                <div className="mt-4 grid grid-cols-2 md:grid-cols-3 gap-2 text-sm">
+                    <input className="p-1 border rounded" placeholder="Name" value={form.name}
+                        onChange={(e) => updateForm('name', e.target.value)} />
+                    <input className="p-1 border rounded col-span-2 font-mono" placeholder="wss://..." value={form.endpoint}
+                        onChange={(e) => updateForm('endpoint', e.target.value)} />
+                    <input className="p-1 border rounded" placeholder="Symbol" value={form.symbol}
+                        onChange={(e) => updateForm('symbol', e.target.value)} />
+                    <label className="flex items-center">
+                        Decimals
+                        <input type="number" min="0" className="ml-2 w-16 p-1 border rounded" value={form.decimals}
+                            onChange={(e) => updateForm('decimals', e.target.value)} />
+                    </label>
+                    <label className="flex items-center">
+                        SS58 prefix
+                        <input type="number" min="0" className="ml-2 w-16 p-1 border rounded" value={form.ss58Prefix}
+                            onChange={(e) => updateForm('ss58Prefix', e.target.value)} />
+                    </label>
+                    <label className="flex items-center">
+                        History depth
+                        <input type="number" min="1" className="ml-2 w-16 p-1 border rounded" value={form.historyDepth}
+                            onChange={(e) => updateForm('historyDepth', e.target.value)} />
+                    </label>
+                    <button
+                        className="px-3 py-1 rounded bg-blue-500 text-white disabled:opacity-50"
+                        onClick={handleAddCustomNetwork}
+                        disabled={!isFormValid}
+                    >
+                        Add and connect
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,270 @@
+import React, { useMemo, useState } from 'react';
+import { useValidatorStore } from '../stores/validatorStore';
+import { useIdentityStore } from '../stores/identityStore';
+import { useOperatorStore } from '../stores/operatorStore';
+import { useOptimizerStore } from '../stores/optimizerStore';
+import { useStakingActionsStore } from '../stores/stakingActionsStore';
+import {
+    EMPTY_SLASHING_HISTORY,
+    OptimizedNominations,
+    OptimizedPick,
+    OptimizerCandidate,
+    OptimizerConstraints,
+    OptimizerRejection,
+    getIdentityLabel,
+    getSlashRisk,
+    optimizeNominations,
+    summarizeExposure
+} from '../sdk';
+import { formatBalance, parseBalance } from '../utils/api';
+import { NetworkConfig } from '../utils/networks';
+
+interface NominationOptimizerProps {
+    network: NetworkConfig;
+}
+
+// two weeks on polkadot, long enough to see validators drop out of the active set now and then
+const DEFAULT_ERA_COUNT = 14;
+
+const REJECTION_LABELS: Record<OptimizerRejection, string> = {
+    commission: 'commission too high',
+    selfStake: 'self stake too low',
+    identity: 'no identity',
+    slashed: 'slashed',
+    oversubscribed: 'oversubscribed',
+    inconsistent: 'too few eras with rewards',
+    operatorLimit: 'operator limit reached'
+};
+
+const formatPercent = (value: number) => `${value.toFixed(2)}%`;
+
+/**
+ * picks the nominate targets with the best expected return from the validators the table filters leave
+ *
+ * the APY of every era in the window is calculated for all validators (stores/optimizerStore), the
+ * selection and the blended APY come from sdk/optimizer. the picks are handed to the staking actions
+ * as nominate targets.
+ */
+export const NominationOptimizer: React.FC<NominationOptimizerProps> = ({ network }) => {
+    const filteredValidators = useValidatorStore(state => state.filteredValidators);
+    const slashingByValidator = useValidatorStore(state => state.slashingByValidator);
+    const activeEra = useValidatorStore(state => state.activeEra);
+    const eraTiming = useValidatorStore(state => state.eraTiming);
+    const maxHistoryLength = useValidatorStore(state => state.maxHistoryLength);
+    const identities = useIdentityStore(state => state.identities);
+    const operatorOf = useOperatorStore(state => state.operatorOf);
+    const setTargets = useStakingActionsStore(state => state.setTargets);
+    const {
+        networkId, activeEra: loadedEra, eras, maxNominations, commission, overviews, maxExposurePageSize, apyByValidator,
+        erasLoaded, loading, error, fetchHistory
+    } = useOptimizerStore();
+
+    const [maxCommission, setMaxCommission] = useState<number>(10);   // %
+    const [minSelfStake, setMinSelfStake] = useState<string>('');
+    const [requireIdentity, setRequireIdentity] = useState<boolean>(true);
+    const [excludeSlashed, setExcludeSlashed] = useState<boolean>(true);
+    const [excludeOversubscribed, setExcludeOversubscribed] = useState<boolean>(false);
+    const [maxPerOperator, setMaxPerOperator] = useState<number>(2);
+    const [eraCount, setEraCount] = useState<number>(DEFAULT_ERA_COUNT);
+    const [minActiveEras, setMinActiveEras] = useState<number>(DEFAULT_ERA_COUNT);
+
+    const selfStake = parseBalance(minSelfStake || '0', network);
+    const loaded = networkId === network.id && loadedEra === activeEra && !loading && eras.length > 0;
+
+    const candidates = useMemo((): OptimizerCandidate[] => filteredValidators.map(({ address }) => {
+        const slashRisk = getSlashRisk(slashingByValidator[address] ?? EMPTY_SLASHING_HISTORY);
+        return {
+            address,
+            commission: commission[address] ?? 1,
+            ownStake: overviews[address]?.own ?? 0n,
+            hasIdentity: !!identities[address],
+            slashed: slashRisk === 'pending' || slashRisk === 'slashed',
+            oversubscribed: summarizeExposure(overviews[address], maxExposurePageSize).oversubscribed,
+            operator: operatorOf[address] ?? address,
+            apyByEra: apyByValidator[address] ?? {}
+        };
+    }), [filteredValidators, commission, overviews, identities, slashingByValidator, maxExposurePageSize, operatorOf, apyByValidator]);
+
+    const constraints = useMemo((): OptimizerConstraints | null => (selfStake === undefined ? null : {
+        maxNominations,
+        maxCommission: maxCommission / 100,
+        minSelfStake: selfStake,
+        requireIdentity,
+        excludeSlashed,
+        excludeOversubscribed,
+        maxPerOperator,
+        eras,
+        minActiveEras: Math.min(minActiveEras, eras.length)
+    }), [maxNominations, maxCommission, selfStake, requireIdentity, excludeSlashed, excludeOversubscribed, maxPerOperator, eras, minActiveEras]);
+
+    const result = useMemo((): OptimizedNominations | null =>
+        (loaded && constraints ? optimizeNominations(candidates, constraints) : null), [loaded, candidates, constraints]);
+
+    const handleOptimize = () => {
+        if (eraTiming) fetchHistory(network.id, activeEra, Math.min(eraCount, maxHistoryLength), eraTiming.erasPerYear);
+    };
+
+    // why a validator made it into the set
+    const explain = (pick: OptimizedPick, { eligible }: OptimizedNominations) => {
+        const reasons = [
+            `#${pick.rank} of ${eligible} eligible by mean APY over ${eras.length} eras`,
+            `rewards in ${pick.activeEras}/${eras.length} eras`,
+            `commission ${formatPercent(pick.candidate.commission * 100)}`
+        ];
+        if (selfStake) reasons.push(`self stake ${formatBalance(pick.candidate.ownStake, network)}`);
+        if (requireIdentity) reasons.push('has identity');
+        if (maxPerOperator > 0) reasons.push(`${pick.operatorPick} of max ${maxPerOperator} for its operator`);
+        return reasons.join(', ');
+    };
+
+    const rejections = result
+        ? (Object.entries(result.rejected) as Array<[OptimizerRejection, number]>).filter(([, count]) => count > 0)
+        : [];
+
+    return (
+        <div className="bg-white rounded-lg shadow-md p-4 mb-6">
+            <h2 className="text-xl font-bold mb-2">Nomination Optimizer</h2>
+            <p className="text-sm text-gray-600 mb-3">
+                Picks up to the nominations quota of validators with the best mean APY over the last eras from the
+                validators the table filters leave. Eras without rewards count as 0%. The blended APY assumes the stake
+                is spread evenly, the election decides the real split.
+            </p>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3 text-sm">
+                <label className="flex flex-col">
+                    Max commission (%)
+                    <input
+                        type="number" min={0} max={100} step={0.5}
+                        className="border rounded px-2 py-1"
+                        value={maxCommission}
+                        onChange={(e) => setMaxCommission(Number(e.target.value))}
+                    />
+                </label>
+                <label className="flex flex-col">
+                    Min self stake ({network.symbol})
+                    <input
+                        type="text"
+                        className={`border rounded px-2 py-1 ${selfStake === undefined ? 'border-red-500' : ''}`}
+                        value={minSelfStake}
+                        onChange={(e) => setMinSelfStake(e.target.value)}
+                        placeholder="0"
+                    />
+                </label>
+                <label className="flex flex-col">
+                    Max per operator (0 = off)
+                    <input
+                        type="number" min={0}
+                        className="border rounded px-2 py-1"
+                        value={maxPerOperator}
+                        onChange={(e) => setMaxPerOperator(Math.max(0, Number(e.target.value)))}
+                    />
+                </label>
+                <label className="flex flex-col">
+                    Eras of history
+                    <input
+                        type="number" min={1} max={maxHistoryLength}
+                        className="border rounded px-2 py-1"
+                        value={eraCount}
+                        onChange={(e) => setEraCount(Math.max(1, Number(e.target.value)))}
+                    />
+                </label>
+                <label className="flex flex-col">
+                    Min eras with rewards
+                    <input
+                        type="number" min={0} max={eraCount}
+                        className="border rounded px-2 py-1"
+                        value={minActiveEras}
+                        onChange={(e) => setMinActiveEras(Math.max(0, Number(e.target.value)))}
+                    />
+                </label>
+                <div className="flex flex-col justify-end gap-1 col-span-2 md:col-span-3">
+                    <label>
+                        <input type="checkbox" className="mr-1" checked={requireIdentity} onChange={(e) => setRequireIdentity(e.target.checked)} />
+                        Identity required
+                    </label>
+                    <label>
+                        <input type="checkbox" className="mr-1" checked={excludeSlashed} onChange={(e) => setExcludeSlashed(e.target.checked)} />
+                        No slashes (applied or pending)
+                    </label>
+                    <label>
+                        <input type="checkbox" className="mr-1" checked={excludeOversubscribed} onChange={(e) => setExcludeOversubscribed(e.target.checked)} />
+                        Exclude oversubscribed
+                    </label>
+                </div>
+            </div>
+
+            <button
+                className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                onClick={handleOptimize}
+                disabled={!eraTiming || loading}
+            >
+                {loading ? `Loading eras ${erasLoaded}/${eras.length}...` : 'Optimize'}
+            </button>
+            {error && <p className="mt-2 text-sm text-red-600">Failed to load the era history: {error}</p>}
+
+            {result && (
+                <div className="mt-4 text-sm">
+                    <div className="grid grid-cols-3 gap-3 mb-3">
+                        <div className="bg-gray-50 p-3 rounded">
+                            <h3 className="text-sm font-medium text-gray-500">Expected blended APY</h3>
+                            <p className="text-2xl font-bold">{formatPercent(result.blendedAPY)}</p>
+                            <p className="text-xs text-gray-500">mean of eras {eras[0]}-{eras[eras.length - 1]}</p>
+                        </div>
+                        <div className="bg-gray-50 p-3 rounded" title="Variance of the set's APY across the eras, in %²">
+                            <h3 className="text-sm font-medium text-gray-500">Variance</h3>
+                            <p className="text-2xl font-bold">{result.blendedVariance.toFixed(3)}</p>
+                            <p className="text-xs text-gray-500">standard deviation {formatPercent(Math.sqrt(result.blendedVariance))}</p>
+                        </div>
+                        <div className="bg-gray-50 p-3 rounded">
+                            <h3 className="text-sm font-medium text-gray-500">Picked</h3>
+                            <p className="text-2xl font-bold">{result.picks.length}/{maxNominations}</p>
+                            <p className="text-xs text-gray-500">{result.eligible} of {candidates.length} filtered validators eligible</p>
+                        </div>
+                    </div>
+
+                    {rejections.length > 0 && (
+                        <p className="text-xs text-gray-500 mb-2">
+                            Left out: {rejections.map(([rejection, count]) => `${count} ${REJECTION_LABELS[rejection]}`).join(', ')}
+                        </p>
+                    )}
+
+                    {result.picks.length === 0 ? (
+                        <p className="text-gray-500">No validator meets the constraints.</p>
+                    ) : (
+                        <>
+                            <table className="w-full border-collapse mb-3">
+                                <thead>
+                                    <tr className="bg-gray-100">
+                                        <th className="border p-2 text-left">Validator</th>
+                                        <th className="border p-2 text-right">Mean APY</th>
+                                        <th className="border p-2 text-right">Std. dev.</th>
+                                        <th className="border p-2 text-left">Why</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {result.picks.map(pick => (
+                                        <tr key={pick.address} className="hover:bg-gray-50">
+                                            <td className="border p-2 font-mono" title={pick.address}>
+                                                {getIdentityLabel(pick.address, identities[pick.address])}
+                                            </td>
+                                            <td className="border p-2 text-right">{formatPercent(pick.expectedAPY)}</td>
+                                            <td className="border p-2 text-right">{formatPercent(Math.sqrt(pick.apyVariance))}</td>
+                                            <td className="border p-2 text-xs text-gray-600">{explain(pick, result)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+
+                            <button
+                                className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700"
+                                onClick={() => setTargets(network.id, result.picks.map(pick => pick.address))}
+                            >
+                                Use as nominate targets
+                            </button>
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { useNominatorStore } from '../stores/nominatorStore';
+import { useIdentityStore } from '../stores/identityStore';
+import { selectSelectedAccount, useWalletStore } from '../stores/walletStore';
+import { EraTiming, NominatorIssue, RewardDestination, getIdentityLabel } from '../sdk';
+import { formatBalance } from '../utils/api';
+import { NetworkConfig, toNetworkAddress } from '../utils/networks';
+import { WalletConnect } from './WalletConnect';
+
+interface NominatorPortfolioProps {
+    network: NetworkConfig;
+    activeEra: number;
+    eraTiming: EraTiming | null;
+}
+
+const ISSUE_LABELS: Record<NominatorIssue, string> = {
+    notBonded: 'Nothing is bonded on this stash.',
+    noActiveBond: 'All of the bond is unbonding, unbonding funds earn nothing.',
+    notNominating: 'The stash does not nominate anyone (never nominated or chilled).',
+    noActiveTargets: 'None of the nominated validators is in the active set this era.',
+    belowMinimumActiveStake: 'The active bond is below the smallest stake that made it into the last election, so it is not backing anyone.',
+    notExposed: 'Nominated validators are active, but the election assigned the stake to none of them this era.',
+    rewardsNotPaid: 'The reward destination is None, rewards are not paid out.'
+};
+
+const formatPayee = (payee: RewardDestination | null) => {
+    if (!payee) return 'not set';
+    if (payee.type === 'Account') return `account ${payee.account}`;
+    return payee.type === 'Staked' ? 'stash (restaked)' : payee.type.toLowerCase();
+};
+
+/**
+ * staking status of any stash: bond, nominations, exposure this era, unbonding and expected reward
+ * follows the account picked in the wallet, any other address can still be pasted
+ */
+export const NominatorPortfolio: React.FC<NominatorPortfolioProps> = ({ network, activeEra, eraTiming }) => {
+    const {
+        networkId, address, ledger, controller, nomination, payee, targets, unlocking,
+        lastEraReturns, estimatedEraReward, issues, loading, error, lookup
+    } = useNominatorStore();
+    const { identities, fetchIdentities } = useIdentityStore();
+    const walletAddress = useWalletStore(state => selectSelectedAccount(state)?.address);
+
+    const [input, setInput] = useState<string>('');
+    const stash = toNetworkAddress(input, network.ss58Prefix);
+    const account = walletAddress ? toNetworkAddress(walletAddress, network.ss58Prefix) : undefined;
+    const erasPerYear = eraTiming?.erasPerYear;
+
+    // look up the wallet account as soon as it is picked, again on every new era
+    useEffect(() => {
+        if (!account || !erasPerYear) return;
+        setInput(account);
+        lookup(network.id, account, activeEra, erasPerYear);
+    }, [account, network.id, activeEra, erasPerYear, lookup]);
+
+    // names of the nominated validators, waiting ones are not looked up yet
+    useEffect(() => {
+        if (targets.length > 0) fetchIdentities(network.id, targets.map(target => target.address));
+    }, [network.id, targets, fetchIdentities]);
+
+    const handleLookup = () => {
+        if (stash && eraTiming) lookup(network.id, stash, activeEra, eraTiming.erasPerYear);
+    };
+
+    // results of another network are about to be replaced
+    const loaded = networkId === network.id && address !== null && !loading && !error;
+
+    return (
+        <div className="bg-white rounded-lg shadow-md p-4 mb-6">
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+                <h2 className="text-xl font-bold">Nominator Status</h2>
+                <WalletConnect />
+            </div>
+            <p className="text-sm text-gray-600 mb-2">
+                Bond, nominations and exposure of a stash in era {activeEra}. Only stake the election assigned to a
+                validator (its exposure) earns rewards.
+            </p>
+
+            <div className="flex gap-2 mb-3">
+                <input
+                    type="text"
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleLookup()}
+                    placeholder="Stash address"
+                    className="flex-1 border rounded px-2 py-1 font-mono text-sm"
+                />
+                <button
+                    className="px-3 py-1 rounded bg-blue-600 text-white disabled:opacity-50"
+                    disabled={!stash || !eraTiming || loading}
+                    onClick={handleLookup}
+                >
+                    Check
+                </button>
+            </div>
+            {input.trim() && !stash && <p className="text-sm text-red-600 mb-2">Not a valid address</p>}
+
+            {loading && <p className="text-sm text-blue-600">Loading staking status...</p>}
+            {error && <p className="text-sm text-red-600">Failed to load the staking status: {error}</p>}
+
+            {loaded && (
+                <>
+                    {issues.length > 0 ? (
+                        <div className="bg-yellow-50 border border-yellow-300 text-yellow-800 px-3 py-2 rounded mb-3 text-sm">
+                            <ul className="list-disc ml-4">
+                                {issues.map(issue => <li key={issue}>{ISSUE_LABELS[issue]}</li>)}
+                            </ul>
+                        </div>
+                    ) : (
+                        <p className="text-sm text-green-700 mb-3">The stash is exposed to an active validator and earns rewards this era.</p>
+                    )}
+
+                    {ledger && (
+                        <div className="grid grid-cols-4 gap-3 mb-4">
+                            <div className="bg-gray-50 p-3 rounded">
+                                <h3 className="text-sm font-medium text-gray-500">Bonded</h3>
+                                <p className="text-lg font-bold">{formatBalance(ledger.total, network)}</p>
+                                <p className="text-xs text-gray-500">{formatBalance(ledger.active, network)} active</p>
+                            </div>
+                            <div className="bg-gray-50 p-3 rounded">
+                                <h3 className="text-sm font-medium text-gray-500">Rewards go to</h3>
+                                <p className="text-sm font-medium break-all">{formatPayee(payee)}</p>
+                                {controller && controller !== address && (
+                                    <p className="text-xs text-gray-500 break-all">controller {controller}</p>
+                                )}
+                            </div>
+                            <div className="bg-gray-50 p-3 rounded">
+                                <h3 className="text-sm font-medium text-gray-500">Nominations</h3>
+                                <p className="text-lg font-bold">{targets.length}</p>
+                                {nomination && <p className="text-xs text-gray-500">last changed in era {nomination.submittedIn}</p>}
+                            </div>
+                            <div className="bg-gray-50 p-3 rounded" title="Share of the exposed stake in what the validators paid their stakers in the last era">
+                                <h3 className="text-sm font-medium text-gray-500">Expected reward per era</h3>
+                                <p className="text-lg font-bold">{formatBalance(estimatedEraReward, network)}</p>
+                                <p className="text-xs text-gray-500">estimate</p>
+                            </div>
+                        </div>
+                    )}
+
+                    {targets.length > 0 && (
+                        <table className="w-full border-collapse text-sm mb-4">
+                            <thead>
+                                <tr className="bg-gray-100">
+                                    <th className="border p-1 text-left">Validator</th>
+                                    <th className="border p-1 text-center">Active</th>
+                                    <th className="border p-1 text-right">Exposed stake</th>
+                                    <th className="border p-1 text-right">Last era APY</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {targets.map(target => (
+                                    <tr key={target.address} className={target.exposure ? 'bg-green-50' : ''}>
+                                        <td className="border p-1 font-mono" title={target.address}>
+                                            {getIdentityLabel(target.address, identities[target.address])}
+                                        </td>
+                                        <td className="border p-1 text-center">{target.active ? 'yes' : 'no'}</td>
+                                        <td className="border p-1 text-right">
+                                            {target.exposure
+                                                ? <span title={`reward page ${target.exposure.page}`}>{formatBalance(target.exposure.value, network)}</span>
+                                                : '-'}
+                                        </td>
+                                        <td className="border p-1 text-right">
+                                            {lastEraReturns[target.address] ? `${lastEraReturns[target.address].apy.toFixed(2)}%` : '-'}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+
+                    {unlocking.length > 0 && (
+                        <>
+                            <h3 className="text-sm font-semibold mb-1">Unbonding</h3>
+                            <ul className="text-sm">
+                                {unlocking.map((chunk, i) => (
+                                    <li key={i} className="flex justify-between">
+                                        <span>{formatBalance(chunk.value, network)}</span>
+                                        <span className={chunk.withdrawable ? 'text-green-600' : 'text-gray-500'}>
+                                            {chunk.withdrawable ? 'withdrawable' : `era ${chunk.era}, ${chunk.erasLeft} eras left`}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
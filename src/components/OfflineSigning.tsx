@@ -0,0 +1,222 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { toHex } from 'polkadot-api/utils';
+import { useOfflineSigningStore } from '../stores/offlineSigningStore';
+import { encodeQr } from '../utils/qr';
+import { SubmissionStatus } from '../utils/transactions';
+import { NetworkConfig } from '../utils/networks';
+
+interface OfflineSigningProps {
+    network: NetworkConfig;
+}
+
+// how long each frame of a multipart QR is shown
+const FRAME_INTERVAL = 500;
+
+// how often the camera picture is checked for a QR code
+const SCAN_INTERVAL = 300;
+
+// modules of white space around the code, scanners need it
+const QUIET_ZONE = 4;
+
+const STATUS_LABELS: Record<SubmissionStatus, string> = {
+    'signing': 'Waiting for signature...',
+    'broadcasted': 'Broadcasted, waiting for inclusion...',
+    'in-block': 'Included in a block, waiting for finality...',
+    'finalized': 'Finalized'
+};
+
+// the parts of the (chromium only) barcode detection api used for scanning
+interface BarcodeDetectorLike {
+    detect: (source: HTMLVideoElement) => Promise<Array<{ rawValue: string }>>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const getBarcodeDetector = () => (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+// one QR frame as svg, a path of unit squares
+const QrCode: React.FC<{ data: Uint8Array }> = ({ data }) => {
+    const matrix = useMemo(() => encodeQr(data), [data]);
+    const size = matrix.length + 2 * QUIET_ZONE;
+    const path = matrix
+        .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z` : '')))
+        .join('');
+
+    return (
+        <svg viewBox={`0 0 ${size} ${size}`} className="w-64 h-64 bg-white" shapeRendering="crispEdges">
+            <path d={path} fill="black" />
+        </svg>
+    );
+};
+
+/**
+ * the transaction exported for offline signing and the way back in
+ *
+ * the payload is shown as polkadot vault QR (cycling through the frames of larger calls), as call
+ * data and as json file. the signature is scanned from the signer with the camera, pasted, or
+ * comes back in the json file and is submitted through the connected client.
+ */
+export const OfflineSigning: React.FC<OfflineSigningProps> = ({ network }) => {
+    const { networkId, call, unsigned, file, frames, exporting, submission, error, submitSigned, reset } = useOfflineSigningStore();
+
+    const [frame, setFrame] = useState<number>(0);
+    const [signed, setSigned] = useState<string>('');
+    const [scanning, setScanning] = useState<boolean>(false);
+    const [scanError, setScanError] = useState<string | null>(null);
+    const videoRef = useRef<HTMLVideoElement>(null);
+
+    const exported = networkId === network.id ? file : null;
+
+    // an export of another network is of no use here
+    useEffect(() => {
+        if (networkId && networkId !== network.id) reset();
+    }, [network.id, networkId, reset]);
+
+    useEffect(() => {
+        setFrame(0);
+        setSigned('');
+        if (frames.length < 2) return;
+        const timer = setInterval(() => setFrame(current => (current + 1) % frames.length), FRAME_INTERVAL);
+        return () => clearInterval(timer);
+    }, [frames]);
+
+    // reads the camera until a code is found, the signer shows the signature as QR
+    useEffect(() => {
+        const Detector = getBarcodeDetector();
+        if (!scanning || !Detector) return;
+
+        const detector = new Detector({ formats: ['qr_code'] });
+        let stream: MediaStream | null = null;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let stopped = false;
+
+        const scan = async () => {
+            if (stopped || !videoRef.current) return;
+            try {
+                const [code] = await detector.detect(videoRef.current);
+                if (code && !stopped) {
+                    setSigned(code.rawValue);
+                    setScanning(false);
+                    return;
+                }
+            } catch {
+                // the video has no picture yet
+            }
+            timer = setTimeout(scan, SCAN_INTERVAL);
+        };
+
+        navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+            .then(media => {
+                stream = media;
+                if (stopped || !videoRef.current) return;
+                videoRef.current.srcObject = media;
+                return videoRef.current.play().then(scan);
+            })
+            .catch(error => {
+                if (stopped) return;
+                setScanError((error as Error).message);
+                setScanning(false);
+            });
+
+        return () => {
+            stopped = true;
+            clearTimeout(timer);
+            stream?.getTracks().forEach(track => track.stop());
+        };
+    }, [scanning]);
+
+    const handleDownload = () => {
+        if (!exported) return;
+        const url = URL.createObjectURL(new Blob([JSON.stringify(exported, null, 2)], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${exported.call}-${exported.address.slice(0, 8)}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const upload = event.target.files?.[0];
+        if (upload) setSigned(await upload.text());
+        event.target.value = '';
+    };
+
+    const submitting = submission !== null && submission !== 'finalized';
+
+    return (
+        <div className="bg-white rounded-lg shadow-md p-4 mb-6">
+            <h2 className="text-xl font-bold mb-2">Offline Signing</h2>
+            <p className="text-sm text-gray-600 mb-3">
+                Export a staking call or payout for a cold stash, sign it on an air-gapped device (Polkadot Vault or any
+                tool that reads the json file) and submit the signed result here. Calls are built from the metadata
+                bundled with the app, the chain only provides nonce and block.
+            </p>
+
+            {exporting && <p className="text-sm text-blue-600">Preparing {call}...</p>}
+            {!exporting && !exported && !error && (
+                <p className="text-sm text-gray-500">Nothing exported yet, use "Export for offline signing" in the staking actions or the payout builder.</p>
+            )}
+
+            {exported && unsigned && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                    <div>
+                        <p className="mb-1">
+                            <span className="font-medium">{exported.call}</span> signed by <span className="font-mono">{exported.address}</span>
+                        </p>
+                        <QrCode data={frames[frame] ?? frames[0]} />
+                        {frames.length > 1 && <p className="text-xs text-gray-500">Frame {frame + 1} of {frames.length}</p>}
+                        <button className="mt-2 px-2 py-1 border rounded hover:bg-gray-100" onClick={handleDownload}>
+                            Download json
+                        </button>
+                    </div>
+                    <div>
+                        <label className="block font-medium mb-1">Call data</label>
+                        <textarea
+                            className="w-full h-20 p-2 border rounded font-mono text-xs bg-gray-50"
+                            value={toHex(unsigned.callData)}
+                            readOnly
+                        />
+                        <label className="block font-medium mt-2 mb-1">Signing payload</label>
+                        <textarea
+                            className="w-full h-20 p-2 border rounded font-mono text-xs bg-gray-50"
+                            value={exported.signingPayload}
+                            readOnly
+                        />
+                    </div>
+                </div>
+            )}
+
+            <div className="mt-4 text-sm">
+                <label className="block font-medium mb-1">Signed result</label>
+                <textarea
+                    className="w-full h-20 p-2 border rounded font-mono text-xs"
+                    value={signed}
+                    onChange={(e) => setSigned(e.target.value)}
+                    placeholder="Signature (0x...) of the exported transaction, or the json file with its signature"
+                />
+                <div className="flex flex-wrap items-center gap-2 mt-1">
+                    {getBarcodeDetector() && (
+                        <button className="px-2 py-1 border rounded hover:bg-gray-100" onClick={() => { setScanError(null); setScanning(!scanning); }}>
+                            {scanning ? 'Stop camera' : 'Scan signature'}
+                        </button>
+                    )}
+                    <label className="px-2 py-1 border rounded hover:bg-gray-100 cursor-pointer">
+                        Upload json
+                        <input type="file" accept="application/json,.json" className="hidden" onChange={handleUpload} />
+                    </label>
+                    <button
+                        className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                        onClick={() => submitSigned(network.id, signed)}
+                        disabled={!signed.trim() || submitting}
+                    >
+                        Submit
+                    </button>
+                </div>
+                {scanning && <video ref={videoRef} className="mt-2 w-64 rounded" muted playsInline />}
+                {scanError && <p className="mt-1 text-red-600">Camera unavailable: {scanError}</p>}
+            </div>
+
+            {submission && <p className="mt-2 text-sm text-blue-600">{STATUS_LABELS[submission]}</p>}
+            {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+        </div>
+    );
+};
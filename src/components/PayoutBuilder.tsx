@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { Validator } from '../stores/validatorStore';
+import { usePayoutStore } from '../stores/payoutStore';
+import { useIdentityStore } from '../stores/identityStore';
+import { useOfflineSigningStore } from '../stores/offlineSigningStore';
+import { selectSelectedAccount, useWalletStore } from '../stores/walletStore';
+import { PayoutTarget, collectPayoutTargets, getIdentityLabel } from '../sdk';
+import { formatBalance, getTypedApi } from '../utils/api';
+import {
+    OfflineCall,
+    RelayTransaction,
+    SubmissionStatus,
+    TransactionSummary,
+    buildPayoutBatch,
+    submitTransaction,
+    summarizeTransaction
+} from '../utils/transactions';
+import { NetworkConfig, toNetworkAddress } from '../utils/networks';
+import { WalletConnect } from './WalletConnect';
+import { PayoutValidatorInput } from './PayoutValidatorInput';
+
+interface PayoutBuilderProps {
+    network: NetworkConfig;
+    validators: Validator[];
+    activeEra: number;
+}
+
+// a built batch together with what it pays out
+interface BuiltPayout {
+    targets: PayoutTarget[];
+    tx: RelayTransaction;
+    summary: TransactionSummary;
+}
+
+const selectionKey = (validator: string, era: number) => `${validator}:${era}`;
+
+const STATUS_LABELS: Record<SubmissionStatus, string> = {
+    'signing': 'Waiting for signature...',
+    'broadcasted': 'Broadcasted, waiting for inclusion...',
+    'in-block': 'Included in a block, waiting for finality...',
+    'finalized': 'Finalized'
+};
+
+/**
+ * pay out unclaimed era rewards of the validators on the current page and any added by address
+ *
+ * every unpaid exposure page of the selected validator eras becomes a `payout_stakers_by_page` call,
+ * all of them are batched with `Utility.batch_all`. anyone can pay out, the rewards go to the
+ * validator and its nominators, the caller only pays the fee. the batch can also be exported for an
+ * offline signer.
+ */
+export const PayoutBuilder: React.FC<PayoutBuilderProps> = ({ network, validators, activeEra }) => {
+    const { statusByValidator, addedValidators, fetchPayoutStatus, refreshCurrentEra } = usePayoutStore();
+    const identities = useIdentityStore(state => state.identities);
+    const account = useWalletStore(selectSelectedAccount);
+    const { exportCall, exporting } = useOfflineSigningStore();
+
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [built, setBuilt] = useState<BuiltPayout | null>(null);
+    const [building, setBuilding] = useState<boolean>(false);
+    const [submission, setSubmission] = useState<SubmissionStatus | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [offlineSigner, setOfflineSigner] = useState<string>('');
+
+    // the wallet account unless another signer is entered
+    const offlineAddress = toNetworkAddress(offlineSigner.trim() || account?.address || '', network.ss58Prefix);
+
+    // unpaid validator eras, oldest first
+    const addresses = new Set([...validators.map(validator => validator.address), ...(addedValidators[network.id] || [])]);
+    const candidates = [...addresses].flatMap(address =>
+        Object.values(statusByValidator[address] || {})
+            .filter(status => status.state !== 'claimed')
+            .map(status => ({ validator: address, status }))
+    ).sort((a, b) => a.status.era - b.status.era);
+
+    const selection = candidates
+        .filter(({ validator, status }) => selected.has(selectionKey(validator, status.era)))
+        .map(({ validator, status }) => ({ validator, era: status.era }));
+
+    // any change to the selection invalidates the built batch
+    const updateSelection = (keys: Set<string>) => {
+        setSelected(keys);
+        setBuilt(null);
+        setError(null);
+    };
+
+    const toggle = (key: string) => {
+        const keys = new Set(selected);
+        if (keys.has(key)) keys.delete(key);
+        else keys.add(key);
+        updateSelection(keys);
+    };
+
+    const handleBuild = async () => {
+        if (selection.length === 0) return;
+
+        setBuilding(true);
+        setSubmission(null);
+        setError(null);
+        try {
+            // eras that expired since the status was loaded drop out
+            await refreshCurrentEra(network.id, network.historyDepth);
+            const targets = collectPayoutTargets(usePayoutStore.getState().statusByValidator, selection);
+            if (targets.length === 0) throw new Error('the selected eras can no longer be paid out');
+
+            const tx = buildPayoutBatch<RelayTransaction>(getTypedApi(), targets);
+            const summary = await summarizeTransaction(tx, account?.address || targets[0].validator);
+            setBuilt({ targets, tx, summary });
+        } catch (error) {
+            setError((error as Error).message);
+        } finally {
+            setBuilding(false);
+        }
+    };
+
+    const handleSubmit = async () => {
+        if (!built || !account) return;
+
+        setError(null);
+        try {
+            await submitTransaction(built.tx, account.polkadotSigner, setSubmission);
+            updateSelection(new Set());
+            // reload the claimed pages so paid eras drop out of the list
+            fetchPayoutStatus(network.id, activeEra, network.historyDepth, true);
+        } catch (error) {
+            setError((error as Error).message);
+            setSubmission(null);
+        }
+    };
+
+    const handleExport = () => {
+        if (!built || !offlineAddress) return;
+        const { targets } = built;
+        exportCall(network.id, offlineAddress, 'Utility.batch_all', api => buildPayoutBatch<OfflineCall>(api, targets));
+    };
+
+    const submitting = submission !== null && submission !== 'finalized';
+
+    return (
+        <div className="bg-white rounded-lg shadow-md p-4 mb-6">
+            <h2 className="text-xl font-bold mb-2">Pay Out Rewards</h2>
+            <p className="text-sm text-gray-600 mb-3">
+                Anyone can pay out era rewards, the rewards go to the validator and its nominators and the caller pays the fee.
+                Select the unpaid eras of the validators on this page, or add any other validator by address, to build a batched payout.
+            </p>
+
+            <PayoutValidatorInput network={network} />
+
+            <div className="mb-3">
+                <WalletConnect />
+            </div>
+
+            {candidates.length === 0 ? (
+                <p className="text-sm text-gray-500">No unpaid eras for the validators on this page or the added ones.</p>
+            ) : (
+                <>
+                    <div className="flex gap-2 mb-2 text-sm">
+                        <button
+                            className="px-2 py-1 border rounded hover:bg-gray-100"
+                            onClick={() => updateSelection(new Set(candidates.map(c => selectionKey(c.validator, c.status.era))))}
+                        >
+                            Select all
+                        </button>
+                        <button
+                            className="px-2 py-1 border rounded hover:bg-gray-100"
+                            onClick={() => updateSelection(new Set(candidates
+                                .filter(c => c.status.expiring)
+                                .map(c => selectionKey(c.validator, c.status.era))))}
+                        >
+                            Select expiring
+                        </button>
+                        <button className="px-2 py-1 border rounded hover:bg-gray-100" onClick={() => updateSelection(new Set())}>
+                            Clear
+                        </button>
+                    </div>
+
+                    <div className="max-h-64 overflow-y-auto border rounded mb-3">
+                        <table className="w-full border-collapse text-sm">
+                            <thead>
+                                <tr className="bg-gray-100">
+                                    <th className="border p-2"></th>
+                                    <th className="border p-2 text-left">Validator</th>
+                                    <th className="border p-2 text-right">Era</th>
+                                    <th className="border p-2 text-right">Unpaid pages</th>
+                                    <th className="border p-2 text-right">Eras left</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {candidates.map(({ validator, status }) => {
+                                    const key = selectionKey(validator, status.era);
+                                    return (
+                                        <tr key={key} className="hover:bg-gray-50 cursor-pointer" onClick={() => toggle(key)}>
+                                            <td className="border p-2 text-center">
+                                                <input type="checkbox" checked={selected.has(key)} readOnly />
+                                            </td>
+                                            <td className="border p-2 font-mono">
+                                                {getIdentityLabel(validator, identities[validator])}
+                                            </td>
+                                            <td className="border p-2 text-right">{status.era}</td>
+                                            <td className="border p-2 text-right">
+                                                {status.unclaimedPages.length}/{status.pageCount}
+                                            </td>
+                                            <td className={`border p-2 text-right ${status.expiring ? 'text-red-600 font-medium' : ''}`}>
+                                                {status.erasLeft}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <button
+                        className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                        onClick={handleBuild}
+                        disabled={selection.length === 0 || building || submitting}
+                    >
+                        {building ? 'Building...' : `Build payout (${selection.length} eras)`}
+                    </button>
+                </>
+            )}
+
+            {built && (
+                <div className="mt-4 text-sm">
+                    <p className="mb-1">
+                        <span className="font-medium">{built.targets.length}</span> payout_stakers_by_page calls in one batch_all
+                    </p>
+                    <p className="mb-1">
+                        Estimated fee: <span className="font-medium">{formatBalance(built.summary.partialFee, network)}</span>
+                    </p>
+                    <p className="mb-1">
+                        Weight: ref time {built.summary.weight.refTime.toLocaleString()}, proof size {built.summary.weight.proofSize.toLocaleString()}
+                    </p>
+                    <label className="block font-medium mt-2 mb-1">Call data</label>
+                    <textarea
+                        className="w-full h-24 p-2 border rounded font-mono text-xs bg-gray-50"
+                        value={built.summary.callData}
+                        readOnly
+                    />
+
+                    <button
+                        className="mt-2 px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                        onClick={handleSubmit}
+                        disabled={!account || submitting}
+                    >
+                        {account ? 'Sign and submit' : 'Connect a wallet to submit'}
+                    </button>
+
+                    <div className="flex flex-wrap items-center gap-2 mt-2">
+                        <input
+                            type="text"
+                            value={offlineSigner}
+                            onChange={(e) => setOfflineSigner(e.target.value)}
+                            placeholder={account ? 'Offline signer (defaults to the wallet account)' : 'Offline signer address'}
+                            className="border rounded px-2 py-1 flex-1 min-w-64 font-mono"
+                        />
+                        <button
+                            className="px-3 py-1 border rounded hover:bg-gray-100 disabled:opacity-50"
+                            onClick={handleExport}
+                            disabled={!offlineAddress || exporting}
+                        >
+                            Export for offline signing
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {submission && <p className="mt-2 text-sm text-blue-600">{STATUS_LABELS[submission]}</p>}
+            {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { usePayoutStore } from '../stores/payoutStore';
+import { useIdentityStore } from '../stores/identityStore';
+import { getIdentityLabel } from '../sdk';
+import { NetworkConfig, toNetworkAddress } from '../utils/networks';
+
+interface PayoutValidatorInputProps {
+    network: NetworkConfig;
+}
+
+/**
+ * add validators from outside the current table page to the payout views
+ * shared by the unclaimed rewards and the payout builder through the payout store
+ */
+export const PayoutValidatorInput: React.FC<PayoutValidatorInputProps> = ({ network }) => {
+    const { addedValidators, addValidator, removeValidator } = usePayoutStore();
+    const { identities, fetchIdentities } = useIdentityStore();
+    const [input, setInput] = useState<string>('');
+
+    const address = toNetworkAddress(input, network.ss58Prefix);
+    const added = addedValidators[network.id];
+
+    // added validators are not in the table, look up their names here
+    useEffect(() => {
+        if (added && added.length > 0) fetchIdentities(network.id, added);
+    }, [network.id, added, fetchIdentities]);
+
+    const handleAdd = () => {
+        if (!address) return;
+        addValidator(network.id, address);
+        setInput('');
+    };
+
+    return (
+        <div className="mb-3 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+                <input
+                    type="text"
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                    placeholder="Add a validator by address"
+                    className="border rounded px-2 py-1 flex-1 min-w-64 font-mono"
+                />
+                <button
+                    className="px-2 py-1 border rounded hover:bg-gray-100 disabled:opacity-50"
+                    onClick={handleAdd}
+                    disabled={!address}
+                >
+                    Add
+                </button>
+            </div>
+            {input.trim() && !address && <p className="mt-1 text-red-600">Not a valid address</p>}
+
+            {added && added.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                    {added.map(validator => (
+                        <span key={validator} className="inline-flex items-center gap-1 px-2 py-0.5 bg-gray-100 rounded font-mono text-xs">
+                            {getIdentityLabel(validator, identities[validator])}
+                            <button
+                                className="text-gray-500 hover:text-red-600"
+                                onClick={() => removeValidator(network.id, validator)}
+                                title="Remove"
+                            >
+                                ×
+                            </button>
+                        </span>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,405 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useStakingActionsStore } from '../stores/stakingActionsStore';
+import { useNominatorStore } from '../stores/nominatorStore';
+import { useIdentityStore } from '../stores/identityStore';
+import { useOfflineSigningStore } from '../stores/offlineSigningStore';
+import { selectSelectedAccount, useWalletStore } from '../stores/walletStore';
+import {
+    EraTiming,
+    StakingAction,
+    StakingActionIssue,
+    StakingActionType,
+    StakingLedger,
+    getIdentityLabel,
+    projectLedger,
+    validateStakingAction
+} from '../sdk';
+import { formatBalance, formatTokenAmount, getTypedApi, parseBalance } from '../utils/api';
+import {
+    OfflineCall,
+    RelayTransaction,
+    SubmissionStatus,
+    TransactionSummary,
+    buildStakingCall,
+    submitTransaction,
+    summarizeTransaction
+} from '../utils/transactions';
+import { NetworkConfig, toNetworkAddress } from '../utils/networks';
+import { WalletConnect } from './WalletConnect';
+
+interface StakingActionsProps {
+    network: NetworkConfig;
+    activeEra: number;
+    eraTiming: EraTiming | null;
+}
+
+// a built call together with what it leads to
+interface BuiltAction {
+    action: StakingAction;
+    tx: RelayTransaction;
+    summary: TransactionSummary;
+    issues: StakingActionIssue[];
+    ledger: StakingLedger | undefined;   // after the call
+}
+
+const ACTIONS: Array<{ type: StakingActionType; label: string; description: string }> = [
+    { type: 'bond', label: 'Bond', description: 'Lock funds of the stash for staking.' },
+    { type: 'bond_extra', label: 'Bond more', description: 'Add free funds to the active bond.' },
+    { type: 'nominate', label: 'Nominate', description: 'Replace the nominations with the validators picked in the table.' },
+    { type: 'unbond', label: 'Unbond', description: 'Start unlocking part of the active bond, it stops earning right away.' },
+    { type: 'rebond', label: 'Rebond', description: 'Move unbonding funds back into the active bond, latest first.' },
+    { type: 'withdraw_unbonded', label: 'Withdraw', description: 'Unlock the funds whose bonding duration is over.' },
+    { type: 'chill', label: 'Chill', description: 'Stop nominating, the bond stays.' }
+];
+
+// calls with an amount
+const VALUE_ACTIONS: StakingActionType[] = ['bond', 'bond_extra', 'unbond', 'rebond'];
+
+type PayeeType = 'Staked' | 'Stash' | 'None';
+
+// the wallet signs right away, a cold stash signs the exported call on an air-gapped device
+type SignerMode = 'wallet' | 'offline';
+
+const PAYEE_OPTIONS: Array<{ type: PayeeType; label: string }> = [
+    { type: 'Staked', label: 'Restake (compound)' },
+    { type: 'Stash', label: 'Stash, not restaked' },
+    { type: 'None', label: 'None (rewards are not paid)' }
+];
+
+const ISSUE_LABELS: Record<StakingActionIssue, string> = {
+    alreadyBonded: 'The stash is already bonded, use Bond more to add funds.',
+    notBonded: 'The stash is not bonded, bond first.',
+    zeroValue: 'Enter an amount.',
+    belowMinNominatorBond: 'The active bond would be below the minimum nominator bond. Chill before unbonding below it.',
+    tooManyUnlockingChunks: 'Too many unbonding chunks in flight, wait until one can be withdrawn.',
+    nothingUnbonding: 'Nothing is unbonding.',
+    nothingWithdrawable: 'No unbonding chunk has finished its bonding duration yet.',
+    noTargets: 'Pick validators in the validator table.',
+    tooManyTargets: 'More targets than the nominations quota allows.',
+    notNominating: 'The stash does not nominate anyone.'
+};
+
+const STATUS_LABELS: Record<SubmissionStatus, string> = {
+    'signing': 'Waiting for signature...',
+    'broadcasted': 'Broadcasted, waiting for inclusion...',
+    'in-block': 'Included in a block, waiting for finality...',
+    'finalized': 'Finalized'
+};
+
+/**
+ * bond, nominate, unbond, rebond, withdraw and chill with the wallet account as stash
+ *
+ * every call is checked against the ledger and the staking limits, and shows its fee and the
+ * ledger it leaves behind before it is signed. nominate targets come from the validator table.
+ * a cold stash is entered by address instead, its calls are exported to the offline signing panel.
+ */
+export const StakingActions: React.FC<StakingActionsProps> = ({ network, activeEra, eraTiming }) => {
+    const {
+        networkId, stash: loadedStash, limits, ledger, nomination, slashingSpans, targetsNetworkId, targets: picked,
+        loading, error: loadError, fetchStash, toggleTarget, setTargets
+    } = useStakingActionsStore();
+    const lookupNominator = useNominatorStore(state => state.lookup);
+    const identities = useIdentityStore(state => state.identities);
+    const account = useWalletStore(selectSelectedAccount);
+    const { exportCall, exporting, submission: offlineSubmission } = useOfflineSigningStore();
+
+    const [signerMode, setSignerMode] = useState<SignerMode>('wallet');
+    const [coldStash, setColdStash] = useState<string>('');
+    const stash = signerMode === 'wallet'
+        ? account && toNetworkAddress(account.address, network.ss58Prefix)
+        : toNetworkAddress(coldStash.trim(), network.ss58Prefix);
+    const targets = useMemo(() => (targetsNetworkId === network.id ? picked : []), [targetsNetworkId, network.id, picked]);
+
+    const [actionType, setActionType] = useState<StakingActionType>('nominate');
+    const [amount, setAmount] = useState<string>('');
+    const [payee, setPayee] = useState<PayeeType>('Staked');
+    const [built, setBuilt] = useState<BuiltAction | null>(null);
+    const [building, setBuilding] = useState<boolean>(false);
+    const [submission, setSubmission] = useState<SubmissionStatus | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (stash) fetchStash(network.id, activeEra, stash);
+    }, [network.id, activeEra, stash, fetchStash]);
+
+    // a call signed offline changed the ledger of the cold stash
+    useEffect(() => {
+        if (signerMode !== 'offline' || offlineSubmission !== 'finalized' || !stash) return;
+        fetchStash(network.id, activeEra, stash, true);
+        if (eraTiming) lookupNominator(network.id, stash, activeEra, eraTiming.erasPerYear);
+    }, [signerMode, offlineSubmission, stash, network.id, activeEra, eraTiming, fetchStash, lookupNominator]);
+
+    // anything that changes the call drops the built one
+    useEffect(() => {
+        setBuilt(null);
+        setError(null);
+    }, [actionType, amount, payee, targets, ledger]);
+
+    const loaded = !!stash && networkId === network.id && loadedStash === stash && !loading && !!limits;
+    const unbonding = ledger?.unlocking.reduce((sum, chunk) => sum + chunk.value, 0n) ?? 0n;
+    const value = VALUE_ACTIONS.includes(actionType) ? parseBalance(amount, network) : 0n;
+
+    const toAction = (): StakingAction | undefined => {
+        switch (actionType) {
+            case 'bond': return value !== undefined ? { type: 'bond', value, payee: { type: payee } } : undefined;
+            case 'bond_extra':
+            case 'unbond':
+            case 'rebond': return value !== undefined ? { type: actionType, value } : undefined;
+            case 'withdraw_unbonded': return { type: 'withdraw_unbonded', slashingSpans };
+            case 'nominate': return { type: 'nominate', targets };
+            case 'chill': return { type: 'chill' };
+        }
+    };
+
+    const handleBuild = async () => {
+        const action = toAction();
+        if (!action || !stash || !limits) return;
+
+        setBuilding(true);
+        setSubmission(null);
+        setError(null);
+        try {
+            const context = { ledger: ledger ?? undefined, nomination: nomination ?? undefined, limits, activeEra };
+            const tx = buildStakingCall<RelayTransaction>(getTypedApi(), action);
+            const summary = await summarizeTransaction(tx, stash);
+            setBuilt({
+                action,
+                tx,
+                summary,
+                issues: validateStakingAction(stash, action, context),
+                ledger: projectLedger(stash, action, context)
+            });
+        } catch (error) {
+            setError((error as Error).message);
+        } finally {
+            setBuilding(false);
+        }
+    };
+
+    const handleSubmit = async () => {
+        if (!built || !account || !stash) return;
+
+        setError(null);
+        try {
+            await submitTransaction(built.tx, account.polkadotSigner, setSubmission);
+            setBuilt(null);
+            // the ledger changed, reload it here and in the nominator status
+            fetchStash(network.id, activeEra, stash, true);
+            if (eraTiming) lookupNominator(network.id, stash, activeEra, eraTiming.erasPerYear);
+        } catch (error) {
+            setError((error as Error).message);
+            setSubmission(null);
+        }
+    };
+
+    const handleExport = () => {
+        if (!built || !stash) return;
+        const { action } = built;
+        exportCall(network.id, stash, `Staking.${action.type}`, api => buildStakingCall<OfflineCall>(api, action));
+    };
+
+    const submitting = submission !== null && submission !== 'finalized';
+
+    const renderLedger = (title: string, state: StakingLedger | null | undefined, nominating: number) => (
+        <div className="bg-gray-50 p-3 rounded">
+            <h3 className="text-sm font-medium text-gray-500">{title}</h3>
+            {state ? (
+                <>
+                    <p className="font-bold">{formatBalance(state.active, network)} active</p>
+                    <p className="text-xs text-gray-500">{formatBalance(state.total, network)} bonded</p>
+                    {state.unlocking.map(chunk => (
+                        <p key={chunk.era} className="text-xs text-gray-500">
+                            {formatBalance(chunk.value, network)} {chunk.era <= activeEra ? 'withdrawable' : `unlocks in era ${chunk.era}`}
+                        </p>
+                    ))}
+                </>
+            ) : (
+                <p className="font-bold">not bonded</p>
+            )}
+            <p className="text-xs text-gray-500">{nominating > 0 ? `nominating ${nominating} validators` : 'not nominating'}</p>
+        </div>
+    );
+
+    // nominations after the call
+    const nominatingAfter = (action: StakingAction) => {
+        if (action.type === 'nominate') return action.targets.length;
+        if (action.type === 'chill') return 0;
+        return nomination?.targets.length ?? 0;
+    };
+
+    return (
+        <div className="bg-white rounded-lg shadow-md p-4 mb-6">
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+                <h2 className="text-xl font-bold">Staking Actions</h2>
+                <WalletConnect />
+            </div>
+            <p className="text-sm text-gray-600 mb-3">
+                Manage the bond and nominations of the wallet account. Tick validators in the validator table to
+                nominate them, the fee and the resulting ledger are shown before signing.
+            </p>
+
+            <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+                <span>Sign with</span>
+                <select className="p-1 border rounded" value={signerMode} onChange={(e) => setSignerMode(e.target.value as SignerMode)}>
+                    <option value="wallet">Wallet</option>
+                    <option value="offline">Offline signer (cold stash)</option>
+                </select>
+                {signerMode === 'offline' && (
+                    <input
+                        type="text"
+                        value={coldStash}
+                        onChange={(e) => setColdStash(e.target.value)}
+                        placeholder="Stash address"
+                        className="border rounded px-2 py-1 flex-1 min-w-64 font-mono"
+                    />
+                )}
+            </div>
+
+            {!stash && signerMode === 'wallet' && <p className="text-sm text-gray-500">Connect a wallet and pick the stash account.</p>}
+            {!stash && signerMode === 'offline' && coldStash.trim() && <p className="text-sm text-red-600">Not a valid address.</p>}
+            {stash && loading && <p className="text-sm text-blue-600">Loading the ledger...</p>}
+            {loadError && <p className="text-sm text-red-600">Failed to load the ledger: {loadError}</p>}
+
+            {loaded && limits && (
+                <>
+                    <p className="text-xs text-gray-500 mb-2">
+                        Minimum nominator bond {formatBalance(limits.minNominatorBond, network)}, up to {limits.maxNominations} nominations,
+                        unbonding takes {limits.bondingDuration} eras.
+                    </p>
+
+                    <div className="flex flex-wrap gap-2 mb-3">
+                        {ACTIONS.map(({ type, label }) => (
+                            <button
+                                key={type}
+                                className={`px-3 py-1 rounded text-sm ${actionType === type ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+                                onClick={() => setActionType(type)}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-sm text-gray-600 mb-2">{ACTIONS.find(a => a.type === actionType)?.description}</p>
+
+                    {VALUE_ACTIONS.includes(actionType) && (
+                        <div className="flex items-center gap-2 mb-2 text-sm">
+                            <input
+                                type="text"
+                                value={amount}
+                                onChange={(e) => setAmount(e.target.value)}
+                                placeholder="Amount"
+                                className="border rounded px-2 py-1 w-40"
+                            />
+                            <span>{network.symbol}</span>
+                            {actionType === 'unbond' && ledger && (
+                                <button className="px-2 py-1 border rounded hover:bg-gray-100" onClick={() => setAmount(formatTokenAmount(ledger.active, network))}>
+                                    All active
+                                </button>
+                            )}
+                            {actionType === 'rebond' && unbonding > 0n && (
+                                <button className="px-2 py-1 border rounded hover:bg-gray-100" onClick={() => setAmount(formatTokenAmount(unbonding, network))}>
+                                    All unbonding
+                                </button>
+                            )}
+                            {amount.trim() && value === undefined && <span className="text-red-600">Not a valid amount</span>}
+                        </div>
+                    )}
+
+                    {actionType === 'bond' && (
+                        <label className="block text-sm mb-2">
+                            Rewards go to
+                            <select
+                                className="ml-2 p-1 border rounded"
+                                value={payee}
+                                onChange={(e) => setPayee(e.target.value as PayeeType)}
+                            >
+                                {PAYEE_OPTIONS.map(option => <option key={option.type} value={option.type}>{option.label}</option>)}
+                            </select>
+                        </label>
+                    )}
+
+                    {actionType === 'nominate' && (
+                        <div className="mb-2 text-sm">
+                            <div className="flex items-center gap-2 mb-1">
+                                <span className="font-medium">Targets {targets.length}/{limits.maxNominations}</span>
+                                {nomination && (
+                                    <button className="px-2 py-1 border rounded hover:bg-gray-100" onClick={() => setTargets(network.id, nomination.targets)}>
+                                        Start from current nominations
+                                    </button>
+                                )}
+                                {targets.length > 0 && (
+                                    <button className="px-2 py-1 border rounded hover:bg-gray-100" onClick={() => setTargets(network.id, [])}>
+                                        Clear
+                                    </button>
+                                )}
+                            </div>
+                            <ul>
+                                {targets.map(target => (
+                                    <li key={target} className="flex justify-between" title={target}>
+                                        <span className="font-mono">{getIdentityLabel(target, identities[target])}</span>
+                                        <button className="text-red-600 hover:underline" onClick={() => toggleTarget(network.id, target)}>remove</button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    <button
+                        className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                        onClick={handleBuild}
+                        disabled={!toAction() || building || submitting}
+                    >
+                        {building ? 'Building...' : 'Review'}
+                    </button>
+                </>
+            )}
+
+            {built && (
+                <div className="mt-4 text-sm">
+                    {built.issues.length > 0 && (
+                        <div className="bg-yellow-50 border border-yellow-300 text-yellow-800 px-3 py-2 rounded mb-3">
+                            <ul className="list-disc ml-4">
+                                {built.issues.map(issue => <li key={issue}>{ISSUE_LABELS[issue]}</li>)}
+                            </ul>
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-3 mb-3">
+                        {renderLedger('Now', ledger, nomination?.targets.length ?? 0)}
+                        {renderLedger('After the call', built.ledger, nominatingAfter(built.action))}
+                    </div>
+
+                    <p className="mb-1">
+                        Estimated fee: <span className="font-medium">{formatBalance(built.summary.partialFee, network)}</span>
+                    </p>
+                    <label className="block font-medium mt-2 mb-1">Call data</label>
+                    <textarea
+                        className="w-full h-16 p-2 border rounded font-mono text-xs bg-gray-50"
+                        value={built.summary.callData}
+                        readOnly
+                    />
+
+                    {signerMode === 'wallet' ? (
+                        <button
+                            className="mt-2 px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                            onClick={handleSubmit}
+                            disabled={built.issues.length > 0 || submitting}
+                        >
+                            Sign and submit
+                        </button>
+                    ) : (
+                        <button
+                            className="mt-2 px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                            onClick={handleExport}
+                            disabled={built.issues.length > 0 || exporting}
+                        >
+                            Export for offline signing
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {submission && <p className="mt-2 text-sm text-blue-600">{STATUS_LABELS[submission]}</p>}
+            {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,126 @@
+import React, { useEffect } from 'react';
+import { Validator } from '../stores/validatorStore';
+import { usePayoutStore } from '../stores/payoutStore';
+import { useIdentityStore } from '../stores/identityStore';
+import { EXPIRY_WARNING_ERAS, EraPayoutStatus, getIdentityLabel, getOldestClaimableEra } from '../sdk';
+import { NetworkConfig } from '../utils/networks';
+import { PayoutValidatorInput } from './PayoutValidatorInput';
+
+interface UnclaimedRewardsProps {
+    network: NetworkConfig;
+    validators: Validator[];
+    activeEra: number;
+    historyDepth: number;
+}
+
+// cell colors per payout state, eras without exposure stay gray
+const STATE_CLASSES: Record<EraPayoutStatus['state'], string> = {
+    claimed: 'bg-green-500',
+    partial: 'bg-yellow-400',
+    unclaimed: 'bg-red-500'
+};
+
+/**
+ * payout status of the validators on the current page, and any added by address, for every era within history depth
+ *
+ * one cell per era, oldest on the left. unpaid eras close to falling out of history depth are
+ * outlined, their rewards are lost if nobody pays them out in time.
+ */
+export const UnclaimedRewards: React.FC<UnclaimedRewardsProps> = ({
+    network,
+    validators,
+    activeEra,
+    historyDepth
+}) => {
+    const { currentEra, statusByValidator, addedValidators, erasLoaded, erasTotal, loading, error, fetchPayoutStatus } = usePayoutStore();
+    const identities = useIdentityStore(state => state.identities);
+
+    // (re)load when the network or the era changes
+    useEffect(() => {
+        if (activeEra > 0) fetchPayoutStatus(network.id, activeEra, historyDepth);
+    }, [network.id, activeEra, historyDepth, fetchPayoutStatus]);
+
+    const oldestEra = getOldestClaimableEra(Math.max(currentEra, activeEra), historyDepth);
+    const eras = Array.from({ length: activeEra - oldestEra }, (_, i) => oldestEra + i);
+    const addresses = [...new Set([...validators.map(validator => validator.address), ...(addedValidators[network.id] || [])])];
+
+    const formatCellTitle = (era: number, status: EraPayoutStatus | undefined) => {
+        if (!status) return `Era ${era}: not active`;
+        const pages = `${status.claimedPages.length}/${status.pageCount} pages paid`;
+        const expiry = status.state !== 'claimed' ? `, ${status.erasLeft} eras left to pay out` : '';
+        return `Era ${era}: ${pages}${expiry}`;
+    };
+
+    return (
+        <div className="bg-white rounded-lg shadow-md p-4 mb-6">
+            <h2 className="text-xl font-bold mb-2">Unclaimed Rewards</h2>
+            <p className="text-sm text-gray-600 mb-2">
+                Reward payouts of the last {eras.length} eras for the validators on this page and the ones added below. Unpaid eras with less
+                than {EXPIRY_WARNING_ERAS} eras left before they fall out of history depth are outlined.
+            </p>
+
+            <PayoutValidatorInput network={network} />
+
+            {/* legend */}
+            <div className="flex flex-wrap gap-4 text-xs text-gray-600 mb-3">
+                <span><span className="inline-block w-3 h-3 mr-1 align-middle bg-green-500"></span>paid</span>
+                <span><span className="inline-block w-3 h-3 mr-1 align-middle bg-yellow-400"></span>some pages unpaid</span>
+                <span><span className="inline-block w-3 h-3 mr-1 align-middle bg-red-500"></span>unpaid</span>
+                <span><span className="inline-block w-3 h-3 mr-1 align-middle bg-gray-200"></span>not active</span>
+                <span><span className="inline-block w-3 h-3 mr-1 align-middle bg-red-500 ring-2 ring-offset-1 ring-red-800"></span>expiring soon</span>
+            </div>
+
+            {loading && (
+                <p className="text-sm text-blue-600 mb-2">Loading payouts... ({erasLoaded}/{erasTotal} eras)</p>
+            )}
+            {error && <p className="text-sm text-red-600 mb-2">Failed to load payouts: {error}</p>}
+
+            <div className="overflow-x-auto">
+                <table className="border-collapse">
+                    <thead>
+                        <tr className="bg-gray-100">
+                            <th className="border p-2 text-left">Validator</th>
+                            <th className="border p-2 text-right">Unpaid eras</th>
+                            <th className="border p-2 text-left">Eras {oldestEra} - {activeEra - 1}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {addresses.map(address => {
+                            const statusByEra = statusByValidator[address] || {};
+                            const unpaid = Object.values(statusByEra).filter(status => status.state !== 'claimed');
+                            const expiring = unpaid.filter(status => status.expiring).length;
+
+                            return (
+                                <tr key={address} className="hover:bg-gray-50">
+                                    <td className="border p-2 font-mono text-sm">
+                                        {getIdentityLabel(address, identities[address])}
+                                    </td>
+                                    <td className="border p-2 text-right text-sm">
+                                        <span className={unpaid.length > 0 ? 'text-red-600 font-medium' : 'text-gray-500'}>{unpaid.length}</span>
+                                        {expiring > 0 && <span className="ml-1 text-xs text-red-800">({expiring} expiring)</span>}
+                                    </td>
+                                    <td className="border p-2">
+                                        <div className="flex gap-px">
+                                            {eras.map(era => {
+                                                const status = statusByEra[era];
+                                                const color = status ? STATE_CLASSES[status.state] : 'bg-gray-200';
+                                                const outline = status?.expiring ? ' ring-2 ring-offset-1 ring-red-800' : '';
+                                                return (
+                                                    <span
+                                                        key={era}
+                                                        className={`inline-block w-1.5 h-4 ${color}${outline}`}
+                                                        title={formatCellTitle(era, status)}
+                                                    />
+                                                );
+                                            })}
+                                        </div>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
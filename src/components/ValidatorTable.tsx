@@ -1,13 +1,20 @@
-import React from 'react';
-import { Validator } from '../stores/validatorStore';
-import { formatDOT } from '../utils/api';
+import React, { useEffect, useState } from 'react';
+import { FilterOptions, Validator } from '../stores/validatorStore';
+import { EraTiming, Identity, NominationTarget, SlashRisk, TOP_NOMINATORS, calculateEraProgress, getIdentityLabel, getIdentityRoot, getSlashRisk, perbillToRatio, ratioToNumber, rescaleReturn } from '../sdk';
+import { formatBalance } from '../utils/api';
+import { NetworkConfig } from '../utils/networks';
 import { Pagination } from './Pagination';
 
 //validator table props
 interface ValidatorTableProps {
+    network: NetworkConfig;
     validators: Validator[];
     activeEra: number;
     lastEra: number;
+    eraTiming: EraTiming | null;
+    currentEraReward: bigint;             // stakers payout of the active era
+    currentEraRewardProjected: boolean;   // currentEraReward is an estimate until the era closes
+    activeEraStart: number | null;
     currentPage: number;
     totalPages: number;
     totalValidators: number;
@@ -16,13 +23,35 @@ interface ValidatorTableProps {
     calculatingAPY: boolean;
     includeFullCommission: boolean;
     includeBlockedNominations: boolean;
+    excludeSlashedWithinEras: number;
+    searchQuery: string;
+    groupByIdentity: boolean;
+    maxPerOperator: number;
+    identities: Record<string, Identity>;
+    identityGroupSizes: Record<string, number>;  // filtered validators per identity root
+    predictedBacking: Record<string, bigint> | null;  // backing after the next election, null if not predicted
+    accountTargets: NominationTarget[] | null;         // nominations of the wallet account, null without one
+    accountEraRewards: Record<string, bigint> | null;  // reward of the account per exposed validator at its last era payout
+    nominationTargets: string[];                       // picked for the next nominate call
+    maxNominations: number | null;                     // nominations quota, null until loaded
     selectedHistoricalValidator: string | null;
     onPageChange: (page: number) => void;
     onPageSizeChange: (size: number) => void;
-    onFilterChange: (options: { includeFullCommission?: boolean, includeBlockedNominations?: boolean }) => void;
+    onFilterChange: (options: FilterOptions) => void;
     onValidatorSelect?: (address: string) => void;
+    onNominationToggle: (address: string) => void;
 }
 
+// badge per slashing risk, validators without any record get none
+const SLASH_RISK_BADGES: Record<Exclude<SlashRisk, 'none'>, { label: string; className: string }> = {
+    pending: { label: 'slash pending', className: 'bg-red-600 text-white' },
+    slashed: { label: 'slashed', className: 'bg-red-100 text-red-700' },
+    reported: { label: 'reported', className: 'bg-yellow-100 text-yellow-800' }
+};
+
+// wait for a typing pause before searching, every search refilters all validators
+const SEARCH_DEBOUNCE = 300;
+
 /**
  * show all validators in a table
  * 
@@ -30,9 +59,14 @@ interface ValidatorTableProps {
  * like commission, stake amounts, and APY to help users choose validators.
  */
 export const ValidatorTable: React.FC<ValidatorTableProps> = ({
+    network,
     validators,
     activeEra,
     lastEra,
+    eraTiming,
+    currentEraReward,
+    currentEraRewardProjected,
+    activeEraStart,
     currentPage,
     totalPages,
     totalValidators,
@@ -41,12 +75,35 @@ export const ValidatorTable: React.FC<ValidatorTableProps> = ({
     calculatingAPY,
     includeFullCommission,
     includeBlockedNominations,
+    excludeSlashedWithinEras,
+    searchQuery,
+    groupByIdentity,
+    maxPerOperator,
+    identities,
+    identityGroupSizes,
+    predictedBacking,
+    accountTargets,
+    accountEraRewards,
+    nominationTargets,
+    maxNominations,
     selectedHistoricalValidator,
     onPageChange,
     onPageSizeChange,
     onFilterChange,
-    onValidatorSelect
+    onValidatorSelect,
+    onNominationToggle
 }) => {
+    // search input, applied after a typing pause
+    const [searchInput, setSearchInput] = useState<string>(searchQuery);
+    useEffect(() => {
+        if (searchInput === searchQuery) return;
+        const timeout = setTimeout(() => onFilterChange({ searchQuery: searchInput }), SEARCH_DEBOUNCE);
+        return () => clearTimeout(timeout);
+    }, [searchInput, searchQuery, onFilterChange]);
+
+    const columnCount = predictedBacking ? 11 : 10;
+    const nominationsFull = maxNominations !== null && nominationTargets.length >= maxNominations;
+
     // calc indexes (for example "sowing 1-10 of 300 validators")
     const startIdx = (currentPage - 1) * pageSize + 1;
     const endIdx = Math.min(startIdx + validators.length - 1, totalValidators);
@@ -63,6 +120,137 @@ export const ValidatorTable: React.FC<ValidatorTableProps> = ({
         return <span className={classes}>{formattedAPY}</span>;
     };
 
+    // era length as hours, e.g. "24h" or "6h"
+    const formatEraDuration = (ms: number) => {
+        const hours = ms / 3_600_000;
+        return Number.isInteger(hours) ? `${hours}h` : `${hours.toFixed(2)}h`;
+    };
+
+    // nominator count with paging and concentration of the biggest nominators
+    const formatNominators = (validator: Validator) => {
+        const { nominatorCount, pageCount, maxPageSize, oversubscribed, concentration } = validator.exposure;
+        return (
+            <div>
+                <span>{nominatorCount}</span>
+                {pageCount > 1 && <span className="text-xs text-gray-500"> ({pageCount} pages)</span>}
+                {oversubscribed && (
+                    <span
+                        className="ml-1 px-1 rounded text-xs bg-orange-100 text-orange-700"
+                        title={`More than ${maxPageSize} nominators: rewards are paid out per page, nominators on later pages depend on every page being paid out`}
+                    >
+                        oversubscribed
+                    </span>
+                )}
+                {concentration && (
+                    <div
+                        className="text-xs text-gray-500"
+                        title={`Biggest nominator holds ${(concentration.topNominatorShare * 100).toFixed(1)}% of the total stake`}
+                    >
+                        top {TOP_NOMINATORS}: {(concentration.topNominatorsShare * 100).toFixed(1)}%
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    // risk badge with the slashing details as tooltip
+    const formatSlashRisk = (validator: Validator) => {
+        const risk = getSlashRisk(validator.slashing);
+        if (risk === 'none') return null;
+
+        const { slashes, pending, offenceReports } = validator.slashing;
+        const details = [
+            ...pending.map(slash => `slash of ${formatBalance(slash.own + slash.others, network)} applied in era ${slash.applyEra}`),
+            ...slashes.map(slash => `slashed ${(perbillToRatio(slash.fraction) * 100).toFixed(2)}% in era ${slash.era}`),
+            ...(offenceReports > 0 ? [`${offenceReports} offence reports`] : [])
+        ];
+        const { label, className } = SLASH_RISK_BADGES[risk];
+        return (
+            <span className={`ml-2 px-1 rounded text-xs font-sans ${className}`} title={details.join('\n')}>
+                {label}
+            </span>
+        );
+    };
+
+    // badge for the validators the wallet account nominates, with its exposed stake and the reward it earns
+    const formatAccountTarget = (validator: Validator) => {
+        const target = accountTargets?.find(t => t.address === validator.address);
+        if (!target) return null;
+        if (!target.exposure) {
+            return (
+                <span className="ml-2 px-1 rounded text-xs font-sans bg-blue-100 text-blue-800" title="Your stake is not assigned to this validator this era">
+                    you nominate this
+                </span>
+            );
+        }
+
+        const reward = accountEraRewards?.[validator.address] ?? null;
+        return (
+            <span
+                className="ml-2 px-1 rounded text-xs font-sans bg-green-100 text-green-800"
+                title={`${formatBalance(target.exposure.value, network)} of your stake backs this validator in era ${activeEra}`
+                    + (reward !== null ? `\nabout ${formatBalance(reward, network)} per era at the last era payout` : '')}
+            >
+                you are exposed here
+            </span>
+        );
+    };
+
+    // identity name with verification, the address below it
+    const formatIdentity = (address: string) => {
+        const identity = identities[address];
+        if (!identity) {
+            // shorten address for better display/ui
+            return <span>{getIdentityLabel(address, identity)}</span>;
+        }
+        return (
+            <span title={`${address}\njudgements: ${identity.judgements.join(', ') || 'none'}`}>
+                <span className="font-sans font-medium">{identity.display}</span>
+                {identity.verified
+                    ? <span className="ml-1 text-green-600" title="Verified by a registrar">✓</span>
+                    : <span className="ml-1 text-gray-400" title="Not verified">?</span>}
+                <div className="text-xs text-gray-500">{address.substring(0, 8)}...{address.substring(address.length - 8)}</div>
+            </span>
+        );
+    };
+
+    // predicted backing after the next election, change against now and the APY it would give
+    const formatNextEra = (validator: Validator) => {
+        const next = predictedBacking?.[validator.address];
+        if (next === undefined) return <span className="text-red-600" title="Not predicted to be elected next era">leaving</span>;
+
+        const change = validator.totalStake > 0n ? ratioToNumber(next - validator.totalStake, validator.totalStake) * 100 : 0;
+        const projected = eraTiming ? rescaleReturn(validator.lastEraAPR, eraTiming.erasPerYear, validator.totalStake, next) : null;
+        return (
+            <div title={projected ? `Last era APY at this stake: ${projected.apy.toFixed(2)}%` : undefined}>
+                <span>{formatBalance(next, network)}</span>
+                <div className={`text-xs ${change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {change >= 0 ? '+' : ''}{change.toFixed(1)}%
+                    {projected && <span className="text-gray-500"> · {projected.apy.toFixed(2)}% APY</span>}
+                </div>
+            </div>
+        );
+    };
+
+    // header row above the first validator of an identity group on the page
+    const renderGroupHeader = (validator: Validator, index: number) => {
+        if (!groupByIdentity) return null;
+        const root = getIdentityRoot(validator.address, identities[validator.address]);
+        const previous = validators[index - 1];
+        if (previous && getIdentityRoot(previous.address, identities[previous.address]) === root) return null;
+
+        const size = identityGroupSizes[root] || 1;
+        const identity = identities[validator.address];
+        const name = identity?.parentDisplay ?? getIdentityLabel(root, identity);
+        return (
+            <tr className="bg-blue-50">
+                <td colSpan={columnCount} className="border p-2 text-sm font-medium">
+                    {name} <span className="text-gray-500 font-normal">({size} validator{size === 1 ? '' : 's'})</span>
+                </td>
+            </tr>
+        );
+    };
+
     // handles clicks on validator address to view historical perf
     const handleValidatorClick = (address: string) => {
         if (onValidatorSelect) {
@@ -74,6 +262,29 @@ export const ValidatorTable: React.FC<ValidatorTableProps> = ({
         <div className="bg-white rounded-lg shadow-md p-4 mb-6">
             <h2 className="text-xl font-bold mb-2">Active Validators (Era {activeEra})</h2>
 
+            {/* era length used to annualize the returns */}
+            {eraTiming && (
+                <p className="text-xs text-gray-500 mb-2" title="APR = era return × eras per year, APY = compounded every era (rewards restaked)">
+                    Era length {formatEraDuration(eraTiming.eraDuration)} ({eraTiming.erasPerYear.toFixed(1)} eras/year)
+                    {eraTiming.source === 'timestamps' ? ', measured from era start timestamps' : ', from runtime constants'}
+                </p>
+            )}
+
+            {/* payout of the active era, projected until the era closes */}
+            {currentEraReward > 0n && (
+                <p className="text-xs text-gray-500 mb-2">
+                    Era {activeEra} payout{currentEraRewardProjected ? ' (projected)' : ''}: {formatBalance(currentEraReward, network)}
+                    {currentEraRewardProjected && (
+                        <>
+                            <span className="ml-1 px-1 rounded bg-yellow-100 text-yellow-800" title="From the runtime inflation parameters, replaced by the actual payout once the era closes">estimate</span>
+                            {activeEraStart !== null && eraTiming && (
+                                <>, {(calculateEraProgress(activeEraStart, eraTiming.eraDuration) * 100).toFixed(0)}% of the era passed</>
+                            )}
+                        </>
+                    )}
+                </p>
+            )}
+
             <div className="mb-4">
                 <div className="flex justify-between items-center mb-2">
                     <p className="text-sm text-gray-600">
@@ -125,6 +336,53 @@ export const ValidatorTable: React.FC<ValidatorTableProps> = ({
                         />
                         Include validators that don't allow nominations
                     </label>
+
+                    <label className="inline-flex items-center text-sm">
+                        Exclude validators slashed within
+                        <input
+                            type="number"
+                            min={0}
+                            className="w-16 mx-2 p-1 border rounded"
+                            value={excludeSlashedWithinEras}
+                            onChange={(e) => onFilterChange({ excludeSlashedWithinEras: Number(e.target.value) || 0 })}
+                            disabled={isLoading}
+                            title="0 shows all validators. validators with a pending slash are always excluded when this is set"
+                        />
+                        eras
+                    </label>
+
+                    <label className="inline-flex items-center text-sm cursor-pointer">
+                        <input
+                            type="checkbox"
+                            className="form-checkbox h-4 w-4 text-blue-600 mr-2"
+                            checked={groupByIdentity}
+                            onChange={(e) => onFilterChange({ groupByIdentity: e.target.checked })}
+                            disabled={isLoading}
+                        />
+                        Group by operator identity
+                    </label>
+
+                    <label className="inline-flex items-center text-sm">
+                        Max
+                        <input
+                            type="number"
+                            min={0}
+                            className="w-16 mx-2 p-1 border rounded"
+                            value={maxPerOperator}
+                            onChange={(e) => onFilterChange({ maxPerOperator: Number(e.target.value) || 0 })}
+                            disabled={isLoading}
+                            title="0 shows all validators. operators are clustered from identities and shared staking accounts"
+                        />
+                        validators per operator
+                    </label>
+
+                    <input
+                        type="search"
+                        className="p-1 border rounded text-sm"
+                        placeholder="Search name or address"
+                        value={searchInput}
+                        onChange={(e) => setSearchInput(e.target.value)}
+                    />
                 </div>
             </div>
 
@@ -148,37 +406,74 @@ export const ValidatorTable: React.FC<ValidatorTableProps> = ({
                         <table className="w-full border-collapse">
                             <thead>
                                 <tr className="bg-gray-100">
+                                    <th
+                                        className="border p-2"
+                                        title={`Pick for the nominate call of the staking actions${maxNominations !== null ? `, up to ${maxNominations}` : ''}`}
+                                    >
+                                        {nominationTargets.length > 0 ? `${nominationTargets.length}${maxNominations !== null ? `/${maxNominations}` : ''}` : 'Pick'}
+                                    </th>
                                     <th className="border p-2 text-left">Rank</th>
                                     <th className="border p-2 text-left">Address</th>
                                     <th className="border p-2 text-right">Commission</th>
                                     <th className="border p-2 text-right">Total Stake</th>
                                     <th className="border p-2 text-right">Own Stake</th>
+                                    <th className="border p-2 text-right">Nominators</th>
+                                    <th className="border p-2 text-right">Last Era APR</th>
                                     <th className="border p-2 text-right">Last Era APY</th>
+                                    <th
+                                        className="border p-2 text-right"
+                                        title={currentEraRewardProjected ? 'By the points so far and the projected era payout' : 'By the points and payout of the era'}
+                                    >
+                                        Era {activeEra} APY{currentEraRewardProjected && <span className="text-xs font-normal text-yellow-700"> (est.)</span>}
+                                    </th>
+                                    {predictedBacking && <th className="border p-2 text-right" title="Predicted backing after the next election">Next Era</th>}
                                 </tr>
                             </thead>
                             <tbody className={isLoading ? "opacity-50" : ""}>
                                 {validators.map((validator, index) => (
-                                    <tr key={validator.address} className="hover:bg-gray-50">
-                                        <td className="border p-2">{startIdx + index}</td>
-                                        {/* clickable address that gets green when selected to show user what is selected */}
-                                        <td
-                                            className={`border p-2 font-mono text-sm cursor-pointer hover:text-blue-600 hover:underline ${validator.address === selectedHistoricalValidator ? 'bg-green-100' : ''}`}
-                                            onClick={() => handleValidatorClick(validator.address)}
-                                        >
-                                            {/* shorten address for better display/ui */}
-                                            {validator.address.substring(0, 8)}...{validator.address.substring(validator.address.length - 8)}
-                                        </td>
-                                        <td className="border p-2 text-right">{(validator.commission * 100).toFixed(2)}%</td>
-                                        <td className="border p-2 text-right">{formatDOT(validator.totalStake)}</td>
-                                        <td className="border p-2 text-right">{formatDOT(validator.ownStake)}</td>
-                                        <td className="border p-2 text-right">
-                                            {formatAPY(validator.lastEraAPY || 0)}
-                                        </td>
-                                    </tr>
+                                    <React.Fragment key={validator.address}>
+                                        {renderGroupHeader(validator, index)}
+                                        <tr className="hover:bg-gray-50">
+                                            <td className="border p-2 text-center">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={nominationTargets.includes(validator.address)}
+                                                    disabled={nominationsFull && !nominationTargets.includes(validator.address)}
+                                                    onChange={() => onNominationToggle(validator.address)}
+                                                />
+                                            </td>
+                                            <td className="border p-2">{startIdx + index}</td>
+                                            {/* clickable address that gets green when selected to show user what is selected */}
+                                            <td
+                                                className={`border p-2 font-mono text-sm cursor-pointer hover:text-blue-600 hover:underline ${validator.address === selectedHistoricalValidator ? 'bg-green-100' : ''}`}
+                                                onClick={() => handleValidatorClick(validator.address)}
+                                            >
+                                                {formatIdentity(validator.address)}
+                                                {formatSlashRisk(validator)}
+                                                {formatAccountTarget(validator)}
+                                            </td>
+                                            <td className="border p-2 text-right">{(validator.commission * 100).toFixed(2)}%</td>
+                                            <td className="border p-2 text-right">{formatBalance(validator.totalStake, network)}</td>
+                                            <td className="border p-2 text-right">{formatBalance(validator.ownStake, network)}</td>
+                                            <td className="border p-2 text-right">{formatNominators(validator)}</td>
+                                            <td className="border p-2 text-right">
+                                                {formatAPY(validator.lastEraAPR || 0)}
+                                            </td>
+                                            <td className="border p-2 text-right">
+                                                {formatAPY(validator.lastEraAPY || 0)}
+                                            </td>
+                                            <td className="border p-2 text-right">
+                                                <span className={currentEraRewardProjected ? 'italic' : ''}>
+                                                    {formatAPY(validator.currentEraAPY || 0)}
+                                                </span>
+                                            </td>
+                                            {predictedBacking && <td className="border p-2 text-right">{formatNextEra(validator)}</td>}
+                                        </tr>
+                                    </React.Fragment>
                                 ))}
                                 {validators.length === 0 && !isLoading && (
                                     <tr>
-                                        <td colSpan={6} className="border p-4 text-center">
+                                        <td colSpan={columnCount} className="border p-4 text-center">
                                             No validators match the current filter criteria
                                         </td>
                                     </tr>
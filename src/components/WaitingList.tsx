@@ -0,0 +1,141 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useWaitingStore } from '../stores/waitingStore';
+import { useValidatorStore } from '../stores/validatorStore';
+import { useIdentityStore } from '../stores/identityStore';
+import { getIdentityLabel } from '../sdk';
+import { formatBalance } from '../utils/api';
+import { NetworkConfig } from '../utils/networks';
+import { Pagination } from './Pagination';
+
+interface WaitingListProps {
+    network: NetworkConfig;
+    activeEra: number;
+}
+
+const PAGE_SIZE = 25;
+
+/**
+ * all validator intentions ranked by approval stake
+ *
+ * shows how far waiting validators are from a seat in the next election. the threshold is the
+ * approval stake of the last candidate that would still be elected if the election went by approval
+ * stake alone, the real election (phragmén) splits nominator stake and can end up differently.
+ */
+export const WaitingList: React.FC<WaitingListProps> = ({ network, activeEra }) => {
+    const { candidates, seats, threshold, loading, error, fetchCandidates } = useWaitingStore();
+    const allValidators = useValidatorStore(state => state.allValidators);
+    const { identities, fetchIdentities } = useIdentityStore();
+
+    const [showActive, setShowActive] = useState(false);
+    const [page, setPage] = useState(1);
+
+    // load once per era, needs the active set to tell waiting and active apart
+    useEffect(() => {
+        if (activeEra > 0 && allValidators.length > 0) {
+            fetchCandidates(network.id, activeEra, allValidators.map(v => v.address));
+        }
+    }, [network.id, activeEra, allValidators, fetchCandidates]);
+
+    const shown = useMemo(
+        () => (showActive ? candidates : candidates.filter(candidate => !candidate.active)),
+        [candidates, showActive]
+    );
+    const totalPages = Math.max(1, Math.ceil(shown.length / PAGE_SIZE));
+    const pageCandidates = useMemo(() => shown.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE), [shown, page]);
+
+    // active validators are looked up already, waiting ones only page by page
+    useEffect(() => {
+        if (pageCandidates.length > 0) fetchIdentities(network.id, pageCandidates.map(candidate => candidate.address));
+    }, [network.id, pageCandidates, fetchIdentities]);
+
+    const waitingCount = candidates.filter(candidate => !candidate.active).length;
+
+    return (
+        <div className="bg-white rounded-lg shadow-md p-4 mb-6">
+            <h2 className="text-xl font-bold mb-2">Waiting List</h2>
+
+            {loading && <p className="text-sm text-blue-600">Loading nominations and bonds of all stakers...</p>}
+            {error && <p className="text-sm text-red-600">Failed to load validator intentions: {error}</p>}
+
+            {candidates.length > 0 && (
+                <>
+                    <div className="grid grid-cols-3 gap-3 mb-4">
+                        <div className="bg-gray-50 p-3 rounded">
+                            <h3 className="text-sm font-medium text-gray-500">Intentions</h3>
+                            <p className="text-2xl font-bold">{candidates.length}</p>
+                            <p className="text-xs text-gray-500">{waitingCount} waiting</p>
+                        </div>
+                        <div className="bg-gray-50 p-3 rounded">
+                            <h3 className="text-sm font-medium text-gray-500">Seats</h3>
+                            <p className="text-2xl font-bold">{seats}</p>
+                        </div>
+                        <div className="bg-gray-50 p-3 rounded" title="Approval stake of the last candidate that gets a seat when ranked by approval stake">
+                            <h3 className="text-sm font-medium text-gray-500">Estimated threshold</h3>
+                            <p className="text-2xl font-bold">{formatBalance(threshold, network)}</p>
+                        </div>
+                    </div>
+
+                    <div className="mb-2">
+                        <label className="inline-flex items-center">
+                            <input
+                                type="checkbox"
+                                checked={showActive}
+                                onChange={(e) => {
+                                    setShowActive(e.target.checked);
+                                    setPage(1);
+                                }}
+                                className="mr-2"
+                            />
+                            Show active validators too
+                        </label>
+                    </div>
+
+                    <div className="overflow-x-auto">
+                        <table className="w-full border-collapse">
+                            <thead>
+                                <tr className="bg-gray-100">
+                                    <th className="border p-2 text-left">Rank</th>
+                                    <th className="border p-2 text-left">Address</th>
+                                    <th className="border p-2 text-right">Commission</th>
+                                    <th className="border p-2 text-center">Blocked</th>
+                                    <th className="border p-2 text-right">Self Bond</th>
+                                    <th className="border p-2 text-right">Approval Stake</th>
+                                    <th className="border p-2 text-right">Nominators</th>
+                                    <th className="border p-2 text-right" title="Approval stake missing to the estimated threshold">Distance</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {pageCandidates.map(candidate => (
+                                    <tr key={candidate.address} className={`hover:bg-gray-50 ${candidate.active ? 'text-gray-500' : ''}`}>
+                                        <td className="border p-2">{candidate.rank}</td>
+                                        <td className="border p-2 font-mono text-sm" title={candidate.address}>
+                                            {getIdentityLabel(candidate.address, identities[candidate.address])}
+                                            {candidate.active && <span className="ml-2 px-1 rounded text-xs font-sans bg-green-100 text-green-800">active</span>}
+                                        </td>
+                                        <td className="border p-2 text-right">{(candidate.commission * 100).toFixed(2)}%</td>
+                                        <td className="border p-2 text-center">{candidate.blocked ? 'yes' : ''}</td>
+                                        <td className="border p-2 text-right">{formatBalance(candidate.selfBond, network)}</td>
+                                        <td className="border p-2 text-right">{formatBalance(candidate.approvalStake, network)}</td>
+                                        <td className="border p-2 text-right">{candidate.nominatorCount}</td>
+                                        <td className="border p-2 text-right">
+                                            {candidate.distance === 0n
+                                                ? <span className="text-green-600">above</span>
+                                                : formatBalance(candidate.distance, network)}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <Pagination currentPage={page} totalPages={totalPages} onPageChange={setPage} />
+
+                    <p className="text-xs text-gray-500 mt-2">
+                        Approval stake counts the full bond of every nominator for each of its targets. The election
+                        splits nominator stake between the elected targets, so the threshold is an estimate.
+                    </p>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { useWalletStore } from '../stores/walletStore';
+
+/**
+ * connect a browser wallet extension and pick the account to sign with
+ */
+export const WalletConnect: React.FC = () => {
+    const {
+        availableExtensions,
+        extension,
+        accounts,
+        selectedAddress,
+        connecting,
+        error,
+        connect,
+        disconnect,
+        selectAccount
+    } = useWalletStore();
+
+    if (!extension) {
+        return (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+                {availableExtensions.length === 0 && (
+                    <span className="text-gray-500">No wallet extension found</span>
+                )}
+                {availableExtensions.map(name => (
+                    <button
+                        key={name}
+                        className="px-2 py-1 border rounded hover:bg-gray-100 disabled:opacity-50"
+                        onClick={() => connect(name)}
+                        disabled={connecting}
+                    >
+                        Connect {name}
+                    </button>
+                ))}
+                {error && <span className="text-red-600">{error}</span>}
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+            <label>
+                Account:
+                <select
+                    className="ml-2 p-1 border rounded"
+                    value={selectedAddress || ''}
+                    onChange={(e) => selectAccount(e.target.value)}
+                >
+                    {accounts.map(account => (
+                        <option key={account.address} value={account.address}>
+                            {account.name ? `${account.name} (${account.address.substring(0, 8)}...)` : account.address}
+                        </option>
+                    ))}
+                </select>
+            </label>
+            {accounts.length === 0 && <span className="text-gray-500">No accounts shared by {extension.name}</span>}
+            <button className="px-2 py-1 border rounded hover:bg-gray-100" onClick={disconnect}>
+                Disconnect
+            </button>
+        </div>
+    );
+};
@@ -1,5 +1,10 @@
-import { useEffect } from 'react';
+import { useEffect, useMemo } from 'react';
 import { useValidatorStore } from '../stores/validatorStore';
+import { useIdentityStore } from '../stores/identityStore';
+import { useOperatorStore } from '../stores/operatorStore';
+import { getIdentityRoot } from '../sdk';
+import { selectActiveNetwork, selectEffectiveConnectionMode, useNetworkStore } from '../stores/networkStore';
+import { useConnectionStore } from '../stores/connectionStore';
 
 /**
  * custom hook for validator store ///
@@ -12,6 +17,10 @@ export const useValidatorData = () => {
         displayedValidators,
         activeEra,
         lastEra,
+        eraTiming,
+        currentEraReward,
+        currentEraRewardProjected,
+        activeEraStart,
         historicalEras,
         currentPage,
         pageSize,
@@ -20,26 +29,96 @@ export const useValidatorData = () => {
         loadingPage,
         calculatingLastEraAPY,
         error,
+        eraChange,
+        dismissEraChange,
+        setNetwork,
         fetchAllValidators,
         fetchValidatorPage,
         setPageSize,
         includeFullCommission,
         includeBlockedNominations,
+        excludeSlashedWithinEras,
+        searchQuery,
+        groupByIdentity,
+        maxPerOperator,
         setFilterOptions,
         selectedHistoricalValidator,
         setSelectedHistoricalValidator
     } = useValidatorStore();
 
-    // load initial data when component mounts
+    const { identities, fetchIdentities } = useIdentityStore();
+    const { operatorOf, fetchOperators, cluster } = useOperatorStore();
+
+    const network = useNetworkStore(selectActiveNetwork);
+    const connectionMode = useNetworkStore(selectEffectiveConnectionMode);
+
+    // load data when component mounts and whenever the selected network or connection mode changes
+    useEffect(() => {
+        setNetwork(network, connectionMode);
+    }, [network, connectionMode, setNetwork]);
+
+    // initial load failed but we got a connection again (e.g. after failover): try again
+    // only runs when the connection status changes so a failing load does not retry in a loop
+    const connectionStatus = useConnectionStore(state => state.status);
+    useEffect(() => {
+        const state = useValidatorStore.getState();
+        if (connectionStatus === 'connected' && state.error && state.allValidators.length === 0 && !state.loading) {
+            state.fetchAllValidators();
+        }
+    }, [connectionStatus]);
+
+    // identities of all validators, looked up on the People chain in the background
+    useEffect(() => {
+        if (allValidators.length > 0) {
+            fetchIdentities(network.id, allValidators.map(v => v.address));
+        }
+    }, [network.id, allValidators, fetchIdentities]);
+
+    // operator hints of the active set, loaded in the background
     useEffect(() => {
-        fetchAllValidators();
-    }, [fetchAllValidators]);
+        if (allValidators.length > 0 && activeEra > 0) {
+            fetchOperators(network.id, activeEra, allValidators.map(v => v.address), useIdentityStore.getState().identities);
+        }
+    }, [network.id, activeEra, allValidators, fetchOperators]);
+
+    // identity parents link validators of one operator
+    useEffect(() => {
+        cluster(identities);
+    }, [identities, cluster]);
+
+    // search and grouping depend on the identities, redo them once they arrive
+    useEffect(() => {
+        const state = useValidatorStore.getState();
+        if (Object.keys(identities).length > 0 && (state.searchQuery || state.groupByIdentity)) {
+            state.applyFilters().then(() => state.fetchValidatorPage(1));
+        }
+    }, [identities]);
+
+    // same for the operator cap once operators are known or reclustered
+    useEffect(() => {
+        const state = useValidatorStore.getState();
+        if (Object.keys(operatorOf).length > 0 && state.maxPerOperator > 0) {
+            state.applyFilters().then(() => state.fetchValidatorPage(1));
+        }
+    }, [operatorOf]);
+
+    // validators per identity root among the filtered validators, e.g. 30 validators of one operator
+    const identityGroupSizes = useMemo(() => {
+        const sizes: Record<string, number> = {};
+        filteredValidators.forEach(({ address }) => {
+            const root = getIdentityRoot(address, identities[address]);
+            sizes[root] = (sizes[root] || 0) + 1;
+        });
+        return sizes;
+    }, [filteredValidators, identities]);
 
     // combined loadinf states
     const isLoading = loading || loadingPage || calculatingLastEraAPY;
 
     // return data and actions to the components
     return {
+        network,
+        connectionMode,
         validators: displayedValidators,
         allValidatorsCount: allValidators.length,
         filteredValidatorsCount: filteredValidators.length,
@@ -49,15 +128,28 @@ export const useValidatorData = () => {
         totalPages: Math.ceil(totalValidators / pageSize),
         activeEra,
         lastEra,
+        eraTiming,
+        currentEraReward,
+        currentEraRewardProjected,
+        activeEraStart,
         historicalEras,
         loading: isLoading,
         loadingPage,
         calculatingAPY: calculatingLastEraAPY,
         error,
+        eraChange,
+        dismissEraChange,
+        retry: fetchAllValidators,
         fetchPage: fetchValidatorPage,
         setPageSize,
         includeFullCommission,
         includeBlockedNominations,
+        excludeSlashedWithinEras,
+        searchQuery,
+        groupByIdentity,
+        maxPerOperator,
+        identities,
+        identityGroupSizes,
         setFilterOptions,
         selectedHistoricalValidator,
         setSelectedHistoricalValidator
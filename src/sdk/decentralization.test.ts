@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+    OperatorHint,
+    analyzeDecentralization,
+    calculateGini,
+    calculateNakamotoCoefficient,
+    clusterOperators,
+    getRewardAccount
+} from './decentralization';
+
+const hint = (address: string, stake: bigint, overrides: Partial<OperatorHint> = {}): OperatorHint =>
+    ({ address, stake, identityRoot: address, ...overrides });
+
+describe('calculateGini', () => {
+    it('is 0 for equal stakes', () => {
+        expect(calculateGini([100n, 100n, 100n, 100n])).toBe(0);
+    });
+
+    it('approaches 1 when one has all', () => {
+        expect(calculateGini([0n, 0n, 0n, 400n])).toBe(0.75);
+        expect(calculateGini([1n, 3n])).toBe(0.25);
+    });
+
+    it('is 0 without stake', () => {
+        expect(calculateGini([])).toBe(0);
+        expect(calculateGini([0n, 0n])).toBe(0);
+    });
+});
+
+describe('calculateNakamotoCoefficient', () => {
+    it('is 1 for a holder with more than a third', () => {
+        expect(calculateNakamotoCoefficient([34n, 33n, 33n])).toBe(1);
+    });
+
+    it('needs strictly more than a third', () => {
+        expect(calculateNakamotoCoefficient([100n, 100n, 100n])).toBe(2);
+        expect(calculateNakamotoCoefficient(Array(9).fill(10n))).toBe(4);
+    });
+
+    it('is 0 without stake', () => {
+        expect(calculateNakamotoCoefficient([])).toBe(0);
+        expect(calculateNakamotoCoefficient([0n])).toBe(0);
+    });
+});
+
+describe('getRewardAccount', () => {
+    it('follows the reward destination', () => {
+        expect(getRewardAccount('stash', { type: 'Staked' })).toBe('stash');
+        expect(getRewardAccount('stash', { type: 'Stash' })).toBe('stash');
+        expect(getRewardAccount('stash', { type: 'Controller' }, 'ctrl')).toBe('ctrl');
+        expect(getRewardAccount('stash', { type: 'Account', account: 'payee' })).toBe('payee');
+        expect(getRewardAccount('stash', { type: 'None' })).toBeUndefined();
+        expect(getRewardAccount('stash', undefined)).toBeUndefined();
+    });
+});
+
+describe('clusterOperators', () => {
+    it('keeps validators without shared hints apart', () => {
+        const operators = clusterOperators([hint('a', 10n), hint('b', 30n)]);
+        expect(operators.map(operator => [operator.id, operator.validators, operator.links])).toEqual([['b', ['b'], []], ['a', ['a'], []]]);
+        expect(operators.map(operator => operator.share)).toEqual([0.75, 0.25]);
+    });
+
+    it('puts sub identities of one parent together', () => {
+        const operators = clusterOperators([
+            hint('a/1', 10n, { identityRoot: 'a' }),
+            hint('b', 15n),
+            hint('a/2', 20n, { identityRoot: 'a' })
+        ]);
+        expect(operators[0]).toEqual({ id: 'a', validators: ['a/2', 'a/1'], stake: 30n, share: 30 / 45, links: ['identity'] });
+        expect(operators).toHaveLength(2);
+    });
+
+    it('puts validators paying out to the same account together', () => {
+        const operators = clusterOperators([
+            hint('a', 10n, { rewardAccount: 'payee' }),
+            hint('b', 20n, { rewardAccount: 'payee' }),
+            hint('c', 25n, { rewardAccount: 'c' })
+        ]);
+        expect(operators.map(operator => [operator.validators, operator.links])).toEqual([[['b', 'a'], ['rewardAccount']], [['c'], []]]);
+    });
+
+    it('merges through a chain of different links and records all of them', () => {
+        // a-b share a parent, b-c a payee, c-d a controller
+        const operators = clusterOperators([
+            hint('a', 10n, { identityRoot: 'p' }),
+            hint('b', 10n, { identityRoot: 'p', rewardAccount: 'payee' }),
+            hint('c', 10n, { rewardAccount: 'payee', controller: 'ctrl' }),
+            hint('d', 50n, { controller: 'ctrl' }),
+            hint('e', 5n)
+        ]);
+
+        expect(operators).toHaveLength(2);
+        expect(operators[0]).toMatchObject({ id: 'd', validators: ['d', 'a', 'b', 'c'], stake: 80n });
+        expect(operators[0].links.sort()).toEqual(['controller', 'identity', 'rewardAccount']);
+    });
+});
+
+describe('analyzeDecentralization', () => {
+    it('counts one dominant operator as Nakamoto 1 even when its validators are small', () => {
+        const hints = [
+            ...['x1', 'x2', 'x3', 'x4'].map(address => hint(address, 10n, { identityRoot: 'x' })),
+            ...['a', 'b', 'c', 'd'].map(address => hint(address, 15n))
+        ];
+        const metrics = analyzeDecentralization(hints.map(h => h.stake), clusterOperators(hints));
+
+        expect(metrics).toMatchObject({ validatorCount: 8, operatorCount: 5, nakamotoCoefficient: 1, validatorNakamotoCoefficient: 3 });
+    });
+});
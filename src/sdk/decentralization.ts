@@ -0,0 +1,161 @@
+import { RewardDestination } from './types';
+import { ratioToNumber } from './staking';
+
+/**
+ * operators and stake concentration of the active set
+ *
+ * one operator often runs many validators under different stashes. validators are put together
+ * when they share an identity root (sub identities of one parent), a reward account or a controller.
+ * the links are hints, not proof: unrelated validators can pay out to the same custodian, and an
+ * operator without identity that uses separate accounts everywhere stays invisible.
+ */
+
+// what links validators of one operator
+export type OperatorLink = 'identity' | 'rewardAccount' | 'controller';
+
+// on-chain hints about who runs a validator
+export interface OperatorHint {
+    address: string;
+    stake: bigint;
+    identityRoot: string;      // parent identity for sub accounts, the address itself otherwise
+    rewardAccount?: string;    // account the rewards are paid to, undefined if restaked or burnt
+    controller?: string;
+}
+
+export interface Operator {
+    id: string;                // identity root of the validator with the most stake
+    validators: string[];      // most stake first
+    stake: bigint;
+    share: number;             // share of the total active stake (0-1)
+    links: OperatorLink[];     // why the validators were put together, empty for single validators
+}
+
+export interface DecentralizationMetrics {
+    validatorCount: number;
+    operatorCount: number;
+    nakamotoCoefficient: number;           // fewest operators controlling more than a third of the stake
+    validatorNakamotoCoefficient: number;  // the same counting every validator on its own
+    gini: number;                          // inequality of the validators total stake, 0 = equal, 1 = one has all
+}
+
+// BFT safety breaks once more than a third of the stake colludes
+export const NAKAMOTO_THRESHOLD = 1 / 3;
+
+/**
+ * account the rewards end up in, restaking pays to the stash itself
+ */
+export const getRewardAccount = (stash: string, destination: RewardDestination | undefined, controller?: string): string | undefined => {
+    switch (destination?.type) {
+        case 'Account':
+            return destination.account;
+        case 'Controller':
+            return controller ?? stash;
+        case 'Staked':
+        case 'Stash':
+            return stash;
+        default:
+            return undefined;
+    }
+};
+
+/**
+ * put validators that share an identity root, reward account or controller together
+ * union-find over the hints, every shared value links all validators that have it
+ */
+export const clusterOperators = (hints: OperatorHint[]): Operator[] => {
+    const parent = hints.map((_, i) => i);
+    const find = (i: number): number => {
+        while (parent[i] !== i) {
+            parent[i] = parent[parent[i]];
+            i = parent[i];
+        }
+        return i;
+    };
+
+    const links = new Map<number, Set<OperatorLink>>();
+    const firstWithValue = new Map<string, number>();
+    const link = (i: number, type: OperatorLink, value: string | undefined) => {
+        if (value === undefined) return;
+        const key = `${type}:${value}`;
+        const other = firstWithValue.get(key);
+        if (other === undefined) {
+            firstWithValue.set(key, i);
+            return;
+        }
+
+        const [a, b] = [find(i), find(other)];
+        const merged = new Set([...(links.get(b) || []), type]);
+        if (a !== b) {
+            parent[a] = b;
+            links.get(a)?.forEach(linkType => merged.add(linkType));
+            links.delete(a);
+        }
+        links.set(b, merged);
+    };
+
+    hints.forEach((hint, i) => {
+        link(i, 'identity', hint.identityRoot);
+        link(i, 'rewardAccount', hint.rewardAccount);
+        link(i, 'controller', hint.controller);
+    });
+
+    const total = hints.reduce((sum, hint) => sum + hint.stake, 0n);
+    const groups = new Map<number, OperatorHint[]>();
+    hints.forEach((hint, i) => {
+        const root = find(i);
+        const group = groups.get(root);
+        if (group) group.push(hint);
+        else groups.set(root, [hint]);
+    });
+
+    return [...groups.entries()]
+        .map(([root, members]) => {
+            members.sort((a, b) => (b.stake > a.stake ? 1 : b.stake < a.stake ? -1 : 0));
+            const stake = members.reduce((sum, member) => sum + member.stake, 0n);
+            return {
+                id: members[0].identityRoot,
+                validators: members.map(member => member.address),
+                stake,
+                share: ratioToNumber(stake, total),
+                links: [...(links.get(root) || [])]
+            };
+        })
+        .sort((a, b) => (b.stake > a.stake ? 1 : b.stake < a.stake ? -1 : 0));
+};
+
+/**
+ * fewest holders that together have more than `threshold` of the total stake
+ */
+export const calculateNakamotoCoefficient = (stakes: bigint[], threshold = NAKAMOTO_THRESHOLD): number => {
+    const total = stakes.reduce((sum, stake) => sum + stake, 0n);
+    if (total === 0n) return 0;
+
+    const sorted = [...stakes].sort((a, b) => (b > a ? 1 : b < a ? -1 : 0));
+    let cumulative = 0n;
+    for (let i = 0; i < sorted.length; i++) {
+        cumulative += sorted[i];
+        if (ratioToNumber(cumulative, total) > threshold) return i + 1;
+    }
+    return sorted.length;
+};
+
+/**
+ * gini coefficient, sum over (2i - n - 1) × x_i / (n × total) with x ascending and i from 1
+ */
+export const calculateGini = (values: bigint[]): number => {
+    const n = values.length;
+    const total = values.reduce((sum, value) => sum + value, 0n);
+    if (n === 0 || total === 0n) return 0;
+
+    const sorted = [...values].sort((a, b) => (a > b ? 1 : a < b ? -1 : 0));
+    const weighted = sorted.reduce((sum, value, i) => sum + BigInt(2 * (i + 1) - n - 1) * value, 0n);
+    return ratioToNumber(weighted, BigInt(n) * total);
+};
+
+export const analyzeDecentralization = (stakes: bigint[], operators: Operator[]): DecentralizationMetrics => ({
+    validatorCount: stakes.length,
+    operatorCount: operators.length,
+    nakamotoCoefficient: calculateNakamotoCoefficient(operators.map(operator => operator.stake)),
+    validatorNakamotoCoefficient: calculateNakamotoCoefficient(stakes),
+    gini: calculateGini(stakes)
+});
@@ -0,0 +1,64 @@
+import { Nomination } from './types';
+
+/**
+ * validator election estimates from the current nominations
+ *
+ * approval stake is the stake of everyone voting for a validator: its own bond plus the full bond
+ * of every nominator that has it as a target. it is not the backing the validator would get,
+ * the election splits a nominator's bond over the elected targets, but it ranks candidates well.
+ * the chain only takes the top voters of the bags list into the election, the estimate takes all.
+ */
+
+export interface ApprovalStake {
+    address: string;
+    selfBond: bigint;
+    nominatorStake: bigint;   // sum of the full bonds of its nominators
+    approvalStake: bigint;    // selfBond + nominatorStake
+    nominatorCount: number;
+}
+
+/**
+ * approval stake of every candidate, a validator votes for itself with its own bond
+ * nominations of unbonded accounts and targets that are no candidates are ignored
+ */
+export const aggregateApprovals = (
+    candidates: string[],
+    nominations: Nomination[],
+    bonded: Record<string, bigint>
+): Record<string, ApprovalStake> => {
+    const approvals: Record<string, ApprovalStake> = {};
+    candidates.forEach(address => {
+        const selfBond = bonded[address] || 0n;
+        approvals[address] = { address, selfBond, nominatorStake: 0n, approvalStake: selfBond, nominatorCount: 0 };
+    });
+
+    nominations.forEach(({ nominator, targets }) => {
+        const stake = bonded[nominator];
+        if (!stake) return;
+        // the pallet dedups targets on nominate, but older nominations may still hold duplicates
+        new Set(targets).forEach(target => {
+            const approval = approvals[target];
+            if (!approval) return;
+            approval.nominatorStake += stake;
+            approval.approvalStake += stake;
+            approval.nominatorCount++;
+        });
+    });
+    return approvals;
+};
+
+/**
+ * approval stake needed for a seat: the one of the last candidate that would still get one
+ * 0 if there are fewer candidates than seats
+ */
+export const estimateElectionThreshold = (approvalStakes: bigint[], seats: number): bigint => {
+    if (seats <= 0 || approvalStakes.length < seats) return 0n;
+    const sorted = [...approvalStakes].sort((a, b) => (b > a ? 1 : b < a ? -1 : 0));
+    return sorted[seats - 1];
+};
+
+/**
+ * approval stake a candidate misses for a seat, 0 once it is above the threshold
+ */
+export const distanceToThreshold = (approvalStake: bigint, threshold: bigint): bigint =>
+    approvalStake >= threshold ? 0n : threshold - approvalStake;
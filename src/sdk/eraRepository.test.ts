@@ -0,0 +1,175 @@
+import { Mock, describe, expect, it, vi } from 'vitest';
+import { createEraRepository } from './eraRepository';
+import { ChainSource, EraStore } from './types';
+
+type Implementation = (...args: never[]) => unknown;
+
+// ChainSource whose methods are mocks, unset ones resolve to undefined
+const stubSource = (implementations: Partial<Record<keyof ChainSource, Implementation>> = {}) => {
+    const mocks = new Map<string, Mock>();
+    const source = new Proxy({}, {
+        get: (_, name: string) => {
+            if (!mocks.has(name)) {
+                mocks.set(name, vi.fn(implementations[name as keyof ChainSource] ?? (async () => undefined)));
+            }
+            return mocks.get(name);
+        }
+    }) as ChainSource;
+    const calls = (name: keyof ChainSource) => mocks.get(name)?.mock.calls.length ?? 0;
+    return { source, calls };
+};
+
+// EraStore over a map, like the IndexedDB one without the browser
+const memoryStore = (entries: Record<string, unknown> = {}) => {
+    const values = new Map(Object.entries(entries).map(([key, value]) => [key, { era: 0, value }]));
+    const store: EraStore = {
+        get: async key => (values.has(key) ? { value: values.get(key)!.value } : undefined),
+        set: (key, era, value) => {
+            values.set(key, { era, value });
+        }
+    };
+    return { store, values };
+};
+
+const deferred = <T>() => {
+    let resolve!: (value: T) => void;
+    const promise = new Promise<T>(res => {
+        resolve = res;
+    });
+    return { promise, resolve };
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('createEraRepository', () => {
+    it('fetches a finished era value once', async () => {
+        const { source, calls } = stubSource({ getEraReward: async () => 1000n });
+        const repository = createEraRepository(source);
+        repository.setActiveEra(100);
+
+        expect(await repository.getEraReward(99)).toBe(1000n);
+        expect(await repository.getEraReward(99)).toBe(1000n);
+        expect(calls('getEraReward')).toBe(1);
+    });
+
+    it('shares an in-flight request and refetches values of the active era afterwards', async () => {
+        const pending = deferred<bigint>();
+        const { source, calls } = stubSource({ getEraReward: () => pending.promise });
+        const repository = createEraRepository(source);
+        repository.setActiveEra(100);
+
+        const first = repository.getEraReward(100);
+        const second = repository.getEraReward(100);
+        expect(calls('getEraReward')).toBe(1);
+
+        pending.resolve(5n);
+        expect(await Promise.all([first, second])).toEqual([5n, 5n]);
+
+        await repository.getEraReward(100);
+        expect(calls('getEraReward')).toBe(2);
+    });
+
+    it('only coalesces live values of finished eras', async () => {
+        const { source, calls } = stubSource({ getClaimedRewardsMap: async () => ({}) });
+        const repository = createEraRepository(source);
+        repository.setActiveEra(100);
+
+        await Promise.all([repository.getClaimedRewardsMap(90), repository.getClaimedRewardsMap(90)]);
+        await repository.getClaimedRewardsMap(90);
+        expect(calls('getClaimedRewardsMap')).toBe(2);
+    });
+
+    it('drops a failed load so the next caller retries', async () => {
+        let attempt = 0;
+        const { source, calls } = stubSource({
+            getEraPoints: async () => {
+                if (attempt++ === 0) throw new Error('rpc down');
+                return { total: 10, individual: {} };
+            }
+        });
+        const repository = createEraRepository(source);
+        repository.setActiveEra(100);
+
+        await expect(repository.getEraPoints(99)).rejects.toThrow('rpc down');
+        expect(await repository.getEraPoints(99)).toEqual({ total: 10, individual: {} });
+        expect(await repository.getEraPoints(99)).toEqual({ total: 10, individual: {} });
+        expect(calls('getEraPoints')).toBe(2);
+    });
+
+    it('answers single validator lookups from an era map already loaded', async () => {
+        const { source, calls } = stubSource({ getEraValidatorPrefsMap: async () => ({ a: { commission: 5, blocked: false } }) });
+        const repository = createEraRepository(source);
+        repository.setActiveEra(100);
+
+        await repository.getEraValidatorPrefsMap(99);
+        expect(await repository.getEraValidatorPrefs(99, 'a')).toEqual({ commission: 5, blocked: false });
+        expect(await repository.getEraValidatorPrefs(99, 'b')).toBeUndefined();
+        expect(calls('getEraValidatorPrefs')).toBe(0);
+    });
+
+    it('keeps one snapshot per active era and drops the old ones when the era changes', async () => {
+        const { source, calls } = stubSource({ getNominations: async () => [] });
+        const repository = createEraRepository(source);
+        repository.setActiveEra(100);
+
+        await repository.getNominations();
+        await repository.getNominations();
+        expect(calls('getNominations')).toBe(1);
+
+        repository.setActiveEra(100);
+        await repository.getNominations();
+        expect(calls('getNominations')).toBe(1);
+
+        repository.setActiveEra(101);
+        await repository.getNominations();
+        expect(calls('getNominations')).toBe(2);
+    });
+
+    it('reads finished eras from the store without the chain and writes fetched ones back', async () => {
+        const { source, calls } = stubSource({ getEraReward: async () => 7n });
+        const { store, values } = memoryStore({ 'reward:98': 3n });
+        const repository = createEraRepository(source, store);
+        repository.setActiveEra(100);
+
+        expect(await repository.getEraReward(98)).toBe(3n);
+        expect(calls('getEraReward')).toBe(0);
+
+        expect(await repository.getEraReward(99)).toBe(7n);
+        expect(values.get('reward:99')).toEqual({ era: 99, value: 7n });
+    });
+
+    it('does not persist values of the active era', async () => {
+        const { source, calls } = stubSource({ getEraReward: async () => 7n });
+        const { store, values } = memoryStore({ 'reward:100': 3n });
+        const repository = createEraRepository(source, store);
+        repository.setActiveEra(100);
+
+        expect(await repository.getEraReward(100)).toBe(7n);
+        expect(calls('getEraReward')).toBe(1);
+        expect(values.get('reward:100')).toEqual({ era: 0, value: 3n });
+    });
+
+    it('forgets everything on clear', async () => {
+        const { source, calls } = stubSource({ getEraReward: async () => 1n });
+        const repository = createEraRepository(source);
+        repository.setActiveEra(100);
+
+        await repository.getEraReward(99);
+        repository.clear();
+        await repository.getEraReward(99);
+        expect(calls('getEraReward')).toBe(2);
+    });
+
+    it('measures the era length from a persisted start of an earlier era', async () => {
+        const start = 1_700_000_000_000;
+        const { source } = stubSource({
+            getEraTimingConstants: async () => ({ epochDuration: 2400, sessionsPerEra: 6, expectedBlockTime: 6000 }),
+            getActiveEraStart: async () => start + DAY + 60_000
+        });
+        const { store, values } = memoryStore({ 'eraStart:99': start });
+        const repository = createEraRepository(source, store);
+
+        expect(await repository.getEraTiming(100)).toMatchObject({ eraDuration: DAY + 60_000, source: 'timestamps' });
+        expect(values.get('eraStart:100')).toEqual({ era: 100, value: start + DAY + 60_000 });
+    });
+});
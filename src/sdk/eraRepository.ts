@@ -0,0 +1,194 @@
+import { ChainSource, EraStore, EraTimingConstants, StakeOverview, ValidatorPrefs } from './types';
+import { EraTiming, calculateObservedEraDuration, resolveEraTiming } from './eraTiming';
+
+/**
+ * ChainSource with a shared per-era cache
+ *
+ * data of finished eras (points, reward, prefs, exposure) never changes, so every value is fetched
+ * once and served from memory afterwards. concurrent callers asking for the same value share the
+ * in-flight promise. values of the active era (or later) are only coalesced while in flight since
+ * they still change.
+ *
+ * with an EraStore finished-era values are also persisted and read back before hitting the chain
+ *
+ * the start timestamp of every active era seen is remembered (and persisted), so the era length
+ * can be measured once two eras are known
+ */
+export interface EraRepository extends ChainSource {
+    setActiveEra: (era: number) => void;  // eras before this one are finished and cacheable, drops older snapshots
+    getEraTiming: (activeEra: number) => Promise<EraTiming>;
+    clear: () => void;
+}
+
+// how many eras back to look for a known era start timestamp
+const ERA_START_LOOKBACK = 7;
+
+export const createEraRepository = (source: ChainSource, store?: EraStore): EraRepository => {
+    const cache = new Map<string, Promise<unknown>>();
+    const eraStarts: Record<number, number> = {};
+    let activeEra = 0;
+
+    /**
+     * runtime constants only change with runtime upgrades, load them once per connection
+     * kept in the same cache under a key that `clear` drops as well
+     * also used for per-era snapshots, their key contains the era
+     */
+    const loadConstant = <T>(key: string, fetch: () => Promise<T>): Promise<T> => {
+        const cached = cache.get(key);
+        if (cached) return cached as Promise<T>;
+
+        const promise = fetch();
+        promise.catch(() => cache.delete(key));
+        cache.set(key, promise);
+        return promise;
+    };
+
+    const getTimingConstants = () => loadConstant<EraTimingConstants>('constants:timing', () => source.getEraTimingConstants());
+
+    /**
+     * start timestamps of the eras before `era`, from memory or the persistent store
+     * stops at the newest known one, that is all the era length measurement needs
+     */
+    const findEarlierEraStart = async (era: number) => {
+        for (let previous = era - 1; previous >= Math.max(0, era - ERA_START_LOOKBACK); previous--) {
+            if (eraStarts[previous] !== undefined) return;
+
+            const stored = await store?.get(`eraStart:${previous}`).catch(() => undefined);
+            if (typeof stored?.value === 'number') {
+                eraStarts[previous] = stored.value;
+                return;
+            }
+        }
+    };
+
+    /**
+     * read a finished era value from the persistent store, falling back to the chain
+     * values fetched from the chain are written back to the store
+     */
+    const fetchFinished = async <T>(eraStore: EraStore, key: string, era: number, fetch: () => Promise<T>): Promise<T> => {
+        const stored = await eraStore.get(key).catch(() => undefined);
+        if (stored) return stored.value as T;
+
+        const value = await fetch();
+        eraStore.set(key, era, value);
+        return value;
+    };
+
+    /**
+     * return the cached / in-flight promise for a key or start loading it
+     * failed loads are dropped so the next caller retries
+     * live values can still change in finished eras and are only coalesced while in flight
+     */
+    const load = <T>(key: string, era: number, fetch: () => Promise<T>, live = false): Promise<T> => {
+        const cached = cache.get(key);
+        if (cached) return cached as Promise<T>;
+
+        const finished = !live && era < activeEra;
+        const loading = finished && store ? fetchFinished(store, key, era, fetch) : fetch();
+
+        const promise = loading.then(
+            value => {
+                if (!finished) cache.delete(key);
+                return value;
+            },
+            error => {
+                cache.delete(key);
+                throw error;
+            }
+        );
+
+        cache.set(key, promise);
+        return promise;
+    };
+
+    return {
+        // not era bound, always live
+        getActiveEra: () => source.getActiveEra(),
+        getCurrentEra: () => source.getCurrentEra(),
+        getActiveEraStart: () => source.getActiveEraStart(),
+        getEraTimingConstants: () => getTimingConstants(),
+        getMaxExposurePageSize: () => loadConstant('constants:maxExposurePageSize', () => source.getMaxExposurePageSize()),
+        getSessionValidators: () => source.getSessionValidators(),
+        getValidatorPrefs: (address) => source.getValidatorPrefs(address),
+
+        getEraReward: (era) => load(`reward:${era}`, era, () => source.getEraReward(era)),
+        getEraPoints: (era) => load(`points:${era}`, era, () => source.getEraPoints(era)),
+        getProjectedEraPayout: () => load('projectedPayout', activeEra, () => source.getProjectedEraPayout(), true),
+        getAllValidatorPrefs: () => source.getAllValidatorPrefs(),
+
+        // single validator lookups are answered from the era map if that was already loaded
+        getEraValidatorPrefs: (era, address) => {
+            const map = cache.get(`prefsMap:${era}`) as Promise<Record<string, ValidatorPrefs>> | undefined;
+            if (map) return map.then(prefs => prefs[address]);
+            return load(`prefs:${era}:${address}`, era, () => source.getEraValidatorPrefs(era, address));
+        },
+        getEraStakersOverview: (era, address) => {
+            const map = cache.get(`overviewMap:${era}`) as Promise<Record<string, StakeOverview>> | undefined;
+            if (map) return map.then(overviews => overviews[address]);
+            return load(`overview:${era}:${address}`, era, () => source.getEraStakersOverview(era, address));
+        },
+
+        getEraExposurePages: (era, address) => load(`pages:${era}:${address}`, era, () => source.getEraExposurePages(era, address)),
+
+        getEraValidatorPrefsMap: (era) => load(`prefsMap:${era}`, era, () => source.getEraValidatorPrefsMap(era)),
+        getEraStakersOverviewMap: (era) => load(`overviewMap:${era}`, era, () => source.getEraStakersOverviewMap(era)),
+
+        // payouts happen after the era ended, never cached
+        getClaimedRewardsMap: (era) => load(`claimed:${era}`, era, () => source.getClaimedRewardsMap(era), true),
+
+        // not era bound and new slashes can show up any time, only coalesced
+        getValidatorSlashes: () => load('slashes', activeEra, () => source.getValidatorSlashes(), true),
+        getUnappliedSlashes: () => load('unappliedSlashes', activeEra, () => source.getUnappliedSlashes(), true),
+        getOffenceReportCounts: () => load('offenceReports', activeEra, () => source.getOffenceReportCounts(), true),
+
+        // per account lookups, always live
+        getRewardDestinations: (stashes) => source.getRewardDestinations(stashes),
+        getControllers: (stashes) => source.getControllers(stashes),
+        getLedger: (controller) => source.getLedger(controller),
+        getNomination: (stash) => source.getNomination(stash),
+        getMinimumActiveStake: () => source.getMinimumActiveStake(),
+        getSlashingSpanCount: (stash) => source.getSlashingSpanCount(stash),
+        getSigningContext: (address) => source.getSigningContext(address),
+        // MinNominatorBond is storage governance can change, so one snapshot per era
+        getStakingLimits: () => loadConstant(`snapshot:stakingLimits:${activeEra}`, () => source.getStakingLimits()),
+
+        // big storage maps, one snapshot per active era is good enough for estimates
+        getNominations: () => loadConstant(`snapshot:nominations:${activeEra}`, () => source.getNominations()),
+        getBondedStakes: () => loadConstant(`snapshot:bonded:${activeEra}`, () => source.getBondedStakes()),
+        getValidatorCount: () => source.getValidatorCount(),
+
+        // subscriptions bypass the cache
+        watchActiveEra: (onChange, onError) => source.watchActiveEra(onChange, onError),
+        watchEraPoints: (era, onChange, onError) => source.watchEraPoints(era, onChange, onError),
+
+        // snapshots of earlier active eras are outdated, the next request loads the new one
+        setActiveEra: (era) => {
+            if (era === activeEra) return;
+            activeEra = era;
+            [...cache.keys()]
+                .filter(key => key.startsWith('snapshot:') && !key.endsWith(`:${era}`))
+                .forEach(key => cache.delete(key));
+        },
+
+        getEraTiming: async (era) => {
+            const [constants, start] = await Promise.all([getTimingConstants(), source.getActiveEraStart()]);
+
+            // the start of an era never changes once it is set
+            if (start !== undefined && eraStarts[era] === undefined) {
+                eraStarts[era] = start;
+                store?.set(`eraStart:${era}`, era, start);
+            }
+            await findEarlierEraStart(era);
+
+            // only the active era and the newest known earlier one
+            const known = Object.keys(eraStarts).map(Number).filter(knownEra => knownEra <= era).sort((a, b) => b - a).slice(0, 2);
+            return resolveEraTiming(constants, calculateObservedEraDuration(
+                Object.fromEntries(known.map(knownEra => [knownEra, eraStarts[knownEra]]))
+            ));
+        },
+
+        clear: () => {
+            cache.clear();
+        }
+    };
+};
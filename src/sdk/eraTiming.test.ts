@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+    MAX_ERA_DURATION_DEVIATION,
+    calculateEraProgress,
+    calculateExpectedEraDuration,
+    calculateObservedEraDuration,
+    resolveEraTiming
+} from './eraTiming';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// polkadot: 2400 slots per epoch, 6 sessions per era, 6s slots
+const POLKADOT = { epochDuration: 2400, sessionsPerEra: 6, expectedBlockTime: 6000 };
+
+describe('calculateExpectedEraDuration', () => {
+    it('is slots per epoch × sessions per era × slot time', () => {
+        expect(calculateExpectedEraDuration(POLKADOT)).toBe(DAY);
+    });
+});
+
+describe('calculateObservedEraDuration', () => {
+    it('averages between the oldest and newest known era start', () => {
+        expect(calculateObservedEraDuration({ 12: 12 * DAY + 600, 10: 10 * DAY, 11: 11 * DAY + 5_000 })).toBe(DAY + 300);
+    });
+
+    it('needs two eras with increasing starts', () => {
+        expect(calculateObservedEraDuration({})).toBeUndefined();
+        expect(calculateObservedEraDuration({ 10: DAY })).toBeUndefined();
+        expect(calculateObservedEraDuration({ 10: DAY, 11: DAY })).toBeUndefined();
+        expect(calculateObservedEraDuration({ 10: 2 * DAY, 11: DAY })).toBeUndefined();
+    });
+});
+
+describe('resolveEraTiming', () => {
+    it('annualizes with the constants without timestamps', () => {
+        expect(resolveEraTiming(POLKADOT)).toEqual({
+            expectedEraDuration: DAY,
+            observedEraDuration: undefined,
+            eraDuration: DAY,
+            erasPerYear: 365.25,
+            source: 'constants'
+        });
+    });
+
+    it('trusts timestamps up to the max deviation', () => {
+        // 10% of a day, spelled out as an integer so the bound is exact
+        const deviation = DAY * MAX_ERA_DURATION_DEVIATION;
+        expect(deviation).toBe(8_640_000);
+        const edge = DAY + 8_640_000;
+        expect(resolveEraTiming(POLKADOT, edge)).toMatchObject({ eraDuration: edge, source: 'timestamps' });
+        expect(resolveEraTiming(POLKADOT, edge + 1)).toMatchObject({ eraDuration: DAY, source: 'constants' });
+        expect(resolveEraTiming(POLKADOT, DAY - 8_640_001)).toMatchObject({ source: 'constants' });
+    });
+
+    it('has no eras per year for an era length of 0', () => {
+        const timing = resolveEraTiming({ epochDuration: 0, sessionsPerEra: 6, expectedBlockTime: 6000 });
+        expect(timing.eraDuration).toBe(0);
+        expect(timing.erasPerYear).toBe(0);
+        expect(resolveEraTiming({ epochDuration: 0, sessionsPerEra: 6, expectedBlockTime: 6000 }, DAY).erasPerYear).toBe(0);
+    });
+});
+
+describe('calculateEraProgress', () => {
+    it('is the passed share of the era, clamped to 0-1', () => {
+        expect(calculateEraProgress(1000, DAY, 1000 + DAY / 4)).toBe(0.25);
+        expect(calculateEraProgress(1000, DAY, 0)).toBe(0);
+        expect(calculateEraProgress(1000, DAY, 1000 + 2 * DAY)).toBe(1);
+    });
+
+    it('is 0 for an era length of 0', () => {
+        expect(calculateEraProgress(1000, 0, 5000)).toBe(0);
+    });
+});
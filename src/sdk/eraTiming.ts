@@ -0,0 +1,67 @@
+import { EraTimingConstants } from './types';
+
+/**
+ * era length of a network, used to annualize era returns
+ *
+ * the expected length comes from the runtime constants (slots per epoch × sessions per era × slot time).
+ * when start timestamps of earlier eras are known the measured length is used instead, as long as
+ * it stays close to the expected one. a big difference means forced eras or missing data, then the
+ * constants are the safer bet.
+ */
+export interface EraTiming {
+    expectedEraDuration: number;    // ms, from the runtime constants
+    observedEraDuration?: number;   // ms, average between known era start timestamps
+    eraDuration: number;            // ms, the one used for annualizing
+    erasPerYear: number;            // 0 when the era length is 0 (constants missing)
+    source: 'constants' | 'timestamps';
+}
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+// max relative difference between observed and expected era length to trust the observed one
+export const MAX_ERA_DURATION_DEVIATION = 0.1;
+
+/**
+ * era length in ms derived from the runtime constants
+ * BABE epochs are sessions on relay chains, one slot takes ExpectedBlockTime
+ */
+export const calculateExpectedEraDuration = ({ epochDuration, sessionsPerEra, expectedBlockTime }: EraTimingConstants): number =>
+    epochDuration * sessionsPerEra * expectedBlockTime;
+
+/**
+ * average era length in ms from known era start timestamps (era → start in ms)
+ * uses the oldest and newest known start, undefined if less than two eras are known
+ */
+export const calculateObservedEraDuration = (eraStarts: Record<number, number>): number | undefined => {
+    const eras = Object.keys(eraStarts).map(Number).sort((a, b) => a - b);
+    if (eras.length < 2) return undefined;
+
+    const first = eras[0];
+    const last = eras[eras.length - 1];
+    const duration = (eraStarts[last] - eraStarts[first]) / (last - first);
+    return duration > 0 ? duration : undefined;
+};
+
+/**
+ * pick the era length used for annualizing
+ */
+export const resolveEraTiming = (constants: EraTimingConstants, observedEraDuration?: number): EraTiming => {
+    const expectedEraDuration = calculateExpectedEraDuration(constants);
+    const observedIsPlausible = observedEraDuration !== undefined &&
+        Math.abs(observedEraDuration - expectedEraDuration) <= expectedEraDuration * MAX_ERA_DURATION_DEVIATION;
+
+    const eraDuration = observedIsPlausible ? observedEraDuration : expectedEraDuration;
+    return {
+        expectedEraDuration,
+        observedEraDuration,
+        eraDuration,
+        erasPerYear: eraDuration > 0 ? MS_PER_YEAR / eraDuration : 0,
+        source: observedIsPlausible ? 'timestamps' : 'constants'
+    };
+};
+
+/**
+ * share of the active era that has passed (0-1), eras can run a bit longer than expected
+ */
+export const calculateEraProgress = (eraStart: number, eraDuration: number, now = Date.now()): number =>
+    eraDuration > 0 ? Math.min(1, Math.max(0, (now - eraStart) / eraDuration)) : 0;
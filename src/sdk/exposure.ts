@@ -0,0 +1,59 @@
+import { ExposurePage, StakeOverview } from './types';
+import { ratioToNumber } from './staking';
+
+// number of biggest nominators used for the concentration metric
+export const TOP_NOMINATORS = 10;
+
+/**
+ * who backs a validator in an era
+ *
+ * every exposure page is paid out with its own `payout_stakers_by_page` call. a validator with more
+ * nominators than fit on one page (MaxExposurePageSize) is oversubscribed: nominators on the later
+ * pages only get rewards if someone pays out those pages as well.
+ */
+export interface ExposureAnalysis {
+    nominatorCount: number;
+    pageCount: number;
+    maxPageSize: number;
+    oversubscribed: boolean;
+    concentration: {
+        topNominatorShare: number;   // share of the total stake of the biggest nominator (0-1)
+        topNominatorsShare: number;  // share of the total stake of the TOP_NOMINATORS biggest nominators (0-1)
+    } | null;                        // null until the exposure pages are loaded
+}
+
+/**
+ * nominator count and paging from the exposure overview, without concentration
+ */
+export const summarizeExposure = (overview: StakeOverview | undefined, maxPageSize: number): ExposureAnalysis => {
+    const nominatorCount = overview?.nominatorCount || 0;
+    return {
+        nominatorCount,
+        pageCount: overview?.pageCount || 0,
+        maxPageSize,
+        oversubscribed: maxPageSize > 0 && nominatorCount > maxPageSize,
+        concentration: null
+    };
+};
+
+/**
+ * full exposure analysis including the concentration of the biggest nominators
+ * nominators are not sorted across pages, so all pages are merged first
+ */
+export const analyzeExposure = (overview: StakeOverview | undefined, pages: ExposurePage[], maxPageSize: number): ExposureAnalysis => {
+    const summary = summarizeExposure(overview, maxPageSize);
+    if (!overview || overview.total <= 0n) return summary;
+
+    const stakes = pages
+        .flatMap(page => page.others.map(nominator => nominator.value))
+        .sort((a, b) => (b > a ? 1 : b < a ? -1 : 0));
+
+    const topStake = stakes.slice(0, TOP_NOMINATORS).reduce((sum, value) => sum + value, 0n);
+    return {
+        ...summary,
+        concentration: {
+            topNominatorShare: ratioToNumber(stakes[0] || 0n, overview.total),
+            topNominatorsShare: ratioToNumber(topStake, overview.total)
+        }
+    };
+};
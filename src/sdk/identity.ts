@@ -0,0 +1,88 @@
+import { IdentitySource, Judgement } from './types';
+
+/**
+ * on-chain identity of a validator
+ *
+ * operators usually set one identity and register every validator as a sub account of it
+ * (Identity.SuperOf), shown as "PARENT/sub" like polkadot.js does. sub accounts carry the
+ * judgements of their parent.
+ */
+export interface Identity {
+    display: string;          // name to show, "parent/sub" for sub accounts
+    verified: boolean;        // a registrar judged the (parent) identity Reasonable or KnownGood
+    judgements: Judgement[];
+    parent?: string;          // address of the parent identity for sub accounts
+    parentDisplay?: string;
+    subName?: string;
+}
+
+const VERIFIED_JUDGEMENTS: Judgement[] = ['Reasonable', 'KnownGood'];
+
+export const isVerified = (judgements: Judgement[]): boolean =>
+    judgements.some(judgement => VERIFIED_JUDGEMENTS.includes(judgement));
+
+/**
+ * resolve the identities of a list of accounts, including the parent identity of sub accounts
+ * accounts without identity (and without identified parent) are left out
+ */
+export const resolveIdentities = async (source: IdentitySource, addresses: string[]): Promise<Record<string, Identity>> => {
+    const subs = await source.getSuperOf(addresses);
+
+    // own identities and parents in one bulk query
+    const parents = [...new Set(subs.flatMap(sub => (sub ? [sub.parent] : [])))];
+    const lookup = [...new Set([...addresses, ...parents])];
+    const infos = await source.getIdentities(lookup);
+    const infoByAddress = Object.fromEntries(lookup.map((address, i) => [address, infos[i]]));
+
+    const identities: Record<string, Identity> = {};
+    addresses.forEach((address, i) => {
+        const sub = subs[i];
+        if (sub) {
+            const parentInfo = infoByAddress[sub.parent];
+            const parentName = parentInfo?.display || `${sub.parent.substring(0, 8)}...`;
+            const judgements = parentInfo?.judgements || [];
+            identities[address] = {
+                display: sub.name ? `${parentName}/${sub.name}` : parentName,
+                verified: isVerified(judgements),
+                judgements,
+                parent: sub.parent,
+                parentDisplay: parentName,
+                subName: sub.name
+            };
+            return;
+        }
+
+        const info = infoByAddress[address];
+        if (info?.display) {
+            identities[address] = { display: info.display, verified: isVerified(info.judgements), judgements: info.judgements };
+        }
+    });
+    return identities;
+};
+
+/**
+ * account an identity belongs to: the parent for sub accounts, the account itself otherwise
+ */
+export const getIdentityRoot = (address: string, identity: Identity | undefined): string =>
+    identity?.parent ?? address;
+
+/**
+ * name to show for an account: its identity or the shortened address
+ */
+export const getIdentityLabel = (address: string, identity: Identity | undefined): string =>
+    identity?.display ?? `${address.substring(0, 8)}...${address.substring(address.length - 8)}`;
+
+/**
+ * keep accounts of the same identity root next to each other
+ * groups are ordered by their first member, members keep their order
+ */
+export const groupByIdentityRoot = <T extends { address: string }>(items: T[], identities: Record<string, Identity>): T[] => {
+    const groups = new Map<string, T[]>();
+    items.forEach(item => {
+        const root = getIdentityRoot(item.address, identities[item.address]);
+        const group = groups.get(root);
+        if (group) group.push(item);
+        else groups.set(root, [item]);
+    });
+    return [...groups.values()].flat();
+};
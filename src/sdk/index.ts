@@ -0,0 +1,24 @@
+/**
+ * staking SDK
+ * framework agnostic chain access and staking math, shared by the UI and anything else that needs the same numbers
+ */
+export * from './types';
+export * from './staking';
+export * from './eraTiming';
+export * from './exposure';
+export * from './payouts';
+export * from './slashing';
+export * from './identity';
+export * from './decentralization';
+export * from './election';
+export * from './phragmen';
+export * from './nominator';
+export * from './stakingActions';
+export * from './optimizer';
+export * from './offlineSigning';
+export { createPapiChainSource } from './papiChainSource';
+export { createPapiIdentitySource } from './papiIdentitySource';
+export { createEraRepository } from './eraRepository';
+export type { EraRepository } from './eraRepository';
+export { RequestPriority, createRequestScheduler, isAbortError } from './scheduler';
+export type { RequestScheduler } from './scheduler';
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { estimateEraReward } from './nominator';
+import { calculateValidatorEraPayout } from './staking';
+
+const DOT = 10_000_000_000n;
+
+describe('estimateEraReward', () => {
+    it('splits the stakers payout by stake like the runtime', () => {
+        // 225 DOT for the stakers, a third of the backing: Perbill::from_rational(1, 3) * 225 DOT
+        const { stakersPayout } = calculateValidatorEraPayout(1000n * DOT, 1, 4, 100_000_000);
+        expect(estimateEraReward(100n * DOT, stakersPayout, 300n * DOT)).toBe(749_999_999_250n);
+    });
+
+    it('is the whole payout for the only staker and nothing without stake', () => {
+        expect(estimateEraReward(300n * DOT, 225n * DOT, 300n * DOT)).toBe(225n * DOT);
+        expect(estimateEraReward(0n, 225n * DOT, 300n * DOT)).toBe(0n);
+        expect(estimateEraReward(100n * DOT, 225n * DOT, 0n)).toBe(0n);
+    });
+});
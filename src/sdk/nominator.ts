@@ -0,0 +1,94 @@
+import { ExposurePage, Nomination, RewardDestination, StakingLedger, UnlockChunk } from './types';
+import { calculateStakerPayout } from './staking';
+
+/**
+ * staking status of a single nominator
+ *
+ * nominating a validator does not mean earning with it: the election assigns the stake to some of
+ * the elected targets only (the exposure in ErasStakersPaged), and only exposed stake earns rewards.
+ * the diagnosis lists the usual reasons a nominator earns nothing.
+ */
+
+// stake of the nominator in the exposure of a validator
+export interface NominatorExposure {
+    validator: string;
+    page: number;       // exposure (and reward) page the nominator is on
+    value: bigint;
+}
+
+export interface NominationTarget {
+    address: string;
+    active: boolean;                 // in the active set this era
+    exposure?: NominatorExposure;    // set if the stake is assigned to this validator
+}
+
+export interface UnlockingStatus extends UnlockChunk {
+    erasLeft: number;
+    withdrawable: boolean;
+}
+
+export type NominatorIssue =
+    | 'notBonded'                // no ledger, nothing staked
+    | 'noActiveBond'             // everything is unbonding
+    | 'notNominating'            // bonded but no nominations (chilled or never nominated)
+    | 'noActiveTargets'          // none of the nominated validators is in the active set
+    | 'belowMinimumActiveStake'  // too little stake to make it into the last election
+    | 'notExposed'               // targets are active but the stake was assigned elsewhere or not at all
+    | 'rewardsNotPaid';          // payee None, rewards are not paid out
+
+/**
+ * pages of the validators exposures the nominator is on
+ */
+export const findNominatorExposures = (stash: string, pagesByValidator: Record<string, ExposurePage[]>): NominatorExposure[] =>
+    Object.entries(pagesByValidator).flatMap(([validator, pages]) => pages.flatMap(page =>
+        page.others
+            .filter(other => other.who === stash)
+            .map(other => ({ validator, page: page.page, value: other.value }))
+    ));
+
+/**
+ * unbonding chunks with the eras left until they can be withdrawn, soonest first
+ */
+export const getUnlockingStatus = (chunks: UnlockChunk[], activeEra: number): UnlockingStatus[] =>
+    chunks
+        .map(chunk => ({ ...chunk, erasLeft: Math.max(0, chunk.era - activeEra), withdrawable: chunk.era <= activeEra }))
+        .sort((a, b) => a.era - b.era);
+
+/**
+ * reward of an exposed stake for one era if the validator pays its stakers `stakersPayout`
+ * (e.g. what it paid them last era), split by stake with the runtime rounding
+ *
+ * @param totalStake - total backing of the validator in the era the stake is exposed in
+ */
+export const estimateEraReward = (stake: bigint, stakersPayout: bigint, totalStake: bigint): bigint =>
+    calculateStakerPayout(stakersPayout, stake, totalStake);
+
+/**
+ * reasons the nominator earns nothing (or less than it could), empty if all looks fine
+ */
+export const diagnoseNominator = ({
+    ledger,
+    nomination,
+    targets,
+    payee,
+    minimumActiveStake
+}: {
+    ledger: StakingLedger | undefined;
+    nomination: Nomination | undefined;
+    targets: NominationTarget[];
+    payee: RewardDestination | undefined;
+    minimumActiveStake: bigint;
+}): NominatorIssue[] => {
+    if (!ledger) return ['notBonded'];
+
+    const issues: NominatorIssue[] = [];
+    if (ledger.active === 0n) issues.push('noActiveBond');
+    if (!nomination || nomination.targets.length === 0) return [...issues, 'notNominating'];
+
+    if (!targets.some(target => target.active)) issues.push('noActiveTargets');
+    else if (ledger.active > 0n && ledger.active < minimumActiveStake) issues.push('belowMinimumActiveStake');
+    else if (!targets.some(target => target.exposure)) issues.push('notExposed');
+
+    if (payee?.type === 'None') issues.push('rewardsNotPaid');
+    return issues;
+};
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import {
+    QR_FRAME_SIZE,
+    UnsignedTransaction,
+    encodeCompactLength,
+    encodeSignedExtrinsic,
+    encodeSigningPayload,
+    encodeVaultPayload,
+    fromPayloadFile,
+    parseSignature,
+    splitQrFrames,
+    toPayloadFile
+} from './offlineSigning';
+
+const bytes = (length: number, fill: number) => new Uint8Array(length).fill(fill);
+
+const tx: UnsignedTransaction = {
+    address: '15oF4uVJwmo4TdGW7VfQxNLavjCXviqxT9S1MgbjMNHr6Sp5',
+    publicKey: bytes(32, 0xaa),
+    callData: new Uint8Array([0x07, 0x06]),
+    extensions: [
+        { identifier: 'CheckSpecVersion', value: new Uint8Array(), additionalSigned: new Uint8Array([1, 2, 3, 4]) },
+        { identifier: 'CheckNonce', value: new Uint8Array([0x1c]), additionalSigned: new Uint8Array() }
+    ],
+    genesisHash: bytes(32, 0x91)
+};
+
+describe('encodeCompactLength', () => {
+    it('uses the single, two and four byte modes at their bounds', () => {
+        expect(encodeCompactLength(0)).toEqual(new Uint8Array([0x00]));
+        expect(encodeCompactLength(63)).toEqual(new Uint8Array([0xfc]));
+        expect(encodeCompactLength(64)).toEqual(new Uint8Array([0x01, 0x01]));
+        expect(encodeCompactLength(16383)).toEqual(new Uint8Array([0xfd, 0xff]));
+        expect(encodeCompactLength(16384)).toEqual(new Uint8Array([0x02, 0x00, 0x01, 0x00]));
+        expect(() => encodeCompactLength(2 ** 30)).toThrow();
+    });
+});
+
+describe('encodeVaultPayload', () => {
+    it('is the UOS header, the key, the compact prefixed call, extensions and genesis', () => {
+        const payload = encodeVaultPayload(tx);
+        expect([...payload.subarray(0, 3)]).toEqual([0x53, 0x01, 0x02]);
+        expect(payload.subarray(3, 35)).toEqual(tx.publicKey);
+        expect([...payload.subarray(35, 38)]).toEqual([0x08, 0x07, 0x06]);
+        expect([...payload.subarray(38, 43)]).toEqual([0x1c, 1, 2, 3, 4]);
+        expect(payload.subarray(43)).toEqual(tx.genesisHash);
+    });
+
+    it('carries the signing payload behind the length prefix of the call', () => {
+        const signing = encodeSigningPayload(tx);
+        expect(encodeVaultPayload(tx).subarray(35 + 1, 35 + 1 + signing.length)).toEqual(signing);
+    });
+});
+
+describe('splitQrFrames', () => {
+    it('splits into 1024 byte frames behind a 5 byte header', () => {
+        const payload = Uint8Array.from({ length: 2 * QR_FRAME_SIZE + 100 }, (_, i) => i % 251);
+        const frames = splitQrFrames(payload);
+
+        expect(frames).toHaveLength(3);
+        frames.forEach((frame, index) => expect([...frame.subarray(0, 5)]).toEqual([0x00, 0x00, 0x03, 0x00, index]));
+        expect(frames.map(frame => frame.length)).toEqual([QR_FRAME_SIZE + 5, QR_FRAME_SIZE + 5, 105]);
+        expect(Uint8Array.from(frames.flatMap(frame => [...frame.subarray(5)]))).toEqual(payload);
+    });
+
+    it('keeps the header for a payload that fits one frame', () => {
+        const [frame, ...rest] = splitQrFrames(new Uint8Array([1, 2, 3]));
+        expect(rest).toHaveLength(0);
+        expect([...frame]).toEqual([0x00, 0x00, 0x01, 0x00, 0x00, 1, 2, 3]);
+    });
+
+    it('writes counts above 255 big endian', () => {
+        const frames = splitQrFrames(new Uint8Array(300), 1);
+        expect([...frames[299].subarray(0, 5)]).toEqual([0x00, 0x01, 0x2c, 0x01, 0x2b]);
+    });
+});
+
+describe('parseSignature', () => {
+    it('prefixes a bare 64 byte signature as sr25519', () => {
+        const signature = parseSignature('0x' + '11'.repeat(64));
+        expect(signature.length).toBe(65);
+        expect(signature[0]).toBe(0x01);
+    });
+
+    it('takes MultiSignature encoded signatures as they are', () => {
+        expect(parseSignature('00' + '11'.repeat(64))[0]).toBe(0x00);
+        expect(parseSignature(' 0x02' + '11'.repeat(65) + '\n').length).toBe(66);
+    });
+
+    it('rejects anything else', () => {
+        expect(() => parseSignature('0xzz')).toThrow('not hex');
+        expect(() => parseSignature('0x' + '11'.repeat(63))).toThrow('63 bytes');
+        expect(() => parseSignature('0x05' + '11'.repeat(64))).toThrow();
+    });
+});
+
+describe('encodeSignedExtrinsic', () => {
+    it('is a length prefixed v4 extrinsic: signer, signature, extension values, call', () => {
+        const signature = new Uint8Array([0x01, ...bytes(64, 0x22)]);
+        const extrinsic = encodeSignedExtrinsic(tx, signature);
+        const body = [0x84, 0x00, ...tx.publicKey, ...signature, 0x1c, 0x07, 0x06];
+
+        expect([...extrinsic.subarray(0, 2)]).toEqual([...encodeCompactLength(body.length)]);
+        expect([...extrinsic.subarray(2)]).toEqual(body);
+    });
+});
+
+describe('payload file', () => {
+    it('round trips the transaction', () => {
+        const file = toPayloadFile(tx, 'polkadot', 'Staking.chill');
+        expect(file.signingPayload).toBe('0x07061c01020304');
+        expect(fromPayloadFile(JSON.parse(JSON.stringify(file)))).toEqual(tx);
+    });
+
+    it('rejects other json', () => {
+        expect(() => fromPayloadFile({ foo: 1 } as never)).toThrow('not an exported transaction file');
+    });
+});
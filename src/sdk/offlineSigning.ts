@@ -0,0 +1,168 @@
+import { fromHex, mergeUint8, toHex } from 'polkadot-api/utils';
+
+/**
+ * unsigned transactions for air-gapped signing
+ *
+ * a transaction is exported as the bytes to sign, as a polkadot vault QR payload (UOS) and as a
+ * json file. the signature that comes back is put together with the exported parts into a signed
+ * (v4) extrinsic, ready to broadcast. everything here is plain byte handling, no chain access.
+ */
+
+// one signed extension as the signer gets it: `value` goes into the extrinsic, `additionalSigned` is only signed
+export interface SignedExtension {
+    identifier: string;
+    value: Uint8Array;
+    additionalSigned: Uint8Array;
+}
+
+export interface UnsignedTransaction {
+    address: string;
+    publicKey: Uint8Array;        // sr25519 key of the signer
+    callData: Uint8Array;         // without length prefix
+    extensions: SignedExtension[];   // in the order of the metadata
+    genesisHash: Uint8Array;
+}
+
+// json file of an exported transaction, a signing tool adds `signature` and hands it back
+export interface OfflinePayloadFile {
+    version: 1;
+    network: string;
+    call: string;                 // e.g. "Staking.nominate", for humans
+    address: string;
+    publicKey: string;
+    genesisHash: string;
+    callData: string;
+    extensions: Array<{ identifier: string; value: string; additionalSigned: string }>;
+    signingPayload: string;       // signers hash it with blake2b-256 first if it is longer than 256 bytes
+    signature?: string;
+}
+
+// UOS (universal offline signatures) header: substrate, sr25519, sign transaction
+const UOS_SUBSTRATE = 0x53;
+const UOS_SR25519 = 0x01;
+const UOS_SIGN_TRANSACTION = 0x02;
+
+// MultiSignature variants, the byte in front of the signature
+const SIGNATURE_ED25519 = 0x00;
+const SIGNATURE_SR25519 = 0x01;
+const SIGNATURE_ECDSA = 0x02;
+
+// signed extrinsic, version 4 (0x04) with the signed bit set
+const EXTRINSIC_V4_SIGNED = 0x84;
+// MultiAddress::Id
+const ADDRESS_ID = 0x00;
+
+// bytes per QR frame, the size polkadot{.js} uses for vault
+export const QR_FRAME_SIZE = 1024;
+
+/**
+ * SCALE compact encoding of a length
+ */
+export const encodeCompactLength = (length: number): Uint8Array => {
+    if (length < 1 << 6) return new Uint8Array([length << 2]);
+    if (length < 1 << 14) return new Uint8Array([((length << 2) | 0b01) & 0xff, length >> 6]);
+    if (length < 1 << 30) {
+        const value = (length << 2) | 0b10;
+        return new Uint8Array([value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, value >>> 24]);
+    }
+    throw new Error(`length ${length} is too large`);
+};
+
+const extra = (tx: UnsignedTransaction) => mergeUint8(...tx.extensions.map(extension => extension.value));
+const additionalSigned = (tx: UnsignedTransaction) => mergeUint8(...tx.extensions.map(extension => extension.additionalSigned));
+
+/**
+ * what the key signs: call, extension values and the additionally signed data
+ * not hashed, signers hash payloads longer than 256 bytes themselves
+ */
+export const encodeSigningPayload = (tx: UnsignedTransaction): Uint8Array =>
+    mergeUint8(tx.callData, extra(tx), additionalSigned(tx));
+
+/**
+ * payload for polkadot vault: UOS header, public key, the signing payload with a length
+ * prefixed call, and the genesis hash vault looks the network up by
+ */
+export const encodeVaultPayload = (tx: UnsignedTransaction): Uint8Array =>
+    mergeUint8(
+        new Uint8Array([UOS_SUBSTRATE, UOS_SR25519, UOS_SIGN_TRANSACTION]),
+        tx.publicKey,
+        encodeCompactLength(tx.callData.length),
+        tx.callData,
+        extra(tx),
+        additionalSigned(tx),
+        tx.genesisHash
+    );
+
+/**
+ * split a payload into multipart QR frames: 0x00, frame count and frame index (u16 big endian), data
+ * vault reads the frames in any order, a payload that fits one frame still gets the header
+ */
+export const splitQrFrames = (payload: Uint8Array, frameSize = QR_FRAME_SIZE): Uint8Array[] => {
+    const count = Math.max(1, Math.ceil(payload.length / frameSize));
+    return Array.from({ length: count }, (_, index) => mergeUint8(
+        new Uint8Array([0x00, count >> 8, count & 0xff, index >> 8, index & 0xff]),
+        payload.subarray(index * frameSize, (index + 1) * frameSize)
+    ));
+};
+
+/**
+ * a signature as hex: MultiSignature encoded (what vault shows) or a bare 64 byte sr25519 signature
+ */
+export const parseSignature = (input: string): Uint8Array => {
+    const hex = input.trim().replace(/^0x/i, '');
+    if (!/^([0-9a-f]{2})+$/i.test(hex)) throw new Error('the signature is not hex');
+
+    const bytes = fromHex(hex);
+    if (bytes.length === 64) return mergeUint8(new Uint8Array([SIGNATURE_SR25519]), bytes);
+    if (bytes.length === 65 && (bytes[0] === SIGNATURE_SR25519 || bytes[0] === SIGNATURE_ED25519)) return bytes;
+    if (bytes.length === 66 && bytes[0] === SIGNATURE_ECDSA) return bytes;
+    throw new Error(`unexpected signature length of ${bytes.length} bytes`);
+};
+
+/**
+ * signed extrinsic, length prefixed: version, signer, signature, extension values and the call
+ */
+export const encodeSignedExtrinsic = (tx: UnsignedTransaction, signature: Uint8Array): Uint8Array => {
+    const body = mergeUint8(
+        new Uint8Array([EXTRINSIC_V4_SIGNED, ADDRESS_ID]),
+        tx.publicKey,
+        signature,
+        extra(tx),
+        tx.callData
+    );
+    return mergeUint8(encodeCompactLength(body.length), body);
+};
+
+export const toPayloadFile = (tx: UnsignedTransaction, network: string, call: string): OfflinePayloadFile => ({
+    version: 1,
+    network,
+    call,
+    address: tx.address,
+    publicKey: toHex(tx.publicKey),
+    genesisHash: toHex(tx.genesisHash),
+    callData: toHex(tx.callData),
+    extensions: tx.extensions.map(extension => ({
+        identifier: extension.identifier,
+        value: toHex(extension.value),
+        additionalSigned: toHex(extension.additionalSigned)
+    })),
+    signingPayload: toHex(encodeSigningPayload(tx))
+});
+
+/**
+ * the transaction of an exported (and maybe signed) file, throws on anything else
+ */
+export const fromPayloadFile = (file: OfflinePayloadFile): UnsignedTransaction => {
+    if (file?.version !== 1 || !file.callData || !Array.isArray(file.extensions)) throw new Error('not an exported transaction file');
+    return {
+        address: file.address,
+        publicKey: fromHex(file.publicKey),
+        callData: fromHex(file.callData),
+        extensions: file.extensions.map(extension => ({
+            identifier: extension.identifier,
+            value: fromHex(extension.value),
+            additionalSigned: fromHex(extension.additionalSigned)
+        })),
+        genesisHash: fromHex(file.genesisHash)
+    };
+};
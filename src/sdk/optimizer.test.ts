@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { OptimizerCandidate, OptimizerConstraints, optimizeNominations, variance } from './optimizer';
+
+const candidate = (address: string, apyByEra: Record<number, number>, overrides: Partial<OptimizerCandidate> = {}): OptimizerCandidate => ({
+    address,
+    commission: 0.05,
+    ownStake: 1000n,
+    hasIdentity: true,
+    slashed: false,
+    oversubscribed: false,
+    operator: address,
+    apyByEra,
+    ...overrides
+});
+
+const CONSTRAINTS: OptimizerConstraints = {
+    maxNominations: 16,
+    maxCommission: 0.1,
+    minSelfStake: 100n,
+    requireIdentity: false,
+    excludeSlashed: true,
+    excludeOversubscribed: false,
+    maxPerOperator: 0,
+    eras: [1, 2],
+    minActiveEras: 0
+};
+
+const addresses = (candidates: OptimizerCandidate[], constraints: Partial<OptimizerConstraints> = {}) =>
+    optimizeNominations(candidates, { ...CONSTRAINTS, ...constraints }).picks.map(pick => pick.address);
+
+describe('variance', () => {
+    it('is the population variance, 0 for no values', () => {
+        expect(variance([10, 14])).toBe(4);
+        expect(variance([])).toBe(0);
+    });
+});
+
+describe('optimizeNominations', () => {
+    it('drops candidates over the commission, under the self stake or slashed', () => {
+        const result = optimizeNominations([
+            candidate('ok', { 1: 10, 2: 10 }),
+            candidate('edge', { 1: 10, 2: 10 }, { commission: 0.1, ownStake: 100n }),
+            candidate('greedy', { 1: 20, 2: 20 }, { commission: 0.11 }),
+            candidate('small', { 1: 20, 2: 20 }, { ownStake: 99n }),
+            candidate('slashed', { 1: 20, 2: 20 }, { slashed: true })
+        ], CONSTRAINTS);
+
+        expect(result.picks.map(pick => pick.address)).toEqual(['ok', 'edge']);
+        expect(result.eligible).toBe(2);
+        expect(result.rejected).toMatchObject({ commission: 1, selfStake: 1, slashed: 1 });
+    });
+
+    it('applies identity, oversubscription and activity only when asked for', () => {
+        const candidates = [
+            candidate('anon', { 1: 10, 2: 10 }, { hasIdentity: false }),
+            candidate('full', { 1: 10, 2: 10 }, { oversubscribed: true }),
+            candidate('idle', { 1: 10, 2: 0 })
+        ];
+        expect(addresses(candidates)).toHaveLength(3);
+
+        const result = optimizeNominations(candidates, { ...CONSTRAINTS, requireIdentity: true, excludeOversubscribed: true, minActiveEras: 2 });
+        expect(result.picks).toEqual([]);
+        expect(result.rejected).toMatchObject({ identity: 1, oversubscribed: 1, inconsistent: 1 });
+    });
+
+    it('reports the first constraint a candidate fails', () => {
+        const result = optimizeNominations([candidate('bad', {}, { commission: 1, ownStake: 0n, slashed: true })], CONSTRAINTS);
+        expect(result.rejected).toMatchObject({ commission: 1, selfStake: 0, slashed: 0 });
+    });
+
+    it('ranks by expected APY, eras without rewards count as 0', () => {
+        const result = optimizeNominations([
+            candidate('steady', { 1: 12, 2: 12 }),
+            candidate('gap', { 1: 20 }),
+            candidate('best', { 1: 14, 2: 16 })
+        ], CONSTRAINTS);
+
+        expect(result.picks.map(pick => [pick.address, pick.rank, pick.expectedAPY, pick.activeEras])).toEqual([
+            ['best', 1, 15, 2],
+            ['steady', 2, 12, 2],
+            ['gap', 3, 10, 1]
+        ]);
+    });
+
+    it('breaks ties in favour of the steadier validator', () => {
+        expect(addresses([
+            candidate('jumpy', { 1: 5, 2: 15 }),
+            candidate('steady', { 1: 10, 2: 10 }),
+            candidate('shaky', { 1: 8, 2: 12 })
+        ])).toEqual(['steady', 'shaky', 'jumpy']);
+    });
+
+    it('caps the picks per operator and moves on to the next best', () => {
+        const result = optimizeNominations([
+            candidate('a1', { 1: 30, 2: 30 }, { operator: 'a' }),
+            candidate('a2', { 1: 29, 2: 29 }, { operator: 'a' }),
+            candidate('a3', { 1: 28, 2: 28 }, { operator: 'a' }),
+            candidate('b1', { 1: 10, 2: 10 }, { operator: 'b' })
+        ], { ...CONSTRAINTS, maxPerOperator: 2 });
+
+        expect(result.picks.map(pick => [pick.address, pick.rank, pick.operatorPick])).toEqual([['a1', 1, 1], ['a2', 2, 2], ['b1', 4, 1]]);
+        expect(result.rejected.operatorLimit).toBe(1);
+    });
+
+    it('stops at maxNominations', () => {
+        const candidates = Array.from({ length: 30 }, (_, i) => candidate(`v${i}`, { 1: 30 - i, 2: 30 - i }));
+        const picks = addresses(candidates, { maxNominations: 16 });
+
+        expect(picks).toHaveLength(16);
+        expect(picks[15]).toBe('v15');
+        expect(addresses(candidates, { maxNominations: 0 })).toEqual([]);
+    });
+
+    it('blends the picks evenly per era, picks that dip together add to the variance', () => {
+        const together = optimizeNominations([candidate('a', { 1: 10, 2: 20 }), candidate('b', { 1: 10, 2: 20 })], CONSTRAINTS);
+        expect(together.apyByEra).toEqual({ 1: 10, 2: 20 });
+        expect(together.blendedAPY).toBe(15);
+        expect(together.blendedVariance).toBe(25);
+
+        // the same picks dipping in turns cancel out
+        const apart = optimizeNominations([candidate('a', { 1: 10, 2: 20 }), candidate('b', { 1: 20, 2: 10 })], CONSTRAINTS);
+        expect(apart.blendedAPY).toBe(15);
+        expect(apart.blendedVariance).toBe(0);
+    });
+
+    it('has no blended return without picks', () => {
+        expect(optimizeNominations([], CONSTRAINTS)).toMatchObject({ picks: [], eligible: 0, blendedAPY: 0, blendedVariance: 0, apyByEra: { 1: 0, 2: 0 } });
+    });
+});
@@ -0,0 +1,133 @@
+import { average } from './staking';
+
+/**
+ * nomination set optimizer
+ *
+ * picks up to MaxNominations validators with the best expected nominator return over the last eras.
+ * the stake is assumed to be spread evenly over the picks (the election decides the real split), so
+ * the blended APY is the mean of the picks. eras a validator earned nothing in count as 0, that is
+ * what a nomination got there. with the per operator cap as the only constraint between picks,
+ * taking the eligible validators best first is optimal.
+ */
+
+export interface OptimizerCandidate {
+    address: string;
+    commission: number;          // current commission (0-1)
+    ownStake: bigint;
+    hasIdentity: boolean;
+    slashed: boolean;            // slashes or pending slashes the chain still keeps
+    oversubscribed: boolean;     // more nominators than one exposure page
+    operator: string;            // operator id, the address itself for validators without known operator
+    apyByEra: Record<number, number>;
+}
+
+export interface OptimizerConstraints {
+    maxNominations: number;
+    maxCommission: number;       // 0-1
+    minSelfStake: bigint;
+    requireIdentity: boolean;
+    excludeSlashed: boolean;
+    excludeOversubscribed: boolean;
+    maxPerOperator: number;      // 0 = no limit
+    eras: number[];              // eras the return is measured over
+    minActiveEras: number;       // eras of `eras` the validator has to have earned rewards in
+}
+
+// first constraint a candidate failed
+export type OptimizerRejection =
+    | 'commission'
+    | 'selfStake'
+    | 'identity'
+    | 'slashed'
+    | 'oversubscribed'
+    | 'inconsistent'
+    | 'operatorLimit';   // eligible, but its operator already has maxPerOperator better picks
+
+export interface OptimizedPick {
+    address: string;
+    rank: number;                // by expected APY among the eligible candidates, 1 = best
+    expectedAPY: number;         // mean APY over the eras in %
+    apyVariance: number;         // of the APY across the eras
+    activeEras: number;          // eras with rewards
+    operatorPick: number;        // 1 = first pick of its operator
+    candidate: OptimizerCandidate;
+}
+
+export interface OptimizedNominations {
+    picks: OptimizedPick[];      // best first
+    eligible: number;
+    rejected: Record<OptimizerRejection, number>;
+    blendedAPY: number;          // expected APY of the whole set in %
+    blendedVariance: number;     // variance of the set's APY across the eras, picks that dip together add up
+    apyByEra: Record<number, number>;   // APY of the whole set per era
+}
+
+/**
+ * population variance, 0 for empty lists
+ */
+export const variance = (values: number[]): number => {
+    const mean = average(values);
+    return average(values.map(value => (value - mean) ** 2));
+};
+
+const getRejection = (candidate: OptimizerCandidate, activeEras: number, constraints: OptimizerConstraints): OptimizerRejection | undefined => {
+    if (candidate.commission > constraints.maxCommission) return 'commission';
+    if (candidate.ownStake < constraints.minSelfStake) return 'selfStake';
+    if (constraints.requireIdentity && !candidate.hasIdentity) return 'identity';
+    if (constraints.excludeSlashed && candidate.slashed) return 'slashed';
+    if (constraints.excludeOversubscribed && candidate.oversubscribed) return 'oversubscribed';
+    if (activeEras < constraints.minActiveEras) return 'inconsistent';
+    return undefined;
+};
+
+/**
+ * the nomination set with the best expected return that meets the constraints
+ * ties go to the steadier validator
+ */
+export const optimizeNominations = (candidates: OptimizerCandidate[], constraints: OptimizerConstraints): OptimizedNominations => {
+    const { eras, maxNominations, maxPerOperator } = constraints;
+    const rejected: Record<OptimizerRejection, number> = {
+        commission: 0, selfStake: 0, identity: 0, slashed: 0, oversubscribed: 0, inconsistent: 0, operatorLimit: 0
+    };
+
+    const eligible = candidates
+        .map(candidate => {
+            const apys = eras.map(era => candidate.apyByEra[era] ?? 0);
+            return {
+                candidate,
+                activeEras: apys.filter(apy => apy > 0).length,
+                expectedAPY: average(apys),
+                apyVariance: variance(apys)
+            };
+        })
+        .filter(scored => {
+            const rejection = getRejection(scored.candidate, scored.activeEras, constraints);
+            if (rejection) rejected[rejection]++;
+            return !rejection;
+        })
+        .sort((a, b) => b.expectedAPY - a.expectedAPY || a.apyVariance - b.apyVariance);
+
+    const picks: OptimizedPick[] = [];
+    const perOperator: Record<string, number> = {};
+    for (const [index, scored] of eligible.entries()) {
+        if (picks.length >= maxNominations) break;
+        const { operator } = scored.candidate;
+        if (maxPerOperator > 0 && (perOperator[operator] || 0) >= maxPerOperator) {
+            rejected.operatorLimit++;
+            continue;
+        }
+        perOperator[operator] = (perOperator[operator] || 0) + 1;
+        picks.push({ ...scored, address: scored.candidate.address, rank: index + 1, operatorPick: perOperator[operator] });
+    }
+
+    const apyByEra = Object.fromEntries(eras.map(era => [era, average(picks.map(pick => pick.candidate.apyByEra[era] ?? 0))]));
+    const blended = Object.values(apyByEra);
+    return {
+        picks,
+        eligible: eligible.length,
+        rejected,
+        blendedAPY: average(blended),
+        blendedVariance: variance(blended),
+        apyByEra
+    };
+};
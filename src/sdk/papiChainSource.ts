@@ -0,0 +1,282 @@
+import { TypedApi } from 'polkadot-api';
+import { dot } from '@polkadot-api/descriptors';
+import { ChainSource, EraPoints, ExposurePage, RewardDestination, StakeOverview, UnappliedSlash, ValidatorPrefs } from './types';
+import { parseIndividualPoints } from './staking';
+
+type RawPrefs = { commission: number; blocked: boolean };
+type RawOverview = { total: bigint; own: bigint; nominator_count: number; page_count: number };
+type RawExposurePage = { page_total: bigint; others: Array<{ who: string; value: bigint }> };
+type RawRewardDestination = { type: 'Staked' | 'Stash' | 'Controller' | 'None'; value?: undefined } | { type: 'Account'; value: string };
+
+const toPrefs = (prefs: RawPrefs): ValidatorPrefs => ({ commission: prefs.commission, blocked: prefs.blocked });
+
+const toOverview = (overview: RawOverview): StakeOverview => ({
+    total: overview.total,
+    own: overview.own,
+    nominatorCount: overview.nominator_count,
+    pageCount: overview.page_count
+});
+
+const toExposurePage = (page: number, exposure: RawExposurePage): ExposurePage => ({
+    page,
+    pageTotal: exposure.page_total,
+    others: exposure.others.map(({ who, value }) => ({ who: who.toString(), value }))
+});
+
+type RawEraPoints = { total: number; individual: unknown };
+
+const toEraPoints = (eraPoints: RawEraPoints): EraPoints => ({
+    total: Number(eraPoints.total),
+    individual: parseIndividualPoints(eraPoints.individual)
+});
+
+const toRewardDestination = (payee: RawRewardDestination): RewardDestination =>
+    payee.type === 'Account' ? { type: 'Account', account: payee.value.toString() } : { type: payee.type };
+
+/**
+ * turn storage entries into an address → value map
+ * the address is the last key arg (e.g. [era, address])
+ */
+const entriesToMap = <Raw, T>(entries: Array<{ keyArgs: unknown[]; value: Raw }>, map: (value: Raw) => T): Record<string, T> => {
+    const result: Record<string, T> = {};
+    entries.forEach(({ keyArgs, value }) => {
+        result[String(keyArgs[keyArgs.length - 1])] = map(value);
+    });
+    return result;
+};
+
+/**
+ * ChainSource backed by a polkadot-api typed api
+ * only maps the raw storage values into the SDK types, no calcs in here
+ */
+export const createPapiChainSource = (api: TypedApi<typeof dot>): ChainSource => ({
+    getActiveEra: async () => {
+        const activeEra = await api.query.Staking.ActiveEra.getValue();
+        return activeEra ? Number(activeEra.index) : undefined;
+    },
+
+    getCurrentEra: async () => {
+        const currentEra = await api.query.Staking.CurrentEra.getValue();
+        return currentEra !== undefined ? Number(currentEra) : undefined;
+    },
+
+    getActiveEraStart: async () => {
+        const activeEra = await api.query.Staking.ActiveEra.getValue();
+        return activeEra?.start !== undefined ? Number(activeEra.start) : undefined;
+    },
+
+    getEraTimingConstants: async () => {
+        const [epochDuration, sessionsPerEra, expectedBlockTime] = await Promise.all([
+            api.constants.Babe.EpochDuration(),
+            api.constants.Staking.SessionsPerEra(),
+            api.constants.Babe.ExpectedBlockTime()
+        ]);
+        return {
+            epochDuration: Number(epochDuration),
+            sessionsPerEra,
+            expectedBlockTime: Number(expectedBlockTime)
+        };
+    },
+
+    getMaxExposurePageSize: () => api.constants.Staking.MaxExposurePageSize(),
+
+    getSessionValidators: async () => {
+        const validators = await api.query.Session.Validators.getValue();
+        return validators.map(address => address.toString());
+    },
+
+    getEraReward: (era) => api.query.Staking.ErasValidatorReward.getValue(era),
+
+    // next_mint is (stakers payout, rest) of the era in progress, runtimes without the api throw
+    getProjectedEraPayout: async () => {
+        const prediction = await api.apis.Inflation.experimental_inflation_prediction_info();
+        return prediction.next_mint[0];
+    },
+
+    getEraPoints: async (era) => {
+        const eraPoints = await api.query.Staking.ErasRewardPoints.getValue(era);
+        return eraPoints ? toEraPoints(eraPoints) : undefined;
+    },
+
+    getValidatorPrefs: async (address) => {
+        const prefs = await api.query.Staking.Validators.getValue(address);
+        return prefs ? toPrefs(prefs) : undefined;
+    },
+
+    getEraValidatorPrefs: async (era, address) => {
+        const prefs = await api.query.Staking.ErasValidatorPrefs.getValue(era, address);
+        return prefs ? toPrefs(prefs) : undefined;
+    },
+
+    getEraStakersOverview: async (era, address) => {
+        const overview = await api.query.Staking.ErasStakersOverview.getValue(era, address);
+        return overview ? toOverview(overview) : undefined;
+    },
+
+    getEraExposurePages: async (era, address) => {
+        // key is [era, address, page], iterate all pages of the validator
+        const entries = await api.query.Staking.ErasStakersPaged.getEntries(era, address);
+        return entries
+            .map(({ keyArgs, value }) => toExposurePage(keyArgs[2], value))
+            .sort((a, b) => a.page - b.page);
+    },
+
+    getAllValidatorPrefs: async () => {
+        const entries = await api.query.Staking.Validators.getEntries();
+        return entriesToMap(entries, toPrefs);
+    },
+
+    getEraValidatorPrefsMap: async (era) => {
+        const entries = await api.query.Staking.ErasValidatorPrefs.getEntries(era);
+        return entriesToMap(entries, toPrefs);
+    },
+
+    getEraStakersOverviewMap: async (era) => {
+        const entries = await api.query.Staking.ErasStakersOverview.getEntries(era);
+        return entriesToMap(entries, toOverview);
+    },
+
+    getClaimedRewardsMap: async (era) => {
+        const entries = await api.query.Staking.ClaimedRewards.getEntries(era);
+        return entriesToMap(entries, pages => [...pages]);
+    },
+
+    getValidatorSlashes: async () => {
+        const entries = await api.query.Staking.ValidatorSlashInEra.getEntries();
+        return entries.map(({ keyArgs: [era, validator], value: [fraction, amount] }) => ({
+            validator: validator.toString(),
+            era,
+            fraction,
+            amount
+        }));
+    },
+
+    // UnappliedSlashes is keyed by the era the slashes get applied in
+    getUnappliedSlashes: async () => {
+        const entries = await api.query.Staking.UnappliedSlashes.getEntries();
+        return entries.flatMap(({ keyArgs: [applyEra], value }) => value.map((slash): UnappliedSlash => ({
+            validator: slash.validator.toString(),
+            applyEra,
+            own: slash.own,
+            others: slash.others.reduce((sum, [, amount]) => sum + amount, 0n)
+        })));
+    },
+
+    // reports carry no era, only who offended
+    getOffenceReportCounts: async () => {
+        const entries = await api.query.Offences.Reports.getEntries();
+        const counts: Record<string, number> = {};
+        entries.forEach(({ value }) => {
+            const offender = value.offender[0].toString();
+            counts[offender] = (counts[offender] || 0) + 1;
+        });
+        return counts;
+    },
+
+    getRewardDestinations: async (stashes) => {
+        const payees = await api.query.Staking.Payee.getValues(stashes.map(stash => [stash]));
+        return payees.map(payee => (payee ? toRewardDestination(payee) : undefined));
+    },
+
+    getControllers: async (stashes) => {
+        const controllers = await api.query.Staking.Bonded.getValues(stashes.map(stash => [stash]));
+        return controllers.map(controller => controller?.toString());
+    },
+
+    getLedger: async (controller) => {
+        const ledger = await api.query.Staking.Ledger.getValue(controller);
+        if (!ledger) return undefined;
+        return {
+            stash: ledger.stash.toString(),
+            total: ledger.total,
+            active: ledger.active,
+            unlocking: ledger.unlocking.map(({ value, era }) => ({ value, era }))
+        };
+    },
+
+    getNomination: async (stash) => {
+        const nomination = await api.query.Staking.Nominators.getValue(stash);
+        if (!nomination) return undefined;
+        return {
+            nominator: stash,
+            targets: nomination.targets.map(target => target.toString()),
+            submittedIn: nomination.submitted_in
+        };
+    },
+
+    getMinimumActiveStake: () => api.query.Staking.MinimumActiveStake.getValue(),
+
+    // the current span plus the prior ones, no entry if never slashed
+    getSlashingSpanCount: async (stash) => {
+        const spans = await api.query.Staking.SlashingSpans.getValue(stash);
+        return spans ? spans.prior.length + 1 : 0;
+    },
+
+    // mortality starts at the parent of the finalized block. its hash is looked up by number, queries
+    // that run side by side can each see another finalized block, the hash of a finalized number can't change
+    getSigningContext: async (address) => {
+        const [genesisHash, number, account, version] = await Promise.all([
+            api.query.System.BlockHash.getValue(0),
+            api.query.System.Number.getValue(),
+            api.query.System.Account.getValue(address),
+            api.constants.System.Version()
+        ]);
+        const height = number - 1;
+        const hash = await api.query.System.BlockHash.getValue(height);
+        return {
+            genesisHash: genesisHash.asHex(),
+            nonce: account.nonce,
+            block: { height, hash: hash.asHex() },
+            specVersion: version.spec_version,
+            transactionVersion: version.transaction_version
+        };
+    },
+
+    // the nominations quota is the votes per voter the election accepts
+    getStakingLimits: async () => {
+        const [minNominatorBond, maxNominations, bondingDuration, maxUnlockingChunks] = await Promise.all([
+            api.query.Staking.MinNominatorBond.getValue(),
+            api.constants.ElectionProviderMultiPhase.MinerMaxVotesPerVoter(),
+            api.constants.Staking.BondingDuration(),
+            api.constants.Staking.MaxUnlockingChunks()
+        ]);
+        return { minNominatorBond, maxNominations, bondingDuration, maxUnlockingChunks };
+    },
+
+    getNominations: async () => {
+        const entries = await api.query.Staking.Nominators.getEntries();
+        return entries.map(({ keyArgs: [nominator], value }) => ({
+            nominator: nominator.toString(),
+            targets: value.targets.map(target => target.toString()),
+            submittedIn: value.submitted_in
+        }));
+    },
+
+    // Ledger is keyed by controller, the stash is in the value
+    getBondedStakes: async () => {
+        const entries = await api.query.Staking.Ledger.getEntries();
+        const stakes: Record<string, bigint> = {};
+        entries.forEach(({ value }) => {
+            stakes[value.stash.toString()] = value.active;
+        });
+        return stakes;
+    },
+
+    getValidatorCount: () => api.query.Staking.ValidatorCount.getValue(),
+
+    watchActiveEra: (onChange, onError) => {
+        const subscription = api.query.Staking.ActiveEra.watchValue('finalized').subscribe({
+            next: activeEra => onChange(activeEra ? Number(activeEra.index) : undefined),
+            error: onError
+        });
+        return () => subscription.unsubscribe();
+    },
+
+    watchEraPoints: (era, onChange, onError) => {
+        const subscription = api.query.Staking.ErasRewardPoints.watchValue(era, 'best').subscribe({
+            next: eraPoints => onChange(eraPoints ? toEraPoints(eraPoints) : undefined),
+            error: onError
+        });
+        return () => subscription.unsubscribe();
+    }
+});
@@ -0,0 +1,47 @@
+import { Binary, UnsafeApi } from 'polkadot-api';
+import { IdentityInfo, IdentitySource, Judgement, SubIdentity } from './types';
+
+/**
+ * raw shapes of the Identity pallet storage
+ * there are no generated descriptors for the People chains, the unsafe api decodes with the live
+ * metadata and we pick the fields we need
+ */
+type RawData = { type: string; value?: Binary };
+type RawRegistration = {
+    judgements: Array<[number, { type: Judgement }]>;
+    info: { display: RawData };
+};
+// older runtimes stored the username next to the registration
+type RawIdentityOf = RawRegistration | [RawRegistration, unknown];
+type RawSuperOf = [string, RawData];
+
+// only Raw data holds readable text, hashes and None are skipped
+const dataToText = (data: RawData | undefined): string | undefined => {
+    if (!data?.type.startsWith('Raw') || !data.value) return undefined;
+    const text = data.value.asText().trim();
+    return text || undefined;
+};
+
+const toIdentityInfo = (raw: RawIdentityOf): IdentityInfo => {
+    const registration = Array.isArray(raw) ? raw[0] : raw;
+    return {
+        display: dataToText(registration.info.display),
+        judgements: registration.judgements.map(([, judgement]) => judgement.type)
+    };
+};
+
+/**
+ * IdentitySource backed by a polkadot-api client of the chain holding identities
+ */
+export const createPapiIdentitySource = (api: UnsafeApi<unknown>): IdentitySource => ({
+    getIdentities: async (addresses) => {
+        const values = await api.query.Identity.IdentityOf.getValues(addresses.map(address => [address]));
+        return values.map((raw: RawIdentityOf | undefined) => (raw ? toIdentityInfo(raw) : undefined));
+    },
+
+    getSuperOf: async (addresses) => {
+        const values = await api.query.Identity.SuperOf.getValues(addresses.map(address => [address]));
+        return values.map((raw: RawSuperOf | undefined): SubIdentity | undefined =>
+            raw ? { parent: raw[0].toString(), name: dataToText(raw[1]) } : undefined);
+    }
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { EXPIRY_WARNING_ERAS, collectPayoutTargets, getEraPayoutStatus, getOldestClaimableEra } from './payouts';
+
+describe('getOldestClaimableEra', () => {
+    it('counts history depth from the current era', () => {
+        expect(getOldestClaimableEra(1000, 84)).toBe(916);
+        // the next election runs: CurrentEra is one ahead of the active era 1000, era 916 expired
+        expect(getOldestClaimableEra(1001, 84)).toBe(917);
+        expect(getOldestClaimableEra(10, 84)).toBe(0);
+    });
+});
+
+describe('getEraPayoutStatus', () => {
+    it('tells the pages apart and counts the eras left from the current era', () => {
+        const status = getEraPayoutStatus(920, 3, [1], 1001, 84);
+        expect(status.unclaimedPages).toEqual([0, 2]);
+        expect(status.state).toBe('partial');
+        expect(status.erasLeft).toBe(3);
+        expect(status.expiring).toBe(true);
+    });
+
+    it('has the last chance at 0 eras left', () => {
+        expect(getEraPayoutStatus(917, 1, [], 1001, 84).erasLeft).toBe(0);
+    });
+
+    it('does not warn about claimed eras or eras far from expiry', () => {
+        expect(getEraPayoutStatus(917, 2, [0, 1], 1001, 84)).toMatchObject({ state: 'claimed', expiring: false });
+        expect(getEraPayoutStatus(917 + EXPIRY_WARNING_ERAS, 1, [], 1001, 84)).toMatchObject({ state: 'unclaimed', expiring: false });
+    });
+});
+
+describe('collectPayoutTargets', () => {
+    it('lists the unpaid pages of the selection, oldest era first', () => {
+        const statusByValidator = {
+            A: { 950: getEraPayoutStatus(950, 2, [0], 1000, 84), 940: getEraPayoutStatus(940, 1, [], 1000, 84) },
+            B: { 945: getEraPayoutStatus(945, 2, [], 1000, 84) }
+        };
+        expect(collectPayoutTargets(statusByValidator, [
+            { validator: 'A', era: 950 }, { validator: 'B', era: 945 }, { validator: 'A', era: 940 }, { validator: 'C', era: 940 }
+        ])).toEqual([
+            { validator: 'A', era: 940, page: 0 },
+            { validator: 'B', era: 945, page: 0 },
+            { validator: 'B', era: 945, page: 1 },
+            { validator: 'A', era: 950, page: 1 }
+        ]);
+    });
+});
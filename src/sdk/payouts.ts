@@ -0,0 +1,79 @@
+/**
+ * payout status of a validators era rewards
+ *
+ * rewards are paid per exposure page with `payout_stakers_by_page`, the pages already paid are
+ * in Staking.ClaimedRewards. an era can only be paid out while it is within history depth,
+ * after that the rewards of unpaid pages are gone for good. the chain counts history depth from
+ * CurrentEra, which is one ahead of the active era while the next election runs.
+ */
+
+// eras before expiry from which an unpaid era is highlighted
+export const EXPIRY_WARNING_ERAS = 7;
+
+export type PayoutState = 'claimed' | 'partial' | 'unclaimed';
+
+export interface EraPayoutStatus {
+    era: number;
+    pageCount: number;
+    claimedPages: number[];
+    unclaimedPages: number[];
+    state: PayoutState;
+    erasLeft: number;     // eras until the era falls out of history depth, 0 = last chance
+    expiring: boolean;    // unpaid pages and less than EXPIRY_WARNING_ERAS eras left
+}
+
+/**
+ * oldest era that can still be paid out, the chain rejects `era < CurrentEra - historyDepth`
+ */
+export const getOldestClaimableEra = (currentEra: number, historyDepth: number): number =>
+    Math.max(0, currentEra - historyDepth);
+
+/**
+ * compare the claimed pages of an era with its page count
+ */
+export const getEraPayoutStatus = (
+    era: number,
+    pageCount: number,
+    claimedPages: number[],
+    currentEra: number,
+    historyDepth: number
+): EraPayoutStatus => {
+    const unclaimedPages = Array.from({ length: pageCount }, (_, page) => page)
+        .filter(page => !claimedPages.includes(page));
+
+    const state: PayoutState = unclaimedPages.length === 0
+        ? 'claimed'
+        : unclaimedPages.length < pageCount ? 'partial' : 'unclaimed';
+
+    const erasLeft = era - getOldestClaimableEra(currentEra, historyDepth);
+
+    return {
+        era,
+        pageCount,
+        claimedPages,
+        unclaimedPages,
+        state,
+        erasLeft,
+        expiring: state !== 'claimed' && erasLeft < EXPIRY_WARNING_ERAS
+    };
+};
+
+// one `payout_stakers_by_page` call
+export interface PayoutTarget {
+    validator: string;
+    era: number;
+    page: number;
+}
+
+/**
+ * payout calls for all unpaid pages of the selected validator eras
+ * oldest eras first, they are closest to expiry
+ */
+export const collectPayoutTargets = (
+    statusByValidator: Record<string, Record<number, EraPayoutStatus>>,
+    selection: { validator: string; era: number }[]
+): PayoutTarget[] =>
+    selection
+        .flatMap(({ validator, era }) => (statusByValidator[validator]?.[era]?.unclaimedPages || [])
+            .map(page => ({ validator, era, page })))
+        .sort((a, b) => a.era - b.era || a.page - b.page);
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { Voter, buildElectionVoters, runElection } from './phragmen';
+
+const backingOf = (voters: Voter[], candidates: string[], seats: number, balancingIterations?: number) =>
+    Object.fromEntries(runElection({ candidates, voters, seats, balancingIterations }).elected.map(e => [e.address, e.backing]));
+
+/**
+ * worked by hand:
+ * approvals A 30, B 40, C 20. round 1 elects B (score 1/40), x and z carry load 1/40.
+ * round 2: A scores 1/30 + 10 · (1/40) / 30 = 1/24, C 1/20, A is elected.
+ * x splits 10 by load: 6 to B, 4 to A, so A 24 and B 36 before balancing.
+ * balancing moves all of x to A: both end at 30.
+ */
+const VOTERS: Voter[] = [
+    { address: 'x', stake: 10n, targets: ['A', 'B'] },
+    { address: 'y', stake: 20n, targets: ['A', 'C'] },
+    { address: 'z', stake: 30n, targets: ['B'] }
+];
+
+describe('runElection', () => {
+    it('elects the hand computed winners with their backing', () => {
+        expect(runElection({ candidates: ['A', 'B', 'C'], voters: VOTERS, seats: 2 }).elected).toEqual([
+            { address: 'B', backing: 30n },
+            { address: 'A', backing: 30n }
+        ]);
+    });
+
+    it('splits by load without balancing', () => {
+        expect(backingOf(VOTERS, ['A', 'B', 'C'], 2, 0)).toEqual({ A: 24n, B: 36n });
+    });
+
+    it('converges when balancing more often', () => {
+        // voters over a ring of targets, balancing passes stake around a few times until all four are level
+        const candidates = ['A', 'B', 'C', 'D', 'E'];
+        const voters: Voter[] = [
+            { address: 'v1', stake: 1000n, targets: ['A', 'B'] },
+            { address: 'v2', stake: 700n, targets: ['B', 'C'] },
+            { address: 'v3', stake: 300n, targets: ['C', 'D'] },
+            { address: 'v4', stake: 900n, targets: ['D', 'A'] },
+            { address: 'v5', stake: 500n, targets: ['A', 'C', 'E'] },
+            { address: 'v6', stake: 200n, targets: ['E'] }
+        ];
+        const spread = (iterations: number) => {
+            const values = Object.values(backingOf(voters, candidates, 4, iterations)).map(Number);
+            return Math.max(...values) - Math.min(...values);
+        };
+
+        const spreads = [0, 1, 2, 3, 5].map(spread);
+        spreads.slice(1).forEach((value, i) => expect(value).toBeLessThan(spreads[i]));
+
+        // 3400 of the stake reaches the elected four, E (only backed by v5 and v6) stays out
+        expect(backingOf(voters, candidates, 4)).toEqual({ A: 850n, B: 850n, C: 850n, D: 850n });
+        expect(backingOf(voters, candidates, 4, 50)).toEqual(backingOf(voters, candidates, 4));
+    });
+
+    it('counts a target listed twice once', () => {
+        expect(backingOf([{ address: 'x', stake: 10n, targets: ['A', 'A'] }], ['A'], 1)).toEqual({ A: 10n });
+    });
+
+    it('ignores voters without stake or without a candidate among their targets', () => {
+        const voters: Voter[] = [
+            { address: 'x', stake: 10n, targets: ['A'] },
+            { address: 'broke', stake: 0n, targets: ['B'] },
+            { address: 'lost', stake: 50n, targets: ['Z'] },
+            { address: 'none', stake: 50n, targets: [] }
+        ];
+        expect(runElection({ candidates: ['A', 'B'], voters, seats: 2 }).elected).toEqual([{ address: 'A', backing: 10n }]);
+    });
+
+    it('elects every backed candidate when there are more seats than candidates', () => {
+        // B keeps z's 30, x and y level A and C at 15 each
+        expect(backingOf(VOTERS, ['A', 'B', 'C'], 10)).toEqual({ A: 15n, B: 30n, C: 15n });
+        expect(runElection({ candidates: [], voters: VOTERS, seats: 3 }).elected).toEqual([]);
+    });
+});
+
+describe('buildElectionVoters', () => {
+    it('lets candidates vote for themselves with their own bond', () => {
+        expect(buildElectionVoters(['A'], [{ nominator: 'n', targets: ['A', 'B'], submittedIn: 1 }], { A: 5n, n: 7n })).toEqual([
+            { address: 'A', stake: 5n, targets: ['A'] },
+            { address: 'n', stake: 7n, targets: ['A', 'B'] }
+        ]);
+    });
+
+    it('gives voters without a bond no stake', () => {
+        expect(buildElectionVoters([], [{ nominator: 'n', targets: ['A'], submittedIn: 1 }], {})[0].stake).toBe(0n);
+    });
+});
@@ -0,0 +1,185 @@
+import { Nomination } from './types';
+
+/**
+ * sequential phragmén with balancing, the election the staking miner runs (sp-npos-elections)
+ *
+ * works on floats instead of the runtime's rationals, good enough to predict the winners and their
+ * backing but not bit exact. every voter with a bond takes part, the runtime only snapshots the top
+ * voters of the bags list, so stake of the smallest nominators may end up somewhere else on chain.
+ */
+
+export interface Voter {
+    address: string;
+    stake: bigint;
+    targets: string[];
+}
+
+export interface ElectionInput {
+    candidates: string[];
+    voters: Voter[];
+    seats: number;
+    balancingIterations?: number;
+}
+
+export interface ElectedValidator {
+    address: string;
+    backing: bigint;       // stake assigned to it after balancing, own stake included
+}
+
+export interface ElectionResult {
+    elected: ElectedValidator[];   // most backing first
+}
+
+// the runtime miner balances with 10 iterations and no tolerance
+export const DEFAULT_BALANCING_ITERATIONS = 10;
+
+/**
+ * voters of the election: every bonded nominator and every candidate voting for itself with its own bond
+ */
+export const buildElectionVoters = (
+    candidates: string[],
+    nominations: Nomination[],
+    bonded: Record<string, bigint>
+): Voter[] => [
+    ...candidates.map(address => ({ address, stake: bonded[address] || 0n, targets: [address] })),
+    ...nominations.map(({ nominator, targets }) => ({ address: nominator, stake: bonded[nominator] || 0n, targets }))
+];
+
+export const runElection = ({
+    candidates,
+    voters,
+    seats,
+    balancingIterations = DEFAULT_BALANCING_ITERATIONS
+}: ElectionInput): ElectionResult => {
+    const candidateIndex = new Map(candidates.map((address, i) => [address, i]));
+
+    // edges of all voters in flat arrays, voter v owns edges edgeStart[v] until edgeStart[v + 1]
+    const budgets: number[] = [];
+    const edgeStart: number[] = [0];
+    const edgeTarget: number[] = [];
+    voters.forEach(voter => {
+        if (voter.stake === 0n) return;
+        const targets = [...new Set(voter.targets)]
+            .map(target => candidateIndex.get(target))
+            .filter((index): index is number => index !== undefined);
+        if (targets.length === 0) return;
+        budgets.push(Number(voter.stake));
+        edgeTarget.push(...targets);
+        edgeStart.push(edgeTarget.length);
+    });
+    const voterCount = budgets.length;
+
+    const approval = new Float64Array(candidates.length);
+    for (let v = 0; v < voterCount; v++) {
+        for (let e = edgeStart[v]; e < edgeStart[v + 1]; e++) approval[edgeTarget[e]] += budgets[v];
+    }
+
+    // seq-phragmén: elect the candidate with the lowest score, the load it would put on its voters
+    const elected = new Uint8Array(candidates.length);
+    const score = new Float64Array(candidates.length);
+    const voterLoad = new Float64Array(voterCount);
+    const edgeLoad = new Float64Array(edgeTarget.length);
+    const winners: number[] = [];
+
+    for (let round = 0; round < seats; round++) {
+        for (let c = 0; c < candidates.length; c++) {
+            if (!elected[c] && approval[c] > 0) score[c] = 1 / approval[c];
+        }
+        for (let v = 0; v < voterCount; v++) {
+            if (voterLoad[v] === 0) continue;
+            for (let e = edgeStart[v]; e < edgeStart[v + 1]; e++) {
+                const c = edgeTarget[e];
+                if (!elected[c] && approval[c] > 0) score[c] += budgets[v] * voterLoad[v] / approval[c];
+            }
+        }
+
+        let winner = -1;
+        for (let c = 0; c < candidates.length; c++) {
+            if (!elected[c] && approval[c] > 0 && (winner === -1 || score[c] < score[winner])) winner = c;
+        }
+        if (winner === -1) break;
+
+        elected[winner] = 1;
+        winners.push(winner);
+        for (let v = 0; v < voterCount; v++) {
+            for (let e = edgeStart[v]; e < edgeStart[v + 1]; e++) {
+                if (edgeTarget[e] !== winner) continue;
+                edgeLoad[e] = score[winner] - voterLoad[v];
+                voterLoad[v] = score[winner];
+            }
+        }
+    }
+
+    // split every voter's budget over its elected targets by load
+    const weight = new Float64Array(edgeTarget.length);
+    const backed = new Float64Array(candidates.length);
+    for (let v = 0; v < voterCount; v++) {
+        if (voterLoad[v] === 0) continue;
+        for (let e = edgeStart[v]; e < edgeStart[v + 1]; e++) {
+            if (!elected[edgeTarget[e]]) continue;
+            weight[e] = budgets[v] * edgeLoad[e] / voterLoad[v];
+            backed[edgeTarget[e]] += weight[e];
+        }
+    }
+
+    /**
+     * move a voter's stake towards its least backed elected targets
+     * returns how unbalanced the voter was before
+     */
+    const balanceVoter = (v: number): number => {
+        const edges: number[] = [];
+        for (let e = edgeStart[v]; e < edgeStart[v + 1]; e++) {
+            if (elected[edgeTarget[e]]) edges.push(e);
+        }
+        if (edges.length <= 1) return 0;
+
+        let stakeUsed = 0;
+        let maxBacking = -Infinity;
+        let minBacked = Infinity;
+        edges.forEach(e => {
+            stakeUsed += weight[e];
+            if (weight[e] > 0) maxBacking = Math.max(maxBacking, backed[edgeTarget[e]]);
+            minBacked = Math.min(minBacked, backed[edgeTarget[e]]);
+        });
+        const difference = maxBacking === -Infinity
+            ? budgets[v]
+            : maxBacking - minBacked + budgets[v] - stakeUsed;
+
+        edges.forEach(e => {
+            backed[edgeTarget[e]] -= weight[e];
+            weight[e] = 0;
+        });
+        edges.sort((a, b) => backed[edgeTarget[a]] - backed[edgeTarget[b]]);
+
+        // fill up the least backed targets to the same level until the budget runs out
+        let cumulative = 0;
+        let lastIndex = edges.length - 1;
+        for (let i = 0; i < edges.length; i++) {
+            const stake = backed[edgeTarget[edges[i]]];
+            if (stake * i - cumulative > budgets[v]) {
+                lastIndex = i - 1;
+                break;
+            }
+            cumulative += stake;
+        }
+        const level = (budgets[v] + cumulative) / (lastIndex + 1);
+        for (let i = 0; i <= lastIndex; i++) {
+            const c = edgeTarget[edges[i]];
+            weight[edges[i]] = level - backed[c];
+            backed[c] += weight[edges[i]];
+        }
+        return difference;
+    };
+
+    for (let iteration = 0; iteration < balancingIterations; iteration++) {
+        let maxDifference = 0;
+        for (let v = 0; v < voterCount; v++) maxDifference = Math.max(maxDifference, balanceVoter(v));
+        if (maxDifference <= 0) break;
+    }
+
+    return {
+        elected: winners
+            .map(c => ({ address: candidates[c], backing: BigInt(Math.round(backed[c])) }))
+            .sort((a, b) => (b.backing > a.backing ? 1 : b.backing < a.backing ? -1 : 0))
+    };
+};
@@ -0,0 +1,136 @@
+import { describe, expect, it, vi } from 'vitest';
+import { RequestPriority, createRequestScheduler, isAbortError } from './scheduler';
+
+// a promise the test settles by hand
+const deferred = <T = void>() => {
+    let resolve!: (value: T) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<T>((res, rej) => {
+        resolve = res;
+        reject = rej;
+    });
+    return { promise, resolve, reject };
+};
+
+// tasks start in a microtask, let them
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createRequestScheduler', () => {
+    it('runs at most `concurrency` tasks and starts the next when one finishes', async () => {
+        const scheduler = createRequestScheduler(2);
+        const started: string[] = [];
+        const tasks = ['a', 'b', 'c', 'd'].map(name => {
+            const gate = deferred<string>();
+            const result = scheduler.schedule(RequestPriority.visible, () => {
+                started.push(name);
+                return gate.promise;
+            });
+            return { gate, result };
+        });
+
+        await flush();
+        expect(started).toEqual(['a', 'b']);
+        expect([scheduler.running, scheduler.queued]).toEqual([2, 2]);
+
+        tasks[1].gate.resolve('b done');
+        expect(await tasks[1].result).toBe('b done');
+        await flush();
+        expect(started).toEqual(['a', 'b', 'c']);
+        expect([scheduler.running, scheduler.queued]).toEqual([2, 1]);
+    });
+
+    it('starts queued tasks by priority, in call order within a priority', async () => {
+        const scheduler = createRequestScheduler(1);
+        const blocker = deferred();
+        const started: string[] = [];
+        scheduler.schedule(RequestPriority.visible, () => blocker.promise);
+
+        const results = ([
+            ['prefetch', RequestPriority.background],
+            ['page 1', RequestPriority.visible],
+            ['history', RequestPriority.history],
+            ['page 2', RequestPriority.visible]
+        ] as const).map(([name, priority]) => scheduler.schedule(priority, async () => {
+            started.push(name);
+        }));
+
+        blocker.resolve();
+        await Promise.all(results);
+        expect(started).toEqual(['page 1', 'page 2', 'history', 'prefetch']);
+    });
+
+    it('drops an aborted queued task, it rejects and never runs', async () => {
+        const scheduler = createRequestScheduler(1);
+        const blocker = deferred();
+        scheduler.schedule(RequestPriority.visible, () => blocker.promise);
+
+        const controller = new AbortController();
+        const task = vi.fn(async () => 'stale');
+        const result = scheduler.schedule(RequestPriority.visible, task, controller.signal);
+        expect(scheduler.queued).toBe(1);
+
+        controller.abort();
+        const error = await result.catch(error => error);
+        expect(isAbortError(error)).toBe(true);
+        expect(scheduler.queued).toBe(0);
+
+        blocker.resolve();
+        await flush();
+        expect(task).not.toHaveBeenCalled();
+    });
+
+    it('rejects an aborted running task right away and frees its slot once it finishes', async () => {
+        const scheduler = createRequestScheduler(1);
+        const controller = new AbortController();
+        const gate = deferred<string>();
+        const result = scheduler.schedule(RequestPriority.visible, () => gate.promise, controller.signal);
+        const next = vi.fn(async () => 'next');
+        const nextResult = scheduler.schedule(RequestPriority.visible, next);
+
+        await flush();
+        controller.abort();
+        expect(isAbortError(await result.catch(error => error))).toBe(true);
+
+        // the query is still out, its slot stays taken
+        await flush();
+        expect(scheduler.running).toBe(1);
+        expect(next).not.toHaveBeenCalled();
+
+        // the late result goes nowhere
+        gate.resolve('superseded');
+        expect(await nextResult).toBe('next');
+        await flush();
+        expect(scheduler.running).toBe(0);
+    });
+
+    it('never starts a task whose signal is already aborted', async () => {
+        const scheduler = createRequestScheduler(1);
+        const controller = new AbortController();
+        controller.abort();
+        const task = vi.fn(async () => 'stale');
+
+        expect(isAbortError(await scheduler.schedule(RequestPriority.visible, task, controller.signal).catch(error => error))).toBe(true);
+        await flush();
+        expect(task).not.toHaveBeenCalled();
+        expect([scheduler.running, scheduler.queued]).toEqual([0, 0]);
+    });
+
+    it('passes a failing task on and keeps going', async () => {
+        const scheduler = createRequestScheduler(1);
+        const failing = scheduler.schedule(RequestPriority.visible, async () => {
+            throw new Error('rpc down');
+        });
+        const after = scheduler.schedule(RequestPriority.visible, async () => 'ok');
+
+        await expect(failing).rejects.toThrow('rpc down');
+        expect(await after).toBe('ok');
+    });
+});
+
+describe('isAbortError', () => {
+    it('only matches cancelled requests', () => {
+        expect(isAbortError(new DOMException('cancelled', 'AbortError'))).toBe(true);
+        expect(isAbortError(new Error('AbortError'))).toBe(false);
+        expect(isAbortError(undefined)).toBe(false);
+    });
+});
@@ -0,0 +1,102 @@
+/**
+ * priority queue for chain queries
+ *
+ * at most `concurrency` tasks run at the same time, queued tasks are started by priority
+ * (lowest number first) and in call order within the same priority. a task can be cancelled
+ * with an AbortSignal: queued tasks are dropped, running tasks reject right away and their
+ * result is thrown away once the underlying query finishes.
+ */
+
+// lower number = more important
+export const RequestPriority = {
+    visible: 0,     // page the user is looking at
+    history: 1,     // history of the selected validator
+    background: 2   // prefetching, APY calc for all validators
+} as const;
+
+export type RequestPriority = typeof RequestPriority[keyof typeof RequestPriority];
+
+export interface RequestScheduler {
+    schedule: <T>(priority: RequestPriority, task: () => Promise<T>, signal?: AbortSignal) => Promise<T>;
+    readonly running: number;
+    readonly queued: number;
+}
+
+interface QueuedTask {
+    priority: RequestPriority;
+    start: () => void;
+}
+
+// error used to reject cancelled tasks
+const abortError = (signal: AbortSignal): unknown =>
+    signal.reason ?? new DOMException('request was cancelled', 'AbortError');
+
+/**
+ * true if the error comes from a cancelled request
+ * callers use this to silently drop superseded results instead of showing an error
+ */
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof DOMException && error.name === 'AbortError';
+
+export const createRequestScheduler = (concurrency = 8): RequestScheduler => {
+    const queue: QueuedTask[] = [];
+    let running = 0;
+
+    // start queued tasks while there are free slots
+    const next = () => {
+        while (running < concurrency && queue.length > 0) {
+            queue.shift()?.start();
+        }
+    };
+
+    const enqueue = (task: QueuedTask) => {
+        // insert behind all tasks of the same or higher priority
+        const index = queue.findIndex(queued => queued.priority > task.priority);
+        if (index === -1) queue.push(task);
+        else queue.splice(index, 0, task);
+    };
+
+    const schedule = <T>(priority: RequestPriority, task: () => Promise<T>, signal?: AbortSignal): Promise<T> =>
+        new Promise<T>((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(abortError(signal));
+                return;
+            }
+
+            const queued: QueuedTask = {
+                priority,
+                start: () => {
+                    running++;
+                    Promise.resolve()
+                        .then(task)
+                        .then(resolve, reject)  // no-op if the caller already got the abort
+                        .finally(() => {
+                            running--;
+                            signal?.removeEventListener('abort', onAbort);
+                            next();
+                        });
+                }
+            };
+
+            const onAbort = () => {
+                // still queued: drop it, running: the slot is freed once the query finishes
+                const index = queue.indexOf(queued);
+                if (index !== -1) queue.splice(index, 1);
+                reject(abortError(signal as AbortSignal));
+            };
+
+            signal?.addEventListener('abort', onAbort, { once: true });
+            enqueue(queued);
+            next();
+        });
+
+    return {
+        schedule,
+        get running() {
+            return running;
+        },
+        get queued() {
+            return queue.length;
+        }
+    };
+};
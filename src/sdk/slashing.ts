@@ -0,0 +1,58 @@
+import { UnappliedSlash, ValidatorSlash } from './types';
+
+/**
+ * slashing risk of a validator
+ *
+ * slashes are recorded per offence era in ValidatorSlashInEra. most of them are deferred: they sit in
+ * UnappliedSlashes until the apply era, governance can still cancel them until then. offence reports
+ * carry no era, they only tell that someone reported the validator. the chain drops all of this once
+ * the era is out of the bonding duration, older slashes can not be seen here.
+ */
+export interface SlashingHistory {
+    slashes: Array<{ era: number; fraction: number; amount: bigint }>;  // by offence era, newest first
+    pending: Array<{ applyEra: number; own: bigint; others: bigint }>;  // not applied yet
+    offenceReports: number;
+}
+
+// worst first: pending slash, slashed before, only reported, nothing known
+export type SlashRisk = 'pending' | 'slashed' | 'reported' | 'none';
+
+export const EMPTY_SLASHING_HISTORY: SlashingHistory = { slashes: [], pending: [], offenceReports: 0 };
+
+/**
+ * group slashes, unapplied slashes and offence reports by validator
+ * validators without any record are left out
+ */
+export const buildSlashingHistories = (
+    slashes: ValidatorSlash[],
+    unapplied: UnappliedSlash[],
+    offenceReportCounts: Record<string, number>
+): Record<string, SlashingHistory> => {
+    const histories: Record<string, SlashingHistory> = {};
+    const historyOf = (validator: string) => {
+        histories[validator] ??= { slashes: [], pending: [], offenceReports: 0 };
+        return histories[validator];
+    };
+
+    slashes.forEach(({ validator, era, fraction, amount }) => historyOf(validator).slashes.push({ era, fraction, amount }));
+    unapplied.forEach(({ validator, applyEra, own, others }) => historyOf(validator).pending.push({ applyEra, own, others }));
+    Object.entries(offenceReportCounts).forEach(([validator, count]) => {
+        historyOf(validator).offenceReports = count;
+    });
+
+    Object.values(histories).forEach(history => history.slashes.sort((a, b) => b.era - a.era));
+    return histories;
+};
+
+export const getSlashRisk = (history: SlashingHistory): SlashRisk => {
+    if (history.pending.length > 0) return 'pending';
+    if (history.slashes.length > 0) return 'slashed';
+    if (history.offenceReports > 0) return 'reported';
+    return 'none';
+};
+
+/**
+ * slashed in one of the last `eras` eras (counting back from the active era) or about to be
+ */
+export const isSlashedWithin = (history: SlashingHistory, activeEra: number, eras: number): boolean =>
+    history.pending.length > 0 || history.slashes.some(slash => slash.era >= activeEra - eras);
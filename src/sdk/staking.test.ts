@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import {
+    PERBILL,
+    annualizeEraReturn,
+    calculateEraReturn,
+    calculateRewardShare,
+    calculateStakerPayout,
+    calculateValidatorEraPayout,
+    perbillFromRational,
+    perbillMul,
+    perbillToRatio,
+    ratioToNumber,
+    ratioToPerbill,
+    rescaleReturn
+} from './staking';
+
+const DOT = 10_000_000_000n;
+
+describe('Perbill conversion', () => {
+    it('round trips ratios and clamps to 0-100%', () => {
+        expect(ratioToPerbill(perbillToRatio(123_456_789))).toBe(123_456_789);
+        expect(ratioToPerbill(perbillToRatio(1))).toBe(1);
+        expect(ratioToPerbill(-0.1)).toBe(0);
+        expect(ratioToPerbill(1.2)).toBe(PERBILL);
+    });
+
+    it('rounds a ratio to the nearest part', () => {
+        expect(ratioToPerbill(0.4e-9)).toBe(0);
+        expect(ratioToPerbill(0.6e-9)).toBe(1);
+    });
+});
+
+describe('perbillFromRational', () => {
+    it('rounds down', () => {
+        expect(perbillFromRational(1n, 3n)).toBe(333_333_333n);
+        expect(perbillFromRational(2n, 3n)).toBe(666_666_666n);
+    });
+
+    it('saturates at 100% and is 0 for nothing out of nothing', () => {
+        expect(perbillFromRational(5n, 3n)).toBe(BigInt(PERBILL));
+        expect(perbillFromRational(0n, 3n)).toBe(0n);
+        expect(perbillFromRational(1n, 0n)).toBe(0n);
+    });
+});
+
+describe('perbillMul', () => {
+    it('rounds to the nearest value and down on a tie', () => {
+        const half = 500_000_000n;
+        expect(perbillMul(half, 3n)).toBe(1n);
+        expect(perbillMul(half, 5n)).toBe(2n);
+        expect(perbillMul(half + 1n, 3n)).toBe(2n);
+        expect(perbillMul(half - 1n, 3n)).toBe(1n);
+    });
+
+    it('keeps the full value at 100% and nothing at 0%', () => {
+        expect(perbillMul(BigInt(PERBILL), 123n * DOT)).toBe(123n * DOT);
+        expect(perbillMul(0n, 123n * DOT)).toBe(0n);
+    });
+});
+
+describe('era payout', () => {
+    it('shares the era reward by points with the runtime rounding', () => {
+        // Perbill::from_rational(1, 3) = 333_333_333, times 1000 DOT
+        expect(calculateRewardShare(1000n * DOT, 1, 3)).toBe(333_333_333n * 10_000n);
+    });
+
+    it('pays nothing without reward or points', () => {
+        expect(calculateRewardShare(0n, 1, 3)).toBe(0n);
+        expect(calculateRewardShare(1000n * DOT, 0, 3)).toBe(0n);
+        expect(calculateRewardShare(1000n * DOT, 1, 0)).toBe(0n);
+    });
+
+    it('takes the commission off the validators share', () => {
+        const payout = calculateValidatorEraPayout(1000n * DOT, 1, 4, 100_000_000);
+        expect(payout).toEqual({ totalPayout: 250n * DOT, commissionPayout: 25n * DOT, stakersPayout: 225n * DOT });
+        expect(calculateValidatorEraPayout(1000n * DOT, 1, 4, 0).stakersPayout).toBe(250n * DOT);
+        expect(calculateValidatorEraPayout(1000n * DOT, 1, 4, PERBILL).stakersPayout).toBe(0n);
+    });
+
+    it('splits the stakers payout by stake', () => {
+        expect(calculateStakerPayout(90n * DOT, 1n, 3n)).toBe(299_999_999_700n);
+        expect(calculateStakerPayout(90n * DOT, 3n, 3n)).toBe(90n * DOT);
+    });
+
+    it('pays a zero stake nothing', () => {
+        expect(calculateStakerPayout(90n * DOT, 0n, 3n)).toBe(0n);
+        expect(calculateStakerPayout(90n * DOT, 1n, 0n)).toBe(0n);
+    });
+});
+
+describe('annualized returns', () => {
+    it('multiplies the era return for the APR and compounds it for the APY', () => {
+        const { apr, apy } = annualizeEraReturn(0.0004, 365);
+        expect(apr).toBeCloseTo(14.6, 10);
+        expect(apy).toBeCloseTo((Math.pow(1.0004, 365) - 1) * 100, 10);
+        expect(apy).toBeGreaterThan(apr);
+    });
+
+    it('is 0 without eras per year or return', () => {
+        expect(annualizeEraReturn(0.0004, 0)).toEqual({ apr: 0, apy: 0 });
+        expect(annualizeEraReturn(0, 365)).toEqual({ apr: 0, apy: 0 });
+    });
+
+    it('annualizes the stakers payout over the total stake', () => {
+        // 225 DOT for the stakers of 1_000_000 DOT, one era a day
+        const { apr } = calculateEraReturn({
+            eraReward: 1000n * DOT, validatorPoints: 1, totalPoints: 4, commission: 100_000_000, totalStake: 1_000_000n * DOT, erasPerYear: 365
+        });
+        expect(apr).toBeCloseTo(225 / 1_000_000 * 365 * 100, 10);
+    });
+
+    it('has no return for a validator without stake or points', () => {
+        const input = { eraReward: 1000n * DOT, validatorPoints: 1, totalPoints: 4, commission: 0, totalStake: 1000n * DOT, erasPerYear: 365 };
+        expect(calculateEraReturn({ ...input, totalStake: 0n })).toEqual({ apr: 0, apy: 0 });
+        expect(calculateEraReturn({ ...input, validatorPoints: 0 })).toEqual({ apr: 0, apy: 0 });
+    });
+
+    it('spreads the same payout over a different stake', () => {
+        expect(rescaleReturn(10, 365, 100n * DOT, 200n * DOT).apr).toBeCloseTo(5, 10);
+        expect(rescaleReturn(10, 365, 100n * DOT, 0n)).toEqual({ apr: 0, apy: 0 });
+        expect(rescaleReturn(10, 0, 100n * DOT, 200n * DOT)).toEqual({ apr: 0, apy: 0 });
+    });
+
+    it('turns a bigint ratio into a float, 0 for a zero denominator', () => {
+        expect(ratioToNumber(1n, 4n)).toBe(0.25);
+        expect(ratioToNumber(1n, 0n)).toBe(0);
+    });
+});
@@ -0,0 +1,227 @@
+import { EraPoints } from './types';
+
+// Perbill is the chains fixed point type for ratios, 1_000_000_000 = 100%
+export const PERBILL = 1_000_000_000;
+
+const PERBILL_BIG = BigInt(PERBILL);
+
+// precision used when turning an exact bigint ratio into a float
+const RATIO_PRECISION = 10n ** 18n;
+
+/**
+ * parse the raw `individual` list of an ErasRewardPoints entry into a address → points map
+ * the chain returns it as an array of [address, points] tuples
+ */
+export const parseIndividualPoints = (individual: unknown): Record<string, number> => {
+    const pointsMap: Record<string, number> = {};
+    if (!Array.isArray(individual)) return pointsMap;
+
+    individual.forEach(entry => {
+        if (Array.isArray(entry) && entry.length === 2) {
+            const [address, points] = entry;
+            pointsMap[address.toString()] = Number(points);
+        }
+    });
+
+    return pointsMap;
+};
+
+/**
+ * convert a Perbill value to a 0-1 ratio
+ */
+export const perbillToRatio = (perbill: number | bigint): number => {
+    return Number(perbill) / PERBILL;
+};
+
+/**
+ * convert a 0-1 ratio back to Perbill parts
+ * exact for ratios that came from perbillToRatio
+ */
+export const ratioToPerbill = (ratio: number): number => {
+    return Math.min(PERBILL, Math.max(0, Math.round(ratio * PERBILL)));
+};
+
+/**
+ * Perbill::from_rational(part, whole) of the runtime, rounds down and saturates at 100%
+ * @returns Perbill parts
+ */
+export const perbillFromRational = (part: bigint, whole: bigint): bigint => {
+    if (whole <= 0n || part <= 0n) return 0n;
+    if (part >= whole) return PERBILL_BIG;
+    return (part * PERBILL_BIG) / whole;
+};
+
+/**
+ * Perbill * balance of the runtime, rounds to the nearest value and down on a tie
+ */
+export const perbillMul = (perbill: bigint, value: bigint): bigint => {
+    const product = value * perbill;
+    const result = product / PERBILL_BIG;
+    const remainder = product % PERBILL_BIG;
+    return remainder * 2n > PERBILL_BIG ? result + 1n : result;
+};
+
+/**
+ * exact numerator / denominator as a float, the only place reward math leaves bigint
+ */
+export const ratioToNumber = (numerator: bigint, denominator: bigint): number => {
+    if (denominator === 0n) return 0;
+    return Number((numerator * RATIO_PRECISION) / denominator) / Number(RATIO_PRECISION);
+};
+
+/**
+ * validators share of the total era reward based on the points it earned
+ * same rounding as `payout_stakers`: Perbill::from_rational(points, total) * era reward
+ *
+ * @param eraReward - total reward paid out for the era (plancks)
+ * @param validatorPoints - points the validator earned in the era
+ * @param totalPoints - points earned by all validators in the era
+ * @returns reward share in plancks (validator + nominators, before commission)
+ */
+export const calculateRewardShare = (eraReward: bigint, validatorPoints: number, totalPoints: number): bigint => {
+    if (eraReward <= 0n || validatorPoints <= 0 || totalPoints <= 0) return 0n;
+
+    const pointsPart = perbillFromRational(BigInt(validatorPoints), BigInt(totalPoints));
+    return perbillMul(pointsPart, eraReward);
+};
+
+// how a validators era reward is split, all in plancks
+export interface ValidatorEraPayout {
+    totalPayout: bigint;       // validators share of the era reward
+    commissionPayout: bigint;  // commission cut, goes to the validator
+    stakersPayout: bigint;     // rest, split between own stake and nominators by stake
+}
+
+/**
+ * split a validators era reward like the runtime does
+ *
+ * @param commission - commission in Perbill parts
+ */
+export const calculateValidatorEraPayout = (eraReward: bigint, validatorPoints: number, totalPoints: number, commission: number): ValidatorEraPayout => {
+    const totalPayout = calculateRewardShare(eraReward, validatorPoints, totalPoints);
+    const commissionPayout = perbillMul(BigInt(commission), totalPayout);
+    return {
+        totalPayout,
+        commissionPayout,
+        stakersPayout: totalPayout - commissionPayout
+    };
+};
+
+/**
+ * payout of one staker (nominator or the validators own stake) from the stakers payout
+ * Perbill::from_rational(stake, total) * stakers payout, like the runtime
+ */
+export const calculateStakerPayout = (stakersPayout: bigint, stake: bigint, totalStake: bigint): bigint => {
+    return perbillMul(perbillFromRational(stake, totalStake), stakersPayout);
+};
+
+/**
+ * validator reward share for an era looked up from the era points
+ */
+export const getValidatorRewardShare = (eraReward: bigint | undefined, eraPoints: EraPoints | null | undefined, address: string): bigint => {
+    if (!eraReward || !eraPoints) return 0n;
+    return calculateRewardShare(eraReward, eraPoints.individual[address] || 0, eraPoints.total);
+};
+
+export interface EraReturnInput {
+    eraReward: bigint;        // total reward of the era
+    validatorPoints: number;  // points of the validator in that era
+    totalPoints: number;      // points of all validators in that era
+    commission: number;       // commission in Perbill parts
+    totalStake: bigint;       // total backing stake of the validator in that era
+    erasPerYear: number;      // from the networks era length, see eraTiming.ts
+}
+
+// annualized return of an era in %
+export interface AnnualizedReturn {
+    apr: number;  // simple: era return × eras per year
+    apy: number;  // compounded every era, assumes rewards are restaked
+}
+
+/**
+ * annualize the return rate of a single era (0.0004 = 0.04%)
+ */
+export const annualizeEraReturn = (eraReturnRate: number, erasPerYear: number): AnnualizedReturn => ({
+    apr: eraReturnRate * erasPerYear * 100,
+    apy: (Math.pow(1 + eraReturnRate, erasPerYear) - 1) * 100
+});
+
+/**
+ * calc the annualized return nominators of a validator got for one era
+ *
+ * formula:
+ * 1. calculate validators share of era rewards based on points (exact, Perbill rounding)
+ * 2. remove commission (exact, Perbill rounding)
+ * 3. calc return rate for the era: stakers payout / total stake, the first float
+ * 4. annualize with the eras per year of the network, simple (APR) and compounded (APY)
+ */
+export const calculateEraReturn = ({ eraReward, validatorPoints, totalPoints, commission, totalStake, erasPerYear }: EraReturnInput): AnnualizedReturn => {
+    if (validatorPoints <= 0 || totalPoints <= 0 || totalStake <= 0n) return { apr: 0, apy: 0 };
+
+    const { stakersPayout } = calculateValidatorEraPayout(eraReward, validatorPoints, totalPoints, commission);
+    return annualizeEraReturn(ratioToNumber(stakersPayout, totalStake), erasPerYear);
+};
+
+/**
+ * annualized return when the same stakers payout is spread over a different stake,
+ * e.g. the backing the validator is predicted to get next era
+ */
+export const rescaleReturn = (apr: number, erasPerYear: number, stake: bigint, nextStake: bigint): AnnualizedReturn => {
+    if (apr <= 0 || erasPerYear <= 0 || stake <= 0n || nextStake <= 0n) return { apr: 0, apy: 0 };
+    return annualizeEraReturn(apr / 100 / erasPerYear * ratioToNumber(stake, nextStake), erasPerYear);
+};
+
+/**
+ * plain average, 0 for empty lists
+ */
+export const average = (values: number[]): number => {
+    if (values.length === 0) return 0;
+    return values.reduce((sum, val) => sum + val, 0) / values.length;
+};
+
+export interface HistoryAverages {
+    averagePoints: number;
+    averageCommission: number;
+    averageAPY: number;
+    activeOnlyAverageAPY: number;
+}
+
+/**
+ * calcs average performance metrics over a list of eras
+ * points and commission only count eras the validator was active in (had points),
+ * APY is averaged over all eras with data and over active (APY > 0) eras only
+ *
+ * @param fallbackCommission - used when there is no historical commission data
+ */
+export const calculateHistoryAverages = (
+    eras: number[],
+    pointsByEra: Record<number, number>,
+    commissionByEra: Record<number, number>,
+    apyByEra: Record<number, number>,
+    fallbackCommission: number
+): HistoryAverages => {
+    const points: number[] = [];
+    const commissions: number[] = [];
+    const apys: number[] = [];
+
+    eras.forEach(era => {
+        if (pointsByEra[era] > 0) {
+            points.push(pointsByEra[era]);
+
+            if (commissionByEra[era] !== undefined) {
+                commissions.push(commissionByEra[era]);
+            }
+        }
+
+        if (apyByEra[era] !== undefined) {
+            apys.push(apyByEra[era]);
+        }
+    });
+
+    return {
+        averagePoints: average(points),
+        averageCommission: commissions.length > 0 ? average(commissions) : fallbackCommission,
+        averageAPY: average(apys),
+        activeOnlyAverageAPY: average(apys.filter(apy => apy > 0))
+    };
+};
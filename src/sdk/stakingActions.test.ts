@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { StakingActionContext, projectLedger, validateStakingAction } from './stakingActions';
+import { StakingLedger } from './types';
+
+const STASH = 'stash';
+const ACTIVE_ERA = 100;
+
+const LIMITS = { minNominatorBond: 250n, maxNominations: 16, bondingDuration: 28, maxUnlockingChunks: 3 };
+
+const ledger = (overrides: Partial<StakingLedger> = {}): StakingLedger =>
+    ({ stash: STASH, total: 1000n, active: 1000n, unlocking: [], ...overrides });
+
+const context = (overrides: Partial<StakingActionContext> = {}): StakingActionContext => ({
+    ledger: ledger(),
+    nomination: { nominator: STASH, targets: ['v1'], submittedIn: 90 },
+    limits: LIMITS,
+    activeEra: ACTIVE_ERA,
+    ...overrides
+});
+
+describe('validateStakingAction', () => {
+    it('bonds only a stash without a ledger, everything else needs one', () => {
+        expect(validateStakingAction(STASH, { type: 'bond', value: 500n, payee: { type: 'Staked' } }, context())).toEqual(['alreadyBonded']);
+        expect(validateStakingAction(STASH, { type: 'bond', value: 500n, payee: { type: 'Staked' } }, context({ ledger: undefined }))).toEqual([]);
+        expect(validateStakingAction(STASH, { type: 'bond', value: 0n, payee: { type: 'Staked' } }, context({ ledger: undefined }))).toEqual(['zeroValue']);
+        expect(validateStakingAction(STASH, { type: 'bond', value: 249n, payee: { type: 'Staked' } }, context({ ledger: undefined })))
+            .toEqual(['belowMinNominatorBond']);
+
+        (['bond_extra', 'unbond', 'rebond'] as const).forEach(type =>
+            expect(validateStakingAction(STASH, { type, value: 1n }, context({ ledger: undefined }))).toEqual(['notBonded']));
+        expect(validateStakingAction(STASH, { type: 'chill' }, context({ ledger: undefined }))).toEqual(['notBonded']);
+    });
+
+    it('refuses to unbond a nominator below MinNominatorBond', () => {
+        expect(validateStakingAction(STASH, { type: 'unbond', value: 750n }, context())).toEqual([]);
+        expect(validateStakingAction(STASH, { type: 'unbond', value: 751n }, context())).toEqual(['belowMinNominatorBond']);
+        // not nominating: everything can go
+        expect(validateStakingAction(STASH, { type: 'unbond', value: 1000n }, context({ nomination: undefined }))).toEqual([]);
+    });
+
+    it('needs a free unlocking chunk unless the new one merges', () => {
+        const full = [{ value: 10n, era: 110 }, { value: 10n, era: 115 }, { value: 10n, era: ACTIVE_ERA + LIMITS.bondingDuration }];
+        const unbond = { type: 'unbond', value: 10n } as const;
+
+        expect(validateStakingAction(STASH, unbond, context({ ledger: ledger({ unlocking: full }) }))).toEqual([]);
+        expect(validateStakingAction(STASH, unbond, context({ ledger: ledger({ unlocking: full.slice(0, 2).concat({ value: 10n, era: 120 }) }) })))
+            .toEqual(['tooManyUnlockingChunks']);
+        // a withdrawable chunk is withdrawn by the pallet first and frees its slot
+        expect(validateStakingAction(STASH, unbond, context({ ledger: ledger({ unlocking: [{ value: 10n, era: 90 }, ...full.slice(0, 2)] }) })))
+            .toEqual([]);
+    });
+
+    it('rebonds only with something unbonding', () => {
+        expect(validateStakingAction(STASH, { type: 'rebond', value: 10n }, context())).toEqual(['nothingUnbonding']);
+        expect(validateStakingAction(STASH, { type: 'rebond', value: 0n }, context({ ledger: ledger({ unlocking: [{ value: 5n, era: 110 }] }) })))
+            .toEqual(['zeroValue']);
+    });
+
+    it('withdraws only chunks that finished unbonding', () => {
+        const withdraw = { type: 'withdraw_unbonded', slashingSpans: 0 } as const;
+        expect(validateStakingAction(STASH, withdraw, context({ ledger: ledger({ unlocking: [{ value: 5n, era: ACTIVE_ERA + 1 }] }) })))
+            .toEqual(['nothingWithdrawable']);
+        expect(validateStakingAction(STASH, withdraw, context({ ledger: ledger({ unlocking: [{ value: 5n, era: ACTIVE_ERA }] }) }))).toEqual([]);
+    });
+
+    it('checks the nomination targets and the bond to nominate with', () => {
+        const targets = (count: number) => Array.from({ length: count }, (_, i) => `v${i}`);
+        expect(validateStakingAction(STASH, { type: 'nominate', targets: targets(16) }, context())).toEqual([]);
+        expect(validateStakingAction(STASH, { type: 'nominate', targets: targets(17) }, context())).toEqual(['tooManyTargets']);
+        expect(validateStakingAction(STASH, { type: 'nominate', targets: [] }, context())).toEqual(['noTargets']);
+        expect(validateStakingAction(STASH, { type: 'nominate', targets: ['v1'] }, context({ ledger: ledger({ active: 249n }) })))
+            .toEqual(['belowMinNominatorBond']);
+    });
+
+    it('chills only a nominator', () => {
+        expect(validateStakingAction(STASH, { type: 'chill' }, context())).toEqual([]);
+        expect(validateStakingAction(STASH, { type: 'chill' }, context({ nomination: undefined }))).toEqual(['notNominating']);
+    });
+});
+
+describe('projectLedger', () => {
+    const unlockEra = ACTIVE_ERA + LIMITS.bondingDuration;
+
+    it('starts a fresh ledger on bond and adds to it on bond_extra', () => {
+        expect(projectLedger(STASH, { type: 'bond', value: 500n, payee: { type: 'Staked' } }, context({ ledger: undefined })))
+            .toEqual({ stash: STASH, total: 500n, active: 500n, unlocking: [] });
+        expect(projectLedger(STASH, { type: 'bond_extra', value: 5n }, context())).toMatchObject({ total: 1005n, active: 1005n });
+    });
+
+    it('unbonds at most the active bond into a chunk after the bonding duration', () => {
+        expect(projectLedger(STASH, { type: 'unbond', value: 300n }, context()))
+            .toEqual(ledger({ active: 700n, unlocking: [{ value: 300n, era: unlockEra }] }));
+        expect(projectLedger(STASH, { type: 'unbond', value: 5000n }, context()))
+            .toEqual(ledger({ active: 0n, unlocking: [{ value: 1000n, era: unlockEra }] }));
+    });
+
+    it('merges an unbond into the chunk of the same era', () => {
+        const before = ledger({ active: 900n, unlocking: [{ value: 100n, era: unlockEra }] });
+        expect(projectLedger(STASH, { type: 'unbond', value: 50n }, context({ ledger: before })))
+            .toEqual(ledger({ active: 850n, unlocking: [{ value: 150n, era: unlockEra }] }));
+    });
+
+    it('rebonds the latest chunks first', () => {
+        const before = ledger({ active: 700n, unlocking: [{ value: 100n, era: 110 }, { value: 100n, era: 120 }, { value: 100n, era: 128 }] });
+
+        expect(projectLedger(STASH, { type: 'rebond', value: 150n }, context({ ledger: before })))
+            .toEqual(ledger({ active: 850n, unlocking: [{ value: 100n, era: 110 }, { value: 50n, era: 120 }] }));
+        // more than is unbonding: only what is there comes back
+        expect(projectLedger(STASH, { type: 'rebond', value: 500n }, context({ ledger: before })))
+            .toEqual(ledger({ active: 1000n, unlocking: [] }));
+    });
+
+    it('withdraws finished chunks and removes an empty ledger', () => {
+        const before = ledger({ active: 800n, unlocking: [{ value: 100n, era: ACTIVE_ERA - 1 }, { value: 100n, era: ACTIVE_ERA + 5 }] });
+        expect(projectLedger(STASH, { type: 'withdraw_unbonded', slashingSpans: 0 }, context({ ledger: before })))
+            .toEqual(ledger({ total: 900n, active: 800n, unlocking: [{ value: 100n, era: ACTIVE_ERA + 5 }] }));
+
+        const drained = ledger({ total: 100n, active: 0n, unlocking: [{ value: 100n, era: ACTIVE_ERA }] });
+        expect(projectLedger(STASH, { type: 'withdraw_unbonded', slashingSpans: 0 }, context({ ledger: drained }))).toBeUndefined();
+    });
+
+    it('leaves the ledger alone for nominate and chill', () => {
+        expect(projectLedger(STASH, { type: 'chill' }, context())).toEqual(ledger());
+        expect(projectLedger(STASH, { type: 'nominate', targets: ['v1'] }, context())).toEqual(ledger());
+    });
+});
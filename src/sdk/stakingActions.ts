@@ -0,0 +1,149 @@
+import { Nomination, RewardDestination, StakingLedger, StakingLimits } from './types';
+
+/**
+ * staking calls of a nominator, checked and previewed before signing
+ *
+ * the checks are the ones the staking pallet fails the call on (or that leave the stash unable to
+ * nominate), the preview is the ledger the pallet would write. unbonding chunks are projected from
+ * the active era, the pallet uses the current era which is one ahead while the next election runs.
+ */
+
+export type StakingAction =
+    | { type: 'bond'; value: bigint; payee: RewardDestination }
+    | { type: 'bond_extra'; value: bigint }
+    | { type: 'unbond'; value: bigint }
+    | { type: 'rebond'; value: bigint }
+    | { type: 'withdraw_unbonded'; slashingSpans: number }
+    | { type: 'nominate'; targets: string[] }
+    | { type: 'chill' };
+
+export type StakingActionType = StakingAction['type'];
+
+export type StakingActionIssue =
+    | 'alreadyBonded'           // bond on a stash with a ledger, bond_extra adds to it
+    | 'notBonded'
+    | 'zeroValue'
+    | 'belowMinNominatorBond'   // the active bond after the call is too small to nominate with
+    | 'tooManyUnlockingChunks'  // withdraw first
+    | 'nothingUnbonding'
+    | 'nothingWithdrawable'
+    | 'noTargets'
+    | 'tooManyTargets'
+    | 'notNominating';
+
+export interface StakingActionContext {
+    ledger: StakingLedger | undefined;
+    nomination: Nomination | undefined;
+    limits: StakingLimits;
+    activeEra: number;
+}
+
+/**
+ * ledger after the call, undefined once everything is withdrawn (the pallet removes the ledger then)
+ */
+export const projectLedger = (
+    stash: string,
+    action: StakingAction,
+    { ledger, limits, activeEra }: Pick<StakingActionContext, 'ledger' | 'limits' | 'activeEra'>
+): StakingLedger | undefined => {
+    if (action.type === 'bond') return { stash, total: action.value, active: action.value, unlocking: [] };
+    if (!ledger) return undefined;
+
+    switch (action.type) {
+        case 'bond_extra':
+            return { ...ledger, total: ledger.total + action.value, active: ledger.active + action.value };
+
+        // at most the active bond, merged into the chunk of the same era
+        case 'unbond': {
+            const value = action.value < ledger.active ? action.value : ledger.active;
+            const era = activeEra + limits.bondingDuration;
+            const merged = ledger.unlocking.some(chunk => chunk.era === era);
+            return {
+                ...ledger,
+                active: ledger.active - value,
+                unlocking: merged
+                    ? ledger.unlocking.map(chunk => (chunk.era === era ? { ...chunk, value: chunk.value + value } : chunk))
+                    : [...ledger.unlocking, { value, era }]
+            };
+        }
+
+        // the latest chunks are rebonded first
+        case 'rebond': {
+            let remaining = action.value;
+            const unlocking = [...ledger.unlocking];
+            while (remaining > 0n && unlocking.length > 0) {
+                const last = unlocking[unlocking.length - 1];
+                if (last.value <= remaining) {
+                    remaining -= last.value;
+                    unlocking.pop();
+                } else {
+                    unlocking[unlocking.length - 1] = { ...last, value: last.value - remaining };
+                    remaining = 0n;
+                }
+            }
+            return { ...ledger, active: ledger.active + action.value - remaining, unlocking };
+        }
+
+        case 'withdraw_unbonded': {
+            const unlocking = ledger.unlocking.filter(chunk => chunk.era > activeEra);
+            const withdrawn = ledger.unlocking.reduce((sum, chunk) => (chunk.era > activeEra ? sum : sum + chunk.value), 0n);
+            const total = ledger.total - withdrawn;
+            return total > 0n ? { ...ledger, total, unlocking } : undefined;
+        }
+
+        default:
+            return ledger;
+    }
+};
+
+/**
+ * reasons the call fails or leaves the stash unable to nominate, empty if it is good to sign
+ */
+export const validateStakingAction = (stash: string, action: StakingAction, context: StakingActionContext): StakingActionIssue[] => {
+    const { ledger, nomination, limits, activeEra } = context;
+    if (action.type === 'bond') {
+        if (ledger) return ['alreadyBonded'];
+        if (action.value <= 0n) return ['zeroValue'];
+        return action.value < limits.minNominatorBond ? ['belowMinNominatorBond'] : [];
+    }
+    if (!ledger) return ['notBonded'];
+
+    const issues: StakingActionIssue[] = [];
+    const after = projectLedger(stash, action, context);
+    switch (action.type) {
+        case 'bond_extra':
+            if (action.value <= 0n) issues.push('zeroValue');
+            break;
+
+        // the pallet refuses to unbond a nominator below MinNominatorBond, it has to chill first.
+        // with all chunks in use it withdraws the unlocked ones, the new chunk needs a free slot after that
+        case 'unbond': {
+            if (action.value <= 0n) issues.push('zeroValue');
+            if (nomination && after && after.active < limits.minNominatorBond) issues.push('belowMinNominatorBond');
+            const era = activeEra + limits.bondingDuration;
+            const chunks = ledger.unlocking.filter(chunk => chunk.era > activeEra);
+            if (chunks.length >= limits.maxUnlockingChunks && !chunks.some(chunk => chunk.era === era)) issues.push('tooManyUnlockingChunks');
+            break;
+        }
+
+        case 'rebond':
+            if (ledger.unlocking.length === 0) issues.push('nothingUnbonding');
+            else if (action.value <= 0n) issues.push('zeroValue');
+            break;
+
+        case 'withdraw_unbonded':
+            if (!ledger.unlocking.some(chunk => chunk.era <= activeEra)) issues.push('nothingWithdrawable');
+            break;
+
+        case 'nominate':
+            if (action.targets.length === 0) issues.push('noTargets');
+            if (action.targets.length > limits.maxNominations) issues.push('tooManyTargets');
+            if (ledger.active < limits.minNominatorBond) issues.push('belowMinNominatorBond');
+            break;
+
+        case 'chill':
+            if (!nomination) issues.push('notNominating');
+            break;
+    }
+    return issues;
+};
@@ -0,0 +1,193 @@
+/**
+ * plain data shapes the SDK works with
+ * no papi or react types in here so the math can run anywhere (browser, node backend, tests)
+ */
+
+// reward points of one era, individual points keyed by validator address
+export interface EraPoints {
+    total: number;
+    individual: Record<string, number>;
+}
+
+// validator preferences as stored on chain
+export interface ValidatorPrefs {
+    commission: number;   // commission in Perbill parts (0 - 1_000_000_000)
+    blocked: boolean;     // true if the validator does not accept new nominations
+}
+
+// exposure summary of a validator for one era
+export interface StakeOverview {
+    total: bigint;        // total backing stake including own stake
+    own: bigint;          // validators self stake
+    nominatorCount: number;
+    pageCount: number;    // number of exposure pages
+}
+
+// stake of one nominator behind a validator
+export interface IndividualExposure {
+    who: string;
+    value: bigint;
+}
+
+// one page of a validators paged exposure (ErasStakersPaged)
+export interface ExposurePage {
+    page: number;
+    pageTotal: bigint;    // sum of the nominator stake on this page
+    others: IndividualExposure[];
+}
+
+// runtime constants that define the length of an era
+export interface EraTimingConstants {
+    epochDuration: number;      // slots per BABE epoch (= session)
+    sessionsPerEra: number;
+    expectedBlockTime: number;  // ms per slot
+}
+
+// slash of a validator for an offence in an era (ValidatorSlashInEra)
+export interface ValidatorSlash {
+    validator: string;
+    era: number;          // era of the offence
+    fraction: number;     // slashed share of the exposure in Perbill parts
+    amount: bigint;       // slashed own stake
+}
+
+// slash that is queued but not applied yet, governance can still cancel it (UnappliedSlashes)
+export interface UnappliedSlash {
+    validator: string;
+    applyEra: number;     // era in which the slash gets applied
+    own: bigint;          // slashed own stake
+    others: bigint;       // slashed nominator stake
+}
+
+/**
+ * everything the SDK needs to read from a chain
+ * the store talks to this instead of the global typedApi so the source can be swapped or mocked
+ */
+export interface ChainSource {
+    getActiveEra: () => Promise<number | undefined>;
+    getCurrentEra: () => Promise<number | undefined>;   // era being planned, one ahead of the active era while the next election runs
+    getActiveEraStart: () => Promise<number | undefined>;  // start timestamp of the active era in ms
+    getEraTimingConstants: () => Promise<EraTimingConstants>;
+    getMaxExposurePageSize: () => Promise<number>;  // max nominators per exposure (and reward) page
+    getSessionValidators: () => Promise<string[]>;
+    getEraReward: (era: number) => Promise<bigint | undefined>;  // only set once the era ended
+    getProjectedEraPayout: () => Promise<bigint | undefined>;    // stakers payout the active era will mint, undefined if the runtime can't tell
+    getEraPoints: (era: number) => Promise<EraPoints | undefined>;
+    getValidatorPrefs: (address: string) => Promise<ValidatorPrefs | undefined>;
+    getEraValidatorPrefs: (era: number, address: string) => Promise<ValidatorPrefs | undefined>;
+    getEraStakersOverview: (era: number, address: string) => Promise<StakeOverview | undefined>;
+    getEraExposurePages: (era: number, address: string) => Promise<ExposurePage[]>;  // all pages, sorted by page
+
+    // bulk queries, one storage iteration instead of one request per validator
+    getAllValidatorPrefs: () => Promise<Record<string, ValidatorPrefs>>;
+    getEraValidatorPrefsMap: (era: number) => Promise<Record<string, ValidatorPrefs>>;
+    getEraStakersOverviewMap: (era: number) => Promise<Record<string, StakeOverview>>;
+
+    // exposure pages already paid out per validator, changes until the era leaves history depth
+    getClaimedRewardsMap: (era: number) => Promise<Record<string, number[]>>;
+
+    // slashing, only kept on chain for the bonding duration
+    getValidatorSlashes: () => Promise<ValidatorSlash[]>;
+    getUnappliedSlashes: () => Promise<UnappliedSlash[]>;
+    getOffenceReportCounts: () => Promise<Record<string, number>>;  // offender address → reports in storage
+
+    // staking accounts of stashes, in the order of the requested addresses
+    getRewardDestinations: (stashes: string[]) => Promise<Array<RewardDestination | undefined>>;
+    getControllers: (stashes: string[]) => Promise<Array<string | undefined>>;
+
+    // a single staker: ledger by controller, nominations by stash
+    getLedger: (controller: string) => Promise<StakingLedger | undefined>;
+    getNomination: (stash: string) => Promise<Nomination | undefined>;
+    getMinimumActiveStake: () => Promise<bigint>;  // smallest nominator stake that made it into the last election
+    getSlashingSpanCount: (stash: string) => Promise<number>;  // argument of withdraw_unbonded
+    getStakingLimits: () => Promise<StakingLimits>;
+    getSigningContext: (address: string) => Promise<SigningContext>;  // for transactions signed offline
+
+    // election input: all nominations, active bonds (stash → active) and the number of seats
+    getNominations: () => Promise<Nomination[]>;
+    getBondedStakes: () => Promise<Record<string, bigint>>;
+    getValidatorCount: () => Promise<number>;
+
+    // subscriptions, onChange gets every new value. the active era follows finalized blocks so it
+    // matches what the queries return, era points follow the best block
+    watchActiveEra: (onChange: (era: number | undefined) => void, onError: (error: Error) => void) => Unsubscribe;
+    watchEraPoints: (era: number, onChange: (points: EraPoints | undefined) => void, onError: (error: Error) => void) => Unsubscribe;
+}
+
+export type Unsubscribe = () => void;
+
+// validators a nominator votes for (Staking.Nominators)
+export interface Nomination {
+    nominator: string;
+    targets: string[];
+    submittedIn: number;   // era the nominations were last changed
+}
+
+// bonded funds of a stash (Staking.Ledger)
+export interface StakingLedger {
+    stash: string;
+    total: bigint;              // active + unlocking
+    active: bigint;             // counts for nominating
+    unlocking: UnlockChunk[];
+}
+
+// chain state a transaction is signed against
+export interface SigningContext {
+    genesisHash: string;
+    nonce: number;
+    block: { height: number; hash: string };   // finalized block the mortality starts at
+    specVersion: number;
+    transactionVersion: number;
+}
+
+// limits the staking calls of a nominator are checked against
+export interface StakingLimits {
+    minNominatorBond: bigint;    // smallest active bond to nominate with (Staking.MinNominatorBond)
+    maxNominations: number;      // targets per nominator, the votes per voter of the election
+    bondingDuration: number;     // eras until unbonded funds can be withdrawn
+    maxUnlockingChunks: number;  // unbond calls in flight before the oldest have to be withdrawn
+}
+
+// unbonding funds, withdrawable from `era` on
+export interface UnlockChunk {
+    value: bigint;
+    era: number;
+}
+
+// where the staking rewards of a stash go (Staking.Payee)
+export type RewardDestination =
+    | { type: 'Staked' | 'Stash' | 'Controller' | 'None' }
+    | { type: 'Account'; account: string };
+
+// registrar judgement on an identity
+export type Judgement = 'Unknown' | 'FeePaid' | 'Reasonable' | 'KnownGood' | 'OutOfDate' | 'LowQuality' | 'Erroneous';
+
+// identity an account set itself (Identity.IdentityOf)
+export interface IdentityInfo {
+    display?: string;
+    judgements: Judgement[];
+}
+
+// account that is a sub account of another identity (Identity.SuperOf)
+export interface SubIdentity {
+    parent: string;
+    name?: string;
+}
+
+/**
+ * identity data, on the People chain for relay chains that moved identities there
+ * results are in the same order as the requested addresses, undefined = nothing set
+ */
+export interface IdentitySource {
+    getIdentities: (addresses: string[]) => Promise<Array<IdentityInfo | undefined>>;
+    getSuperOf: (addresses: string[]) => Promise<Array<SubIdentity | undefined>>;
+}
+
+/**
+ * persistent storage for finished era data, e.g. IndexedDB in the browser
+ * values are wrapped so a stored `undefined` (no data on chain) can be told apart from a cache miss
+ */
+export interface EraStore {
+    get: (key: string) => Promise<{ value: unknown } | undefined>;
+    set: (key: string, era: number, value: unknown) => void;
+}
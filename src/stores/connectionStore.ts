@@ -0,0 +1,58 @@
+import { create } from 'zustand';
+import { EndpointHealth } from '../utils/rpcHealth';
+
+export type ConnectionStatus = 'connecting' | 'syncing' | 'connected' | 'error' | 'closed';
+
+// light client sync progress, from system_health and the best block smoldot knows about
+export interface SyncProgress {
+    peers: number;
+    isSyncing: boolean;
+    bestBlock: number | null;
+}
+
+/**
+ * state of the rpc connection
+ * written by the connection layer in utils/api, read by the ui
+ */
+interface ConnectionState {
+    endpoint: string | null;                 // endpoint currently in use
+    status: ConnectionStatus;
+    health: EndpointHealth[];                // last health check, best endpoint first
+    lastFailover: { from: string; to: string; at: number } | null;
+    sync: SyncProgress | null;               // only set in light client mode
+
+    // actions
+    setStatus: (status: ConnectionStatus, endpoint?: string) => void;
+    setSync: (sync: SyncProgress | null) => void;
+    setHealth: (health: EndpointHealth[]) => void;
+    recordFailover: (from: string, to: string) => void;
+    reset: () => void;
+}
+
+export const useConnectionStore = create<ConnectionState>((set) => ({
+    endpoint: null,
+    status: 'connecting',
+    health: [],
+    lastFailover: null,
+    sync: null,
+
+    setStatus: (status, endpoint) => {
+        set(state => ({ status, endpoint: endpoint ?? state.endpoint }));
+    },
+
+    setHealth: (health) => {
+        set({ health });
+    },
+
+    setSync: (sync) => {
+        set({ sync });
+    },
+
+    recordFailover: (from, to) => {
+        set({ lastFailover: { from, to, at: Date.now() } });
+    },
+
+    reset: () => {
+        set({ endpoint: null, status: 'connecting', health: [], lastFailover: null, sync: null });
+    }
+}));
@@ -0,0 +1,91 @@
+import { create } from 'zustand';
+import { createQuery } from '../utils/api';
+import { runElectionInWorker } from '../utils/election';
+import { ElectedValidator, RequestPriority, buildElectionVoters, isAbortError } from '../sdk';
+
+/**
+ * prediction of the next election from the current nominations and bonds
+ * runs on demand: the snapshot is every nominator and ledger on chain and the election takes seconds
+ */
+interface ElectionState {
+    networkId: string | null;   // network + active era the prediction belongs to
+    activeEra: number;
+    elected: ElectedValidator[];                // predicted active set, most backing first
+    predictedBacking: Record<string, bigint> | null;   // address → predicted backing, null until predicted
+    entries: string[];          // predicted to be elected, not active now
+    exits: string[];            // active now, not predicted to be elected
+    stage: 'idle' | 'loading' | 'electing' | 'done';
+    error: string | null;
+
+    // actions
+    predictElection: (networkId: string, activeEra: number, activeValidators: string[]) => Promise<void>;
+    reset: () => void;
+}
+
+const initialState = {
+    networkId: null,
+    activeEra: 0,
+    elected: [],
+    predictedBacking: null,
+    entries: [],
+    exits: [],
+    stage: 'idle',
+    error: null
+} satisfies Partial<ElectionState>;
+
+// cancels the snapshot loading and the worker of the previous run
+let controller = new AbortController();
+
+export const useElectionStore = create<ElectionState>((set, get) => ({
+    ...initialState,
+
+    predictElection: async (networkId, activeEra, activeValidators) => {
+        if (get().networkId === networkId && get().activeEra === activeEra) return;
+
+        controller.abort();
+        controller = new AbortController();
+        const signal = controller.signal;
+        const query = createQuery(RequestPriority.background, signal);
+
+        set({ ...initialState, networkId, activeEra, stage: 'loading' });
+
+        try {
+            // same snapshot as the waiting list, loaded only once per era
+            const [prefs, nominations, bonded, seats] = await Promise.all([
+                query(repository => repository.getAllValidatorPrefs()),
+                query(repository => repository.getNominations()),
+                query(repository => repository.getBondedStakes()),
+                query(repository => repository.getValidatorCount())
+            ]);
+            if (signal.aborted) return;
+
+            set({ stage: 'electing' });
+            const candidates = Object.keys(prefs);
+            const { elected } = await runElectionInWorker({
+                candidates,
+                voters: buildElectionVoters(candidates, nominations, bonded),
+                seats
+            }, signal);
+            if (signal.aborted) return;
+
+            const predictedBacking = Object.fromEntries(elected.map(validator => [validator.address, validator.backing]));
+            const active = new Set(activeValidators);
+            set({
+                elected,
+                predictedBacking,
+                entries: elected.filter(validator => !active.has(validator.address)).map(validator => validator.address),
+                exits: activeValidators.filter(address => predictedBacking[address] === undefined),
+                stage: 'done'
+            });
+        } catch (error) {
+            if (isAbortError(error)) return;
+            // forget the key so the next call tries again
+            set({ error: (error as Error).message, stage: 'idle', networkId: null });
+        }
+    },
+
+    reset: () => {
+        controller.abort();
+        set(initialState);
+    }
+}));
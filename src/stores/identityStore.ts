@@ -0,0 +1,75 @@
+import { create } from 'zustand';
+import { getIdentitySource } from '../utils/api';
+import { Identity, resolveIdentities } from '../sdk';
+
+/**
+ * validator identities from the People chain
+ * loaded once per network for all validators, accounts without identity are simply missing
+ */
+interface IdentityState {
+    networkId: string | null;   // network the identities below belong to
+    identities: Record<string, Identity>;
+    loading: boolean;
+    loaded: boolean;
+    error: string | null;
+
+    // actions
+    fetchIdentities: (networkId: string, addresses: string[]) => Promise<void>;
+    reset: () => void;
+}
+
+const initialState = {
+    networkId: null,
+    identities: {},
+    loading: false,
+    loaded: false,
+    error: null
+} satisfies Partial<IdentityState>;
+
+// accounts already looked up on the current network
+let requested = new Set<string>();
+
+// cancels the lookup of the previous network
+let controller = new AbortController();
+
+export const useIdentityStore = create<IdentityState>((set, get) => ({
+    ...initialState,
+
+    /**
+     * look up the identities of accounts not looked up yet
+     * switching networks drops the identities of the previous one
+     */
+    fetchIdentities: async (networkId: string, addresses: string[]) => {
+        if (get().networkId !== networkId) {
+            controller.abort();
+            controller = new AbortController();
+            requested = new Set();
+            set({ ...initialState, networkId });
+        }
+        const signal = controller.signal;
+
+        const source = getIdentitySource();
+        const missing = addresses.filter(address => !requested.has(address));
+        if (!source || missing.length === 0) return;
+
+        missing.forEach(address => requested.add(address));
+        set({ loading: true, error: null });
+
+        try {
+            const identities = await resolveIdentities(source, missing);
+            if (signal.aborted) return;
+            set(state => ({ identities: { ...state.identities, ...identities }, loading: false, loaded: true }));
+        } catch (error) {
+            if (signal.aborted) return;
+            // look them up again on the next call
+            missing.forEach(address => requested.delete(address));
+            set({ error: (error as Error).message, loading: false });
+        }
+    },
+
+    reset: () => {
+        controller.abort();
+        requested = new Set();
+        set(initialState);
+    }
+}));
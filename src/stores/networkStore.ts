@@ -0,0 +1,69 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { ConnectionMode, DEFAULT_NETWORK_ID, NetworkConfig, findNetwork } from '../utils/networks';
+
+/**
+ * network selection state
+ * persisted in localStorage so the app reopens on the last used network
+ */
+interface NetworkState {
+    selectedNetworkId: string;
+    customNetworks: NetworkConfig[];
+    connectionMode: ConnectionMode;
+
+    // actions
+    setNetwork: (id: string) => void;
+    setConnectionMode: (mode: ConnectionMode) => void;
+    addCustomNetwork: (network: Omit<NetworkConfig, 'id' | 'custom'>) => void;
+    removeCustomNetwork: (id: string) => void;
+}
+
+export const useNetworkStore = create<NetworkState>()(
+    persist(
+        (set, get) => ({
+            selectedNetworkId: DEFAULT_NETWORK_ID,
+            customNetworks: [],
+            connectionMode: 'rpc',
+
+            setNetwork: (id: string) => {
+                set({ selectedNetworkId: id });
+            },
+
+            setConnectionMode: (mode: ConnectionMode) => {
+                set({ connectionMode: mode });
+            },
+
+            // add a user defined network and switch to it
+            addCustomNetwork: (network) => {
+                const id = `custom-${Date.now()}`;
+                set(state => ({
+                    customNetworks: [...state.customNetworks, { ...network, id, custom: true }],
+                    selectedNetworkId: id
+                }));
+            },
+
+            // remove a custom network, fall back to the default network if it was selected
+            removeCustomNetwork: (id: string) => {
+                set(state => ({
+                    customNetworks: state.customNetworks.filter(n => n.id !== id),
+                    selectedNetworkId: get().selectedNetworkId === id ? DEFAULT_NETWORK_ID : state.selectedNetworkId
+                }));
+            }
+        }),
+        { name: 'staking-analyzer-network' }
+    )
+);
+
+// selector for the currently selected network config
+export const selectActiveNetwork = (state: NetworkState): NetworkConfig =>
+    findNetwork(state.selectedNetworkId, state.customNetworks);
+
+// read the active network outside of react (stores, api)
+export const getActiveNetwork = (): NetworkConfig => selectActiveNetwork(useNetworkStore.getState());
+
+/**
+ * connection mode actually used for the active network
+ * networks without a bundled chain spec (custom endpoints) always use rpc
+ */
+export const selectEffectiveConnectionMode = (state: NetworkState): ConnectionMode =>
+    selectActiveNetwork(state).lightClientChain ? state.connectionMode : 'rpc';
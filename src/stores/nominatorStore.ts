@@ -0,0 +1,160 @@
+import { create } from 'zustand';
+import { createQuery } from '../utils/api';
+import {
+    AnnualizedReturn,
+    Nomination,
+    NominationTarget,
+    NominatorIssue,
+    RequestPriority,
+    RewardDestination,
+    StakingLedger,
+    UnlockingStatus,
+    calculateEraReturn,
+    calculateValidatorEraPayout,
+    diagnoseNominator,
+    estimateEraReward,
+    findNominatorExposures,
+    getUnlockingStatus,
+    isAbortError
+} from '../sdk';
+
+/**
+ * staking status of one stash: bond, nominations, exposure this era and unbonding
+ * looked up on demand for any address, e.g. to answer "why am I not earning rewards"
+ */
+interface NominatorState {
+    networkId: string | null;   // network + address the data below belongs to
+    address: string | null;
+    activeEra: number;
+    controller: string | null;
+    ledger: StakingLedger | null;
+    nomination: Nomination | null;
+    payee: RewardDestination | null;
+    targets: NominationTarget[];
+    unlocking: UnlockingStatus[];
+    lastEraReturns: Record<string, AnnualizedReturn>;  // exposed validator → its return in the last era
+    eraRewards: Record<string, bigint>;                 // exposed validator → reward of the exposed stake at its last era payout
+    estimatedEraReward: bigint;                         // sum of those rewards
+    issues: NominatorIssue[];
+    loading: boolean;
+    error: string | null;
+
+    // actions
+    lookup: (networkId: string, address: string, activeEra: number, erasPerYear: number) => Promise<void>;
+    reset: () => void;
+}
+
+const initialState = {
+    networkId: null,
+    address: null,
+    activeEra: 0,
+    controller: null,
+    ledger: null,
+    nomination: null,
+    payee: null,
+    targets: [],
+    unlocking: [],
+    lastEraReturns: {},
+    eraRewards: {},
+    estimatedEraReward: 0n,
+    issues: [],
+    loading: false,
+    error: null
+} satisfies Partial<NominatorState>;
+
+// cancels the previous lookup
+let controller = new AbortController();
+
+export const useNominatorStore = create<NominatorState>((set) => ({
+    ...initialState,
+
+    lookup: async (networkId, address, activeEra, erasPerYear) => {
+        controller.abort();
+        controller = new AbortController();
+        const signal = controller.signal;
+        const query = createQuery(RequestPriority.visible, signal);
+
+        set({ ...initialState, networkId, address, activeEra, loading: true });
+
+        try {
+            // the ledger is keyed by controller, nearly always the stash itself by now
+            const [[bondedController], nomination, [payee], minimumActiveStake, sessionValidators] = await Promise.all([
+                query(repository => repository.getControllers([address])),
+                query(repository => repository.getNomination(address)),
+                query(repository => repository.getRewardDestinations([address])),
+                query(repository => repository.getMinimumActiveStake()),
+                query(repository => repository.getSessionValidators())
+            ]);
+            const ledger = bondedController ? await query(repository => repository.getLedger(bondedController)) : undefined;
+
+            // exposure pages of the active targets, cached per era
+            const active = new Set(sessionValidators);
+            const activeTargets = (nomination?.targets || []).filter(target => active.has(target));
+            const pages = await Promise.all(activeTargets.map(target => query(repository => repository.getEraExposurePages(activeEra, target))));
+            const exposures = findNominatorExposures(address, Object.fromEntries(activeTargets.map((target, i) => [target, pages[i]])));
+
+            const targets = (nomination?.targets || []).map(target => ({
+                address: target,
+                active: active.has(target),
+                exposure: exposures.find(exposure => exposure.validator === target)
+            }));
+
+            // expected reward: share of the exposed stake in what each validator paid its stakers in the last era
+            const lastEra = activeEra - 1;
+            const [eraReward, eraPoints] = await Promise.all([
+                query(repository => repository.getEraReward(lastEra)),
+                query(repository => repository.getEraPoints(lastEra))
+            ]);
+            const lastEraReturns: Record<string, AnnualizedReturn> = {};
+            const eraRewards: Record<string, bigint> = {};
+            await Promise.all(exposures.map(async ({ validator, value }) => {
+                const [prefs, overview, activeOverview] = await Promise.all([
+                    query(repository => repository.getEraValidatorPrefs(lastEra, validator)),
+                    query(repository => repository.getEraStakersOverview(lastEra, validator)),
+                    query(repository => repository.getEraStakersOverview(activeEra, validator))
+                ]);
+                if (!eraReward || !eraPoints || !overview) {
+                    lastEraReturns[validator] = { apr: 0, apy: 0 };
+                    eraRewards[validator] = 0n;
+                    return;
+                }
+
+                const validatorPoints = eraPoints.individual[validator] || 0;
+                const commission = prefs?.commission || 0;
+                lastEraReturns[validator] = calculateEraReturn({
+                    eraReward,
+                    validatorPoints,
+                    totalPoints: eraPoints.total,
+                    commission,
+                    totalStake: overview.total,
+                    erasPerYear
+                });
+                const { stakersPayout } = calculateValidatorEraPayout(eraReward, validatorPoints, eraPoints.total, commission);
+                eraRewards[validator] = estimateEraReward(value, stakersPayout, activeOverview?.total ?? 0n);
+            }));
+            if (signal.aborted) return;
+
+            set({
+                controller: bondedController ?? null,
+                ledger: ledger ?? null,
+                nomination: nomination ?? null,
+                payee: payee ?? null,
+                targets,
+                unlocking: getUnlockingStatus(ledger?.unlocking || [], activeEra),
+                lastEraReturns,
+                eraRewards,
+                estimatedEraReward: Object.values(eraRewards).reduce((sum, reward) => sum + reward, 0n),
+                issues: diagnoseNominator({ ledger, nomination, targets, payee, minimumActiveStake }),
+                loading: false
+            });
+        } catch (error) {
+            if (isAbortError(error)) return;
+            set({ error: (error as Error).message, loading: false });
+        }
+    },
+
+    reset: () => {
+        controller.abort();
+        set(initialState);
+    }
+}));
@@ -0,0 +1,138 @@
+import { create } from 'zustand';
+import { dot } from '@polkadot-api/descriptors';
+import { toHex } from 'polkadot-api/utils';
+import { createQuery, getClient } from '../utils/api';
+import {
+    OfflineCall,
+    OfflineRelayApi,
+    SubmissionStatus,
+    getOfflineRelayApi,
+    prepareUnsignedTransaction,
+    submitSignedTransaction
+} from '../utils/transactions';
+import {
+    OfflinePayloadFile,
+    RequestPriority,
+    UnsignedTransaction,
+    encodeSignedExtrinsic,
+    encodeVaultPayload,
+    fromPayloadFile,
+    isAbortError,
+    parseSignature,
+    splitQrFrames,
+    toPayloadFile
+} from '../sdk';
+
+/**
+ * the transaction exported for an air-gapped signer and the signature that comes back
+ *
+ * calls are built from the checked-in metadata (`.papi/metadata/dot.scale`), the chain only
+ * provides nonce, genesis and the block the mortality starts at. one export at a time, the
+ * staking actions and the payout builder both hand their calls over to it.
+ */
+interface OfflineSigningState {
+    networkId: string | null;   // network the export belongs to
+    call: string | null;        // e.g. "Staking.nominate"
+    unsigned: UnsignedTransaction | null;
+    file: OfflinePayloadFile | null;
+    frames: Uint8Array[];       // vault QR frames
+    exporting: boolean;
+    submission: SubmissionStatus | null;
+    error: string | null;
+
+    // actions
+    exportCall: (networkId: string, address: string, call: string, build: (api: OfflineRelayApi) => OfflineCall) => Promise<void>;
+    submitSigned: (networkId: string, input: string) => Promise<void>;
+    reset: () => void;
+}
+
+const initialState = {
+    networkId: null,
+    call: null,
+    unsigned: null,
+    file: null,
+    frames: [],
+    exporting: false,
+    submission: null,
+    error: null
+} satisfies Partial<OfflineSigningState>;
+
+// cancels the previous export
+let controller = new AbortController();
+
+/**
+ * the signed transaction of a pasted signature or an uploaded json file
+ * a bare signature belongs to the transaction exported last
+ */
+const readSigned = (networkId: string, input: string, exported: UnsignedTransaction | null) => {
+    const text = input.trim();
+    if (!text.startsWith('{')) {
+        if (!exported) throw new Error('export a transaction before pasting its signature');
+        return { tx: exported, signature: parseSignature(text) };
+    }
+
+    const file = JSON.parse(text) as OfflinePayloadFile;
+    const tx = fromPayloadFile(file);
+    if (file.network !== networkId) throw new Error(`the transaction was exported on ${file.network}`);
+    if (!file.signature) throw new Error('the file has no signature yet');
+    return { tx, signature: parseSignature(file.signature) };
+};
+
+export const useOfflineSigningStore = create<OfflineSigningState>((set, get) => ({
+    ...initialState,
+
+    exportCall: async (networkId, address, call, build) => {
+        controller.abort();
+        controller = new AbortController();
+        const signal = controller.signal;
+        const query = createQuery(RequestPriority.visible, signal);
+
+        set({ ...initialState, networkId, call, exporting: true });
+
+        try {
+            const [api, context] = await Promise.all([
+                getOfflineRelayApi(),
+                query(repository => repository.getSigningContext(address))
+            ]);
+            if (signal.aborted) return;
+
+            // the signed extensions carry genesis and spec version of the metadata, not of the chain
+            if (context.genesisHash !== dot.genesis) {
+                throw new Error('offline signing needs the chain of the checked-in metadata (polkadot)');
+            }
+            const { spec_version, transaction_version } = api.constants.System.Version;
+            if (context.specVersion !== spec_version || context.transactionVersion !== transaction_version) {
+                throw new Error(`the chain runs spec ${context.specVersion}, the checked-in metadata is spec ${spec_version}. run \`npx papi update\` and rebuild`);
+            }
+
+            const unsigned = await prepareUnsignedTransaction(build(api), address, context);
+            if (signal.aborted) return;
+
+            set({
+                unsigned,
+                file: toPayloadFile(unsigned, networkId, call),
+                frames: splitQrFrames(encodeVaultPayload(unsigned)),
+                exporting: false
+            });
+        } catch (error) {
+            if (isAbortError(error)) return;
+            set({ error: (error as Error).message, exporting: false });
+        }
+    },
+
+    // takes a signature (hex) or an exported json file with the signature added
+    submitSigned: async (networkId, input) => {
+        set({ submission: null, error: null });
+        try {
+            const { tx, signature } = readSigned(networkId, input, get().networkId === networkId ? get().unsigned : null);
+            await submitSignedTransaction(getClient(), toHex(encodeSignedExtrinsic(tx, signature)), submission => set({ submission }));
+        } catch (error) {
+            set({ error: (error as Error).message, submission: null });
+        }
+    },
+
+    reset: () => {
+        controller.abort();
+        set(initialState);
+    }
+}));
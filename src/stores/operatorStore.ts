@@ -0,0 +1,114 @@
+import { create } from 'zustand';
+import { createQuery } from '../utils/api';
+import {
+    DecentralizationMetrics,
+    Identity,
+    Operator,
+    OperatorHint,
+    RequestPriority,
+    analyzeDecentralization,
+    clusterOperators,
+    getIdentityRoot,
+    getRewardAccount,
+    isAbortError
+} from '../sdk';
+
+/**
+ * operators of the active set and how concentrated the stake is
+ * chain hints (stake, reward destinations, controllers) are loaded once per era,
+ * clustering is redone whenever more identities are known
+ */
+interface OperatorState {
+    networkId: string | null;   // network + active era the data below belongs to
+    activeEra: number;
+    hints: OperatorHint[];
+    operators: Operator[];                      // most stake first
+    operatorOf: Record<string, string>;         // validator address → operator id
+    metrics: DecentralizationMetrics | null;
+    loading: boolean;
+    error: string | null;
+
+    // actions
+    fetchOperators: (networkId: string, activeEra: number, addresses: string[], identities: Record<string, Identity>) => Promise<void>;
+    cluster: (identities: Record<string, Identity>) => void;
+    reset: () => void;
+}
+
+const initialState = {
+    networkId: null,
+    activeEra: 0,
+    hints: [],
+    operators: [],
+    operatorOf: {},
+    metrics: null,
+    loading: false,
+    error: null
+} satisfies Partial<OperatorState>;
+
+// cancels the loading of the previous network / era
+let controller = new AbortController();
+
+export const useOperatorStore = create<OperatorState>((set, get) => ({
+    ...initialState,
+
+    /**
+     * load stake, reward destination and controller of the active set
+     */
+    fetchOperators: async (networkId, activeEra, addresses, identities) => {
+        if (get().networkId === networkId && get().activeEra === activeEra) return;
+
+        controller.abort();
+        controller = new AbortController();
+        const signal = controller.signal;
+        const query = createQuery(RequestPriority.background, signal);
+
+        set({ ...initialState, networkId, activeEra, loading: true });
+
+        try {
+            const [overviews, destinations, controllers] = await Promise.all([
+                query(repository => repository.getEraStakersOverviewMap(activeEra)),
+                query(repository => repository.getRewardDestinations(addresses)),
+                query(repository => repository.getControllers(addresses))
+            ]);
+            if (signal.aborted) return;
+
+            const hints = addresses.map((address, i): OperatorHint => ({
+                address,
+                stake: overviews[address]?.total || 0n,
+                identityRoot: address,
+                rewardAccount: getRewardAccount(address, destinations[i], controllers[i]),
+                // nearly every stash is its own controller by now, only a separate one says something
+                controller: controllers[i] !== address ? controllers[i] : undefined
+            }));
+
+            set({ hints, loading: false });
+            get().cluster(identities);
+        } catch (error) {
+            if (isAbortError(error)) return;
+            // forget the key so the next call tries again
+            set({ error: (error as Error).message, loading: false, networkId: null });
+        }
+    },
+
+    cluster: (identities) => {
+        const hints = get().hints.map(hint => ({ ...hint, identityRoot: getIdentityRoot(hint.address, identities[hint.address]) }));
+        if (hints.length === 0) return;
+
+        const operators = clusterOperators(hints);
+        const operatorOf: Record<string, string> = {};
+        operators.forEach(operator => operator.validators.forEach(address => {
+            operatorOf[address] = operator.id;
+        }));
+
+        set({
+            operators,
+            operatorOf,
+            metrics: analyzeDecentralization(hints.map(hint => hint.stake), operators)
+        });
+    },
+
+    reset: () => {
+        controller.abort();
+        set(initialState);
+    }
+}));
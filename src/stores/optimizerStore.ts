@@ -0,0 +1,122 @@
+import { create } from 'zustand';
+import { createQuery } from '../utils/api';
+import { RequestPriority, StakeOverview, calculateEraReturn, isAbortError, perbillToRatio } from '../sdk';
+
+/**
+ * chain data of the nomination optimizer: APY of every validator over the last eras, current
+ * commission and exposure, and the nominations quota. loaded on demand, the eras come from the
+ * era repository cache after the first run. the selection itself happens in sdk/optimizer.
+ */
+interface OptimizerState {
+    networkId: string | null;   // network + active era + eras the data below belongs to
+    activeEra: number;
+    eras: number[];
+    maxNominations: number;
+    commission: Record<string, number>;          // address → current commission (0-1)
+    overviews: Record<string, StakeOverview>;    // exposure in the active era
+    maxExposurePageSize: number;
+    apyByValidator: Record<string, Record<number, number>>;   // address → era → APY, eras with exposure only
+    erasLoaded: number;
+    loading: boolean;
+    error: string | null;
+
+    // actions
+    fetchHistory: (networkId: string, activeEra: number, eraCount: number, erasPerYear: number) => Promise<void>;
+    reset: () => void;
+}
+
+const initialState = {
+    networkId: null,
+    activeEra: 0,
+    eras: [],
+    maxNominations: 0,
+    commission: {},
+    overviews: {},
+    maxExposurePageSize: 0,
+    apyByValidator: {},
+    erasLoaded: 0,
+    loading: false,
+    error: null
+} satisfies Partial<OptimizerState>;
+
+// cancels the loading of the previous network / era / history length
+let controller = new AbortController();
+
+export const useOptimizerStore = create<OptimizerState>((set, get) => ({
+    ...initialState,
+
+    /**
+     * load the finished eras before the active one, most recent `eraCount` eras
+     * era rewards, points, prefs and exposures are fetched in bulk, one pass per era
+     */
+    fetchHistory: async (networkId, activeEra, eraCount, erasPerYear) => {
+        const count = Math.min(eraCount, activeEra);
+        const current = get();
+        if (current.networkId === networkId && current.activeEra === activeEra && current.eras.length === count) return;
+
+        controller.abort();
+        controller = new AbortController();
+        const signal = controller.signal;
+        const query = createQuery(RequestPriority.background, signal);
+
+        const eras = Array.from({ length: count }, (_, i) => activeEra - count + i);
+        set({ ...initialState, networkId, activeEra, eras, loading: true });
+
+        try {
+            const [limits, prefs, overviews, maxExposurePageSize] = await Promise.all([
+                query(repository => repository.getStakingLimits()),
+                query(repository => repository.getAllValidatorPrefs()),
+                query(repository => repository.getEraStakersOverviewMap(activeEra)),
+                query(repository => repository.getMaxExposurePageSize())
+            ]);
+            if (signal.aborted) return;
+
+            set({
+                maxNominations: limits.maxNominations,
+                commission: Object.fromEntries(Object.entries(prefs).map(([address, { commission }]) => [address, perbillToRatio(commission)])),
+                overviews,
+                maxExposurePageSize
+            });
+
+            // the scheduler caps how many eras are fetched at once
+            await Promise.all(eras.map(async (era) => {
+                const [eraReward, eraPoints, eraPrefs, eraOverviews] = await Promise.all([
+                    query(repository => repository.getEraReward(era)),
+                    query(repository => repository.getEraPoints(era)),
+                    query(repository => repository.getEraValidatorPrefsMap(era)),
+                    query(repository => repository.getEraStakersOverviewMap(era))
+                ]);
+                if (signal.aborted) return;
+
+                set(state => {
+                    const apyByValidator = { ...state.apyByValidator };
+                    if (eraReward && eraPoints?.total) {
+                        Object.entries(eraOverviews).forEach(([address, overview]) => {
+                            const { apy } = calculateEraReturn({
+                                eraReward,
+                                validatorPoints: eraPoints.individual[address] || 0,
+                                totalPoints: eraPoints.total,
+                                commission: eraPrefs[address]?.commission || 0,
+                                totalStake: overview.total,
+                                erasPerYear
+                            });
+                            apyByValidator[address] = { ...apyByValidator[address], [era]: apy };
+                        });
+                    }
+                    return { apyByValidator, erasLoaded: state.erasLoaded + 1 };
+                });
+            }));
+
+            if (!signal.aborted) set({ loading: false });
+        } catch (error) {
+            if (isAbortError(error)) return;
+            // forget the key so the next call tries again
+            set({ error: (error as Error).message, loading: false, networkId: null });
+        }
+    },
+
+    reset: () => {
+        controller.abort();
+        set(initialState);
+    }
+}));
@@ -0,0 +1,145 @@
+import { create } from 'zustand';
+import { createQuery } from '../utils/api';
+import { EraPayoutStatus, RequestPriority, getEraPayoutStatus, getOldestClaimableEra, isAbortError } from '../sdk';
+
+/**
+ * payout status of every validator for every era within history depth
+ * read from ClaimedRewards against the page count of ErasStakersOverview, loaded in the background
+ */
+interface PayoutState {
+    networkId: string | null;      // network + active era the data below belongs to
+    activeEra: number;
+    currentEra: number;            // history depth counts from here, see sdk/payouts
+    statusByValidator: Record<string, Record<number, EraPayoutStatus>>;  // address → era → status
+    addedValidators: Record<string, string[]>;  // network → validators added by address, on top of the table page
+    erasLoaded: number;
+    erasTotal: number;
+    loading: boolean;
+    error: string | null;
+
+    // actions
+    fetchPayoutStatus: (networkId: string, activeEra: number, historyDepth: number, force?: boolean) => Promise<void>;
+    refreshCurrentEra: (networkId: string, historyDepth: number) => Promise<void>;
+    addValidator: (networkId: string, address: string) => void;
+    removeValidator: (networkId: string, address: string) => void;
+    reset: () => void;
+}
+
+const initialState = {
+    networkId: null,
+    activeEra: 0,
+    currentEra: 0,
+    statusByValidator: {},
+    erasLoaded: 0,
+    erasTotal: 0,
+    loading: false,
+    error: null
+} satisfies Partial<PayoutState>;
+
+// cancels the loading of the previous network / era
+let controller = new AbortController();
+
+export const usePayoutStore = create<PayoutState>((set, get) => ({
+    ...initialState,
+    // not part of the loaded data, survives a reload
+    addedValidators: {},
+
+    /**
+     * load the payout status of all eras within history depth
+     * eras are filled in one by one as they arrive, oldest (closest to expiry) first
+     * force reloads the same era again, e.g. after a payout was submitted
+     */
+    fetchPayoutStatus: async (networkId: string, activeEra: number, historyDepth: number, force = false) => {
+        if (!force && get().networkId === networkId && get().activeEra === activeEra) return;
+
+        controller.abort();
+        controller = new AbortController();
+        const signal = controller.signal;
+        const query = createQuery(RequestPriority.background, signal);
+
+        set({ ...initialState, networkId, activeEra, loading: true });
+
+        try {
+            // the active era until the chain tells otherwise
+            const currentEra = Math.max(activeEra, await query(repository => repository.getCurrentEra()) ?? activeEra);
+            if (signal.aborted) return;
+
+            const eras: number[] = [];
+            for (let era = getOldestClaimableEra(currentEra, historyDepth); era < activeEra; era++) {
+                eras.push(era);
+            }
+            set({ currentEra, erasTotal: eras.length });
+
+            await Promise.all(eras.map(async (era) => {
+                const [overviews, claimed] = await Promise.all([
+                    query(repository => repository.getEraStakersOverviewMap(era)),
+                    query(repository => repository.getClaimedRewardsMap(era))
+                ]);
+                if (signal.aborted) return;
+
+                set(state => {
+                    const statusByValidator = { ...state.statusByValidator };
+                    Object.entries(overviews).forEach(([address, overview]) => {
+                        statusByValidator[address] = {
+                            ...statusByValidator[address],
+                            [era]: getEraPayoutStatus(era, overview.pageCount, claimed[address] || [], currentEra, historyDepth)
+                        };
+                    });
+                    return { statusByValidator, erasLoaded: state.erasLoaded + 1 };
+                });
+            }));
+
+            if (!signal.aborted) set({ loading: false });
+        } catch (error) {
+            if (isAbortError(error)) return;
+            // forget the key so the next call tries again
+            set({ error: (error as Error).message, loading: false, networkId: null });
+        }
+    },
+
+    /**
+     * the next election starts within the active era and moves CurrentEra ahead, which expires the
+     * oldest era. read it again before paying out, a batch with an expired era reverts as a whole
+     */
+    refreshCurrentEra: async (networkId, historyDepth) => {
+        const { activeEra } = get();
+        const chainEra = await createQuery(RequestPriority.visible, controller.signal)(repository => repository.getCurrentEra());
+        const currentEra = Math.max(activeEra, chainEra ?? activeEra);
+        if (get().networkId !== networkId || get().activeEra !== activeEra || currentEra === get().currentEra) return;
+
+        const oldestEra = getOldestClaimableEra(currentEra, historyDepth);
+        set(state => ({
+            currentEra,
+            statusByValidator: Object.fromEntries(Object.entries(state.statusByValidator).map(([address, statuses]) => [
+                address,
+                Object.fromEntries(Object.values(statuses)
+                    .filter(status => status.era >= oldestEra)
+                    .map(status => [status.era, getEraPayoutStatus(status.era, status.pageCount, status.claimedPages, currentEra, historyDepth)]))
+            ]))
+        }));
+    },
+
+    /**
+     * show a validator that is not on the current table page
+     * the status covers every exposed validator already, nothing to load
+     */
+    addValidator: (networkId, address) => {
+        const added = get().addedValidators[networkId] || [];
+        if (added.includes(address)) return;
+        set(state => ({ addedValidators: { ...state.addedValidators, [networkId]: [...added, address] } }));
+    },
+
+    removeValidator: (networkId, address) => {
+        set(state => ({
+            addedValidators: {
+                ...state.addedValidators,
+                [networkId]: (state.addedValidators[networkId] || []).filter(added => added !== address)
+            }
+        }));
+    },
+
+    reset: () => {
+        controller.abort();
+        set(initialState);
+    }
+}));
@@ -0,0 +1,104 @@
+import { create } from 'zustand';
+import { createQuery } from '../utils/api';
+import { Nomination, RequestPriority, StakingLedger, StakingLimits, isAbortError } from '../sdk';
+
+/**
+ * state of the staking actions panel: the stash the calls are signed by, the limits they are
+ * checked against and the nominate targets picked in the validator table
+ */
+interface StakingActionsState {
+    networkId: string | null;   // network + active era + stash the data below belongs to
+    activeEra: number;
+    stash: string | null;
+    limits: StakingLimits | null;
+    ledger: StakingLedger | null;
+    nomination: Nomination | null;
+    slashingSpans: number;
+    targetsNetworkId: string | null;   // network the targets are picked on
+    targets: string[];                 // picked for the next nominate call, in picking order
+    loading: boolean;
+    error: string | null;
+
+    // actions
+    fetchStash: (networkId: string, activeEra: number, stash: string, force?: boolean) => Promise<void>;
+    toggleTarget: (networkId: string, address: string) => void;
+    setTargets: (networkId: string, addresses: string[]) => void;
+    reset: () => void;
+}
+
+const initialState = {
+    networkId: null,
+    activeEra: 0,
+    stash: null,
+    limits: null,
+    ledger: null,
+    nomination: null,
+    slashingSpans: 0,
+    targetsNetworkId: null,
+    targets: [],
+    loading: false,
+    error: null
+} satisfies Partial<StakingActionsState>;
+
+// cancels loading the previous stash
+let controller = new AbortController();
+
+export const useStakingActionsStore = create<StakingActionsState>((set, get) => ({
+    ...initialState,
+
+    // force reloads after a submitted call changed the ledger
+    fetchStash: async (networkId, activeEra, stash, force = false) => {
+        const current = get();
+        if (!force && current.networkId === networkId && current.activeEra === activeEra && current.stash === stash) return;
+
+        controller.abort();
+        controller = new AbortController();
+        const signal = controller.signal;
+        const query = createQuery(RequestPriority.visible, signal);
+
+        set({ networkId, activeEra, stash, limits: null, ledger: null, nomination: null, slashingSpans: 0, loading: true, error: null });
+
+        try {
+            const [limits, [bondedController], nomination, slashingSpans] = await Promise.all([
+                query(repository => repository.getStakingLimits()),
+                query(repository => repository.getControllers([stash])),
+                query(repository => repository.getNomination(stash)),
+                query(repository => repository.getSlashingSpanCount(stash))
+            ]);
+            const ledger = bondedController ? await query(repository => repository.getLedger(bondedController)) : undefined;
+            if (signal.aborted) return;
+
+            set({
+                limits,
+                ledger: ledger ?? null,
+                nomination: nomination ?? null,
+                slashingSpans,
+                targets: get().targets.slice(0, limits.maxNominations),
+                loading: false
+            });
+        } catch (error) {
+            if (isAbortError(error)) return;
+            // forget the key so the next call tries again
+            set({ error: (error as Error).message, loading: false, networkId: null });
+        }
+    },
+
+    // picking more than the nominations quota is ignored, picks of another network are dropped
+    toggleTarget: (networkId, address) => {
+        const { targetsNetworkId } = get();
+        const targets = targetsNetworkId === networkId ? get().targets : [];
+        const limits = get().networkId === networkId ? get().limits : null;
+        if (targets.includes(address)) set({ targets: targets.filter(target => target !== address) });
+        else if (!limits || targets.length < limits.maxNominations) set({ targetsNetworkId: networkId, targets: [...targets, address] });
+    },
+
+    setTargets: (networkId, addresses) => {
+        const limits = get().networkId === networkId ? get().limits : null;
+        set({ targetsNetworkId: networkId, targets: limits ? addresses.slice(0, limits.maxNominations) : addresses });
+    },
+
+    reset: () => {
+        controller.abort();
+        set(initialState);
+    }
+}));
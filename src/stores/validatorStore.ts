@@ -1,5 +1,31 @@
 import { create } from 'zustand';
-import { typedApi } from '../utils/api';
+import { Query, connectToNetwork, createQuery, getEraRepository, waitUntilReady } from '../utils/api';
+import { ConnectionMode, NetworkConfig } from '../utils/networks';
+import { useIdentityStore } from './identityStore';
+import { useOperatorStore } from './operatorStore';
+import {
+    EraPoints,
+    AnnualizedReturn,
+    EraTiming,
+    EMPTY_SLASHING_HISTORY,
+    ExposureAnalysis,
+    RequestPriority,
+    SlashingHistory,
+    StakeOverview,
+    average,
+    calculateEraReturn,
+    analyzeExposure,
+    buildSlashingHistories,
+    calculateHistoryAverages,
+    getValidatorRewardShare,
+    groupByIdentityRoot,
+    isAbortError,
+    isSlashedWithin,
+    perbillToRatio,
+    ratioToPerbill,
+    summarizeExposure,
+    Unsubscribe
+} from '../sdk';
 
 // main interface for validator data
 export interface Validator {
@@ -8,7 +34,12 @@ export interface Validator {
     blockedNominations: boolean;  // is alidator is accepting nominations?
     totalStake: bigint;           // total amount staked including own stake
     ownStake: bigint;             // vals own stake / skin in the game
-    lastEraAPY: number;           // calc APY for last era
+    exposure: ExposureAnalysis;   // nominator count, exposure pages and concentration in the active era
+    slashing: SlashingHistory;    // slashes and offence reports the chain still keeps (bonding duration)
+    lastEraAPR: number;           // simple annualized return of the last era
+    lastEraAPY: number;           // compounded annualized return of the last era
+    currentEraAPR: number;        // annualized return of the active era by the points so far,
+    currentEraAPY: number;        // from the projected payout until the era closes
     performance: {
         currentEraPoints: number;
         previousErasPoints: Record<number, number>;  // era number → points mapping
@@ -17,46 +48,72 @@ export interface Validator {
     rewards: {
         currentEraReward: bigint;
         previousErasRewards: Record<number, bigint>; // era number → reward mapping
+        aprByEra: Record<number, number>;            // era number → APR mapping
         apyByEra: Record<number, number>;            // era number → APY mapping
-        averageAPY: number;                          // average across all eras (including inactive)
-        activeOnlyAverageAPY: number;                // average only active eras
+        averageAPR: number;                          // average across all eras (including inactive)
+        activeOnlyAverageAPR: number;                // average only active eras
+        averageAPY: number;
+        activeOnlyAverageAPY: number;
     };
     historicalCommission: Record<number, number>;   // historical commission rates by era
     averageCommission: number;
 }
 
+export interface FilterOptions {
+    includeFullCommission?: boolean;
+    includeBlockedNominations?: boolean;
+    excludeSlashedWithinEras?: number;
+    searchQuery?: string;
+    groupByIdentity?: boolean;
+    maxPerOperator?: number;
+}
+
 /**
  * validator store state and actions
  * using zustand for state
  */
 interface ValidatorState {
+    networkId: string | null;  // network the data below belongs to
+    connectionMode: ConnectionMode;
+    historyDepth: number;      // eras of staking history the network keeps
     currentPage: number;
     pageSize: number;
     totalValidators: number;
     allValidators: Array<{ address: string; points: number }>;  // all validators info
-    filteredValidators: Array<{ address: string; points: number; lastEraAPY?: number }>;  // filtered list based on user selection
+    filteredValidators: Array<{ address: string; points: number; lastEraAPR?: number; lastEraAPY?: number }>;  // filtered list based on user selection
     displayedValidators: Validator[];  // fully hydrated validator data for the current page
     validatorCache: Record<string, Validator>;  // cache to avoid too many api calls
     prefetchSize: number;  // number of validators to prefetch
     activeEra: number;
     lastEra: number;
     currentEraReward: bigint;
-    currentEraPoints: any;
+    currentEraRewardProjected: boolean;  // currentEraReward is an estimate, the era did not close yet
+    currentEraPoints: EraPoints | null;
+    activeEraStart: number | null;       // ms timestamp
+    eraTiming: EraTiming | null;  // era length used to annualize returns
+    maxExposurePageSize: number;  // max nominators per exposure / reward page
+    slashingByValidator: Record<string, SlashingHistory>;  // only validators with slashes or reports
     historicalEras: number[];  // list of eras for historical data
     historyLength: number;     // wow many eras back to show
     maxHistoryLength: number;  // max possible eras that are stored on chain
     selectedHistoricalValidator: string | null;
     includeFullCommission: boolean;
     includeBlockedNominations: boolean;
+    excludeSlashedWithinEras: number;  // hide validators slashed in the last N eras, 0 = off
+    searchQuery: string;               // matches identity name or address
+    groupByIdentity: boolean;          // keep validators of the same (parent) identity together
+    maxPerOperator: number;            // show at most N validators of one operator, 0 = off
     loading: boolean;
     loadingPage: boolean;
     loadingAPY: boolean;
     loadingHistoricalData: boolean;
     calculatingLastEraAPY: boolean;
     lastEraAPYCalculated: boolean;
+    eraChange: { from: number; to: number } | null;  // set when a new era started while the app was open
     error: string | null;
 
     // actions
+    setNetwork: (network: NetworkConfig, mode?: ConnectionMode) => Promise<void>;
     fetchAllValidators: () => Promise<void>;
     fetchValidatorPage: (page: number) => Promise<void>;
     fetchHistoricalPerformance: (validatorAddress: string, forceRefresh?: boolean) => Promise<void>;
@@ -66,42 +123,299 @@ interface ValidatorState {
     setPageSize: (size: number) => void;
     setHistoryLength: (length: number) => Promise<void>;
     setSelectedHistoricalValidator: (address: string | null) => Promise<void>;
-    setFilterOptions: (options: { includeFullCommission?: boolean, includeBlockedNominations?: boolean }) => void;
+    setFilterOptions: (options: FilterOptions) => void;
     applyFilters: () => Promise<void>;
     prefetchValidators: () => Promise<void>;
+    watchChain: () => void;
+    dismissEraChange: () => void;
 }
 
 /**
- * main Zustand store for validator data
- * most components get data from here
+ * chain data of the store, reset when switching networks
+ * user preferences (page size, filters, history length) are kept
  */
-export const useValidatorStore = create<ValidatorState>((set, get) => ({
-    // initial vals
+const initialChainData = {
     currentPage: 1,
-    pageSize: 10,
     totalValidators: 0,
     allValidators: [],
     filteredValidators: [],
     displayedValidators: [],
     validatorCache: {},
-    prefetchSize: 100,  // prefetch 100 validators at a time - found this to be a good balance
     activeEra: 0,
     lastEra: 0,
     currentEraReward: 0n,
+    currentEraRewardProjected: false,
     currentEraPoints: null,
+    activeEraStart: null,
+    eraTiming: null,
+    maxExposurePageSize: 0,
+    slashingByValidator: {},
     historicalEras: [],
-    historyLength: 20,  // default to 20 eras
-    maxHistoryLength: 84,  // polkadot stores 84 eras of history
+    maxHistoryLength: 84,  // polkadot and kusama store 84 eras of history
     selectedHistoricalValidator: null,
-    includeFullCommission: false,
-    includeBlockedNominations: false,
     loading: false,
     loadingPage: false,
     loadingAPY: false,
     loadingHistoricalData: false,
     calculatingLastEraAPY: false,
     lastEraAPYCalculated: false,
-    error: null,
+    eraChange: null,
+    error: null
+} satisfies Partial<ValidatorState>;
+
+/**
+ * one abort controller per kind of work, restarting a lane cancels everything still running in it
+ * - load: initial load of the validator list
+ * - filter: bulk prefs query of applyFilters
+ * - page: hydration of the current page
+ * - history: history and APY of the selected validator
+ * - background: APY calc for all validators and prefetching
+ */
+type Lane = 'load' | 'filter' | 'page' | 'history' | 'background';
+
+const controllers: Record<Lane, AbortController> = {
+    load: new AbortController(),
+    filter: new AbortController(),
+    page: new AbortController(),
+    history: new AbortController(),
+    background: new AbortController()
+};
+
+// cancel the running work of a lane and return the signal for the new work
+const restartLane = (lane: Lane): AbortSignal => {
+    controllers[lane].abort();
+    controllers[lane] = new AbortController();
+    return controllers[lane].signal;
+};
+
+const restartAllLanes = () => {
+    (Object.keys(controllers) as Lane[]).forEach(restartLane);
+};
+
+// subscriptions to the active era and its points, replaced on every (re)load
+let unwatch: Unsubscribe[] = [];
+let watchRetry: ReturnType<typeof setTimeout> | undefined;
+
+// wait before subscribing again after a subscription failed (e.g. connection lost)
+const WATCH_RETRY_DELAY = 10_000;
+
+const stopWatching = () => {
+    clearTimeout(watchRetry);
+    unwatch.forEach(unsubscribe => unsubscribe());
+    unwatch = [];
+};
+
+// for `.catch()` on optional queries: ignore the failure but keep cancellation going
+const ignoreUnlessAborted = (error: unknown): undefined => {
+    if (isAbortError(error)) throw error;
+    return undefined;
+};
+
+// reward share and return of a validator in the active era
+interface CurrentEraReturn extends AnnualizedReturn {
+    reward: bigint;
+}
+
+/**
+ * reward share and annualized return in the active era by the points earned so far
+ * the era reward is the projected payout until the era closes, so is the result
+ */
+const getCurrentEraReturn = (
+    address: string,
+    commission: number,   // Perbill parts
+    totalStake: bigint,
+    eraReward: bigint,
+    eraPoints: EraPoints | null,
+    erasPerYear: number | undefined
+): CurrentEraReturn => ({
+    reward: getValidatorRewardShare(eraReward, eraPoints, address),
+    ...(eraPoints && erasPerYear
+        ? calculateEraReturn({
+            eraReward,
+            validatorPoints: eraPoints.individual[address] || 0,
+            totalPoints: eraPoints.total,
+            commission,
+            totalStake,
+            erasPerYear
+        })
+        : { apr: 0, apy: 0 })
+});
+
+const NO_CURRENT_ERA_RETURN: CurrentEraReturn = { reward: 0n, apr: 0, apy: 0 };
+
+/**
+ * create a validator object with empty historical data
+ */
+const createValidator = (
+    address: string,
+    points: number,
+    lastEraReturn: AnnualizedReturn,
+    details: {
+        commission: number;
+        blockedNominations: boolean;
+        totalStake: bigint;
+        ownStake: bigint;
+        exposure: ExposureAnalysis;
+        slashing: SlashingHistory;
+        currentEra: CurrentEraReturn;
+    }
+): Validator => ({
+    address,
+    commission: details.commission,
+    blockedNominations: details.blockedNominations,
+    totalStake: details.totalStake,
+    ownStake: details.ownStake,
+    exposure: details.exposure,
+    slashing: details.slashing,
+    lastEraAPR: lastEraReturn.apr,
+    lastEraAPY: lastEraReturn.apy,
+    currentEraAPR: details.currentEra.apr,
+    currentEraAPY: details.currentEra.apy,
+    performance: {
+        currentEraPoints: points,
+        previousErasPoints: {},
+        averagePoints: 0
+    },
+    rewards: {
+        currentEraReward: details.currentEra.reward,
+        previousErasRewards: {},
+        aprByEra: {},
+        apyByEra: {},
+        averageAPR: 0,
+        activeOnlyAverageAPR: 0,
+        averageAPY: 0,
+        activeOnlyAverageAPY: 0
+    },
+    historicalCommission: {},
+    averageCommission: details.commission
+});
+
+/**
+ * fetch prefs and stake of a validator and build the validator object
+ * falls back to a default validator object if fetching fails, cancellation is passed on
+ */
+const loadValidator = async (
+    query: Query,
+    address: string,
+    points: number,
+    lastEraReturn: AnnualizedReturn,
+    activeEra: number,
+    currentEraReward: bigint,
+    currentEraPoints: EraPoints | null,
+    erasPerYear: number | undefined,
+    maxExposurePageSize: number,
+    slashing: SlashingHistory
+): Promise<Validator> => {
+    try {
+        // get val prefs (commission, blocked status)
+        const prefs = await query(repository => repository.getValidatorPrefs(address));
+        const commission = perbillToRatio(prefs?.commission || 0);
+        const blockedNominations = prefs?.blocked || false;
+
+        // get stake info, validators without exposure just show 0 stake
+        let totalStake = 0n, ownStake = 0n;
+        const stakersOverview = await query(repository => repository.getEraStakersOverview(activeEra, address)).catch(ignoreUnlessAborted);
+        if (stakersOverview && stakersOverview.total > 0n) {
+            totalStake = stakersOverview.total;
+            ownStake = stakersOverview.own || 0n;
+        }
+
+        return createValidator(address, points, lastEraReturn, {
+            commission,
+            blockedNominations,
+            totalStake,
+            ownStake,
+            exposure: summarizeExposure(stakersOverview, maxExposurePageSize),
+            slashing,
+            currentEra: getCurrentEraReturn(address, prefs?.commission || 0, totalStake, currentEraReward, currentEraPoints, erasPerYear)
+        });
+    } catch (error) {
+        if (isAbortError(error)) throw error;
+        return createValidator(address, points, lastEraReturn, {
+            commission: 0,
+            blockedNominations: false,
+            totalStake: 0n,
+            ownStake: 0n,
+            exposure: summarizeExposure(undefined, maxExposurePageSize),
+            slashing,
+            currentEra: NO_CURRENT_ERA_RETURN
+        });
+    }
+};
+
+/**
+ * add the nominator concentration to a validator, needs all its exposure pages
+ * validators that already have it or have no nominators are returned as they are
+ */
+const loadExposureConcentration = async (query: Query, validator: Validator, activeEra: number): Promise<Validator> => {
+    if (validator.exposure.concentration || validator.exposure.pageCount === 0) return validator;
+
+    const [stakersOverview, pages] = await Promise.all([
+        query(repository => repository.getEraStakersOverview(activeEra, validator.address)),
+        query(repository => repository.getEraExposurePages(activeEra, validator.address))
+    ]).catch(ignoreUnlessAborted) ?? [];
+    if (!pages) return validator;
+
+    return { ...validator, exposure: analyzeExposure(stakersOverview, pages, validator.exposure.maxPageSize) };
+};
+
+/**
+ * main Zustand store for validator data
+ * most components get data from here
+ */
+export const useValidatorStore = create<ValidatorState>((set, get) => ({
+    // initial vals
+    ...initialChainData,
+    networkId: null,
+    connectionMode: 'rpc',
+    historyDepth: 84,
+    pageSize: 10,
+    prefetchSize: 100,  // prefetch 100 validators at a time - found this to be a good balance
+    historyLength: 20,  // default to 20 eras
+    includeFullCommission: false,
+    includeBlockedNominations: false,
+    excludeSlashedWithinEras: 0,
+    searchQuery: '',
+    groupByIdentity: false,
+    maxPerOperator: 0,
+
+    /**
+     * switch to another network or connection mode
+     * drops all chain data of the previous network, connects and reloads
+     * in light client mode loading only starts once smoldot has synced
+     */
+    setNetwork: async (network: NetworkConfig, mode: ConnectionMode = 'rpc') => {
+        if (get().networkId === network.id && get().connectionMode === mode) return;
+
+        // nothing of the previous network may land in the store anymore
+        restartAllLanes();
+        stopWatching();
+
+        set({
+            ...initialChainData,
+            networkId: network.id,
+            connectionMode: mode,
+            historyDepth: network.historyDepth,
+            maxHistoryLength: network.historyDepth,
+            loading: true
+        });
+
+        try {
+            connectToNetwork(network, mode);
+            await waitUntilReady();
+        } catch (error) {
+            // a switch destroys the client that was still connecting, its error belongs to the old network
+            if (get().networkId === network.id && get().connectionMode === mode) {
+                set({ error: (error as Error).message, loading: false });
+            }
+            return;
+        }
+
+        // switched again while waiting for the connection
+        if (get().networkId !== network.id || get().connectionMode !== mode) return;
+
+        await get().fetchAllValidators();
+    },
 
     // updates the page size and fetches the first page
     setPageSize: (size: number) => {
@@ -119,37 +433,13 @@ export const useValidatorStore = create<ValidatorState>((set, get) => ({
 
         if (!validator) return;
 
-        let pointsSum = 0;
-        let pointsCount = 0;
-        let commissionSum = 0;
-        let commissionCount = 0;
-        let apySum = 0;
-        let apyCount = 0;
-
-        // loop through all eras to calc averages
-        historicalEras.forEach(era => {
-            const wasActive = validator.performance.previousErasPoints[era] > 0;
-
-            if (wasActive) {
-                pointsSum += validator.performance.previousErasPoints[era];
-                pointsCount++;
-
-                if (validator.historicalCommission[era] !== undefined) {
-                    commissionSum += validator.historicalCommission[era];
-                    commissionCount++;
-                }
-            }
-
-            if (validator.rewards.apyByEra[era]) {
-                apySum += validator.rewards.apyByEra[era];
-                apyCount++;
-            }
-        });
-
-        // calc the averages or use defaults if no data
-        const averagePoints = pointsCount > 0 ? pointsSum / pointsCount : 0;
-        const averageCommission = commissionCount > 0 ? commissionSum / commissionCount : validator.commission;
-        const averageAPY = apyCount > 0 ? apySum / apyCount : 0;
+        const { averagePoints, averageCommission, averageAPY } = calculateHistoryAverages(
+            historicalEras,
+            validator.performance.previousErasPoints,
+            validator.historicalCommission,
+            validator.rewards.apyByEra,
+            validator.commission
+        );
 
         // update validator with the averages
         const updatedValidators = displayedValidators.map(v => {
@@ -192,8 +482,10 @@ export const useValidatorStore = create<ValidatorState>((set, get) => ({
 
         const { selectedHistoricalValidator } = get();
         if (selectedHistoricalValidator) {
-            // refresh data with the new length
+            // refresh data with the new length, drops the requests for the old length
+            const signal = restartLane('history');
             await get().fetchHistoricalPerformance(selectedHistoricalValidator, true);
+            if (signal.aborted) return;
             await get().calculateValidatorAPY(selectedHistoricalValidator);
         }
     },
@@ -203,10 +495,13 @@ export const useValidatorStore = create<ValidatorState>((set, get) => ({
      * fetch historical data
      */
     setSelectedHistoricalValidator: async (address: string | null) => {
-        set({ selectedHistoricalValidator: address });
+        // history of the previously selected validator is not needed anymore
+        const signal = restartLane('history');
+        set({ selectedHistoricalValidator: address, loadingHistoricalData: false, loadingAPY: false });
 
         if (address) {
             await get().fetchHistoricalPerformance(address, false);
+            if (signal.aborted) return;
             await get().calculateValidatorAPY(address);
         }
     },
@@ -219,7 +514,13 @@ export const useValidatorStore = create<ValidatorState>((set, get) => ({
                 : get().includeFullCommission,
             includeBlockedNominations: options.includeBlockedNominations !== undefined
                 ? options.includeBlockedNominations
-                : get().includeBlockedNominations
+                : get().includeBlockedNominations,
+            excludeSlashedWithinEras: options.excludeSlashedWithinEras !== undefined
+                ? Math.max(0, options.excludeSlashedWithinEras)
+                : get().excludeSlashedWithinEras,
+            searchQuery: options.searchQuery !== undefined ? options.searchQuery : get().searchQuery,
+            groupByIdentity: options.groupByIdentity !== undefined ? options.groupByIdentity : get().groupByIdentity,
+            maxPerOperator: options.maxPerOperator !== undefined ? Math.max(0, options.maxPerOperator) : get().maxPerOperator
         });
 
         // apply filters and fetch first page
@@ -228,79 +529,82 @@ export const useValidatorStore = create<ValidatorState>((set, get) => ({
 
     /**
      * apply filters to all validators
-     * using batch processing to avoid UI freezing
+     * prefs of all validators are fetched in one bulk query
+     * cancels the page and background work that was based on the old filters
      */
     applyFilters: async () => {
         const {
             allValidators,
             includeFullCommission,
             includeBlockedNominations,
+            excludeSlashedWithinEras,
+            slashingByValidator,
+            searchQuery,
+            groupByIdentity,
+            maxPerOperator,
+            activeEra,
             validatorCache,
             lastEraAPYCalculated
         } = get();
 
-        set({ loadingPage: true });
+        const signal = restartLane('filter');
+        restartLane('page');
+        restartLane('background');
+        set({ loadingPage: true, calculatingLastEraAPY: false });
 
         try {
-            let filteredResults = [];
+            let filteredResults: Array<{ address: string; points: number; lastEraAPR: number; lastEraAPY: number }> = [];
 
             // if all filters are on, just use all validators
             if (includeFullCommission && includeBlockedNominations) {
-                filteredResults = [...allValidators];
+                filteredResults = allValidators.map(v => ({
+                    ...v,
+                    lastEraAPR: validatorCache[v.address]?.lastEraAPR || 0,
+                    lastEraAPY: validatorCache[v.address]?.lastEraAPY || 0
+                }));
             } else {
-                // check each validator against filters
-                const batchSize = 50; // using batch processing to avoid UI freezing
-
-                for (let i = 0; i < allValidators.length; i += batchSize) {
-                    const batch = allValidators.slice(i, i + batchSize);
-                    const batchResults = await Promise.all(batch.map(async ({ address, points }) => {
-                        try {
-                            // check cache first so we dont have to call api again
-                            const cached = validatorCache[address];
-                            if (cached) {
-                                if (!includeFullCommission && cached.commission >= 1.0) return null;
-                                if (!includeBlockedNominations && cached.blockedNominations) return null;
-                                return {
-                                    address,
-                                    points,
-                                    lastEraAPY: cached.lastEraAPY || 0
-                                };
-                            }
-
-                            // not in cache, fetch from val prefs
-                            const prefs = await typedApi.query.Staking.Validators.getValue(address);
-                            const commissionValue = prefs?.commission || 0n;
-                            const commission = Number(commissionValue) / 1_000_000_000;
-                            const blockedNominations = prefs?.blocked || false;
-
-                            if (!includeFullCommission && commission >= 1.0) return null;
-                            if (!includeBlockedNominations && blockedNominations) return null;
-
-                            const cachedValidator = validatorCache[address];
-                            return {
-                                address,
-                                points,
-                                lastEraAPY: cachedValidator?.lastEraAPY || 0
-                            };
-                        } catch {
-                            // show default values when fetch fails
-                            return {
-                                address,
-                                points,
-                                lastEraAPY: 0
-                            };
-                        }
-                    }));
+                // one storage iteration instead of a request per validator
+                const prefsMap = await createQuery(RequestPriority.visible, signal)(repository => repository.getAllValidatorPrefs());
+
+                allValidators.forEach(({ address, points }) => {
+                    // prefer the cached validator, fall back to the fetched prefs
+                    const cached = validatorCache[address];
+                    const prefs = prefsMap[address];
+                    const commission = cached ? cached.commission : perbillToRatio(prefs?.commission || 0);
+                    const blockedNominations = cached ? cached.blockedNominations : prefs?.blocked || false;
+
+                    if (!includeFullCommission && commission >= 1.0) return;
+                    if (!includeBlockedNominations && blockedNominations) return;
+
+                    filteredResults.push({
+                        address,
+                        points,
+                        lastEraAPR: cached?.lastEraAPR || 0,
+                        lastEraAPY: cached?.lastEraAPY || 0
+                    });
+                });
+            }
 
-                    filteredResults.push(...batchResults.filter(Boolean));
-                }
+            // slashing data is already loaded with the validator list, no query needed
+            if (excludeSlashedWithinEras > 0) {
+                filteredResults = filteredResults.filter(({ address }) =>
+                    !isSlashedWithin(slashingByValidator[address] ?? EMPTY_SLASHING_HISTORY, activeEra, excludeSlashedWithinEras));
+            }
+
+            // identities load in the background, until then only addresses match
+            const { identities } = useIdentityStore.getState();
+            const search = searchQuery.trim().toLowerCase();
+            if (search) {
+                filteredResults = filteredResults.filter(({ address }) =>
+                    address.toLowerCase().includes(search) ||
+                    identities[address]?.display.toLowerCase().includes(search));
             }
 
             // sort by APY
             if (lastEraAPYCalculated) {
                 filteredResults = filteredResults.sort((a, b) => {
-                    const aValidator = a ? validatorCache[a.address] : null;
-                    const bValidator = b ? validatorCache[b.address] : null;
+                    const aValidator = validatorCache[a.address];
+                    const bValidator = validatorCache[b.address];
 
                     const aApy = aValidator?.lastEraAPY || 0;
                     const bApy = bValidator?.lastEraAPY || 0;
@@ -309,24 +613,40 @@ export const useValidatorStore = create<ValidatorState>((set, get) => ({
                 });
             }
 
+            // best N per operator in the current order, until APYs are calculated that is by points
+            if (maxPerOperator > 0) {
+                const { operatorOf } = useOperatorStore.getState();
+                const perOperator: Record<string, number> = {};
+                filteredResults = filteredResults.filter(({ address }) => {
+                    const operator = operatorOf[address] ?? address;
+                    perOperator[operator] = (perOperator[operator] || 0) + 1;
+                    return perOperator[operator] <= maxPerOperator;
+                });
+            }
+
+            // operators ranked by their best validator
+            if (groupByIdentity) {
+                filteredResults = groupByIdentityRoot(filteredResults, identities);
+            }
+
             set({
-                filteredValidators: filteredResults.filter((v): v is { address: string; points: number; lastEraAPY?: number } => v !== null),
+                filteredValidators: filteredResults,
                 totalValidators: filteredResults.length,
                 loadingPage: false
             });
 
             // check if we need to calculate APY for new validators
             const newValidatorsWithoutAPY = filteredResults.some(v => {
-                if (!v) return false;
                 const cachedValidator = validatorCache[v.address];
                 return !cachedValidator || cachedValidator.lastEraAPY === undefined;
             });
 
-            // queue APY calculation if needed (using setTimeout to avoid blocking UI)
+            // queue APY calculation if needed, runs with background priority
             if (newValidatorsWithoutAPY && !get().calculatingLastEraAPY) {
-                setTimeout(() => get().calculateLastEraAPYForAllValidators(), 500);
+                get().calculateLastEraAPYForAllValidators();
             }
         } catch (error) {
+            if (isAbortError(error)) return;
             set({
                 error: (error as Error).message,
                 loadingPage: false,
@@ -341,242 +661,204 @@ export const useValidatorStore = create<ValidatorState>((set, get) => ({
      * main entry point for data loading
      */
     fetchAllValidators: async () => {
-        set({ loading: true, error: null });
+        const { networkId, historyDepth } = get();
+
+        // a reload supersedes everything still running
+        restartAllLanes();
+        const signal = controllers.load.signal;
+        const query = createQuery(RequestPriority.visible, signal);
+
+        set({ loading: true, error: null, calculatingLastEraAPY: false });
         try {
             // get active era
-            const activeEraResult = await typedApi.query.Staking.ActiveEra.getValue();
-            if (!activeEraResult) throw new Error("failed gettin the active era...");
+            const activeEra = await query(repository => repository.getActiveEra());
+            if (activeEra === undefined) throw new Error("failed gettin the active era...");
+
+            // everything before the active era is final and can be cached
+            getEraRepository().setActiveEra(activeEra);
 
-            const activeEra = Number(activeEraResult.index);
             const lastEra = activeEra - 1;
-            const maxHistory = Math.min(84, activeEra); // polkadot stores 84 eras of history
+            const maxHistory = Math.min(historyDepth, activeEra); // chain only keeps historyDepth eras
 
             // get current era rewards and validator list
-            const eraReward = await typedApi.query.Staking.ErasValidatorReward.getValue(activeEra);
-            const validatorAddresses = await typedApi.query.Session.Validators.getValue();
-            const eraRewardPoints = await typedApi.query.Staking.ErasRewardPoints.getValue(activeEra);
-
-            // process points data
-            const pointsMap: Record<string, number> = {};
-            if (eraRewardPoints?.individual) {
-                const individualPoints = Array.isArray(eraRewardPoints.individual)
-                    ? eraRewardPoints.individual
-                    : [];
-
-                individualPoints.forEach(entry => {
-                    if (Array.isArray(entry) && entry.length === 2) {
-                        const [address, points] = entry;
-                        pointsMap[address.toString()] = Number(points);
-                    }
-                });
-            }
+            // the reward of the active era is only set once it ended, until then project it from the
+            // runtime inflation api, or take the last era's if the runtime doesn't have it
+            const eraReward = await query(repository => repository.getEraReward(activeEra));
+            const projectedEraReward = eraReward === undefined
+                ? await query(repository => repository.getProjectedEraPayout()).catch(ignoreUnlessAborted)
+                    ?? await query(repository => repository.getEraReward(lastEra))
+                : undefined;
+            const activeEraStart = await query(repository => repository.getActiveEraStart());
+            const validatorAddresses = await query(repository => repository.getSessionValidators());
+            const eraRewardPoints = await query(repository => repository.getEraPoints(activeEra));
+
+            // era length for annualizing, from the runtime constants checked against era start timestamps
+            const eraTiming = await query(repository => repository.getEraTiming(activeEra));
+            const maxExposurePageSize = await query(repository => repository.getMaxExposurePageSize());
+
+            // slashes are few, needed up front for the slashing filter. offence reports come later
+            const [slashes, unappliedSlashes] = await Promise.all([
+                query(repository => repository.getValidatorSlashes()),
+                query(repository => repository.getUnappliedSlashes())
+            ]);
+            const pointsMap = eraRewardPoints?.individual || {};
 
             // list of all validators with their points
             const allValidators = validatorAddresses.map(address => ({
-                address: address.toString(),
-                points: pointsMap[address.toString()] || 0
+                address,
+                points: pointsMap[address] || 0
             }));
 
             // sort by points (highest pts first)
             allValidators.sort((a, b) => b.points - a.points);
 
+            // network was switched while loading, drop the results
+            if (get().networkId !== networkId) return;
+
             set({
                 allValidators,
                 activeEra,
                 lastEra,
                 maxHistoryLength: maxHistory,
-                currentEraReward: eraReward || 0n,
-                currentEraPoints: eraRewardPoints,
+                currentEraReward: eraReward ?? projectedEraReward ?? 0n,
+                currentEraRewardProjected: eraReward === undefined,
+                currentEraPoints: eraRewardPoints || null,
+                activeEraStart: activeEraStart ?? null,
+                eraTiming,
+                maxExposurePageSize,
+                slashingByValidator: buildSlashingHistories(slashes, unappliedSlashes, {}),
                 loading: false
             });
 
+            // follow era changes and the points of the active era from here on
+            get().watchChain();
+
             // apply filters and load first page
             await get().applyFilters();
+            if (signal.aborted) return;
             await get().fetchValidatorPage(1);
+            if (signal.aborted) return;
 
-            // queue APY calculation 
-            // using setTimeout to not block the UI
-            setTimeout(() => {
+            // APY calculation and prefetching run with background priority,
+            // so they never hold up queries for the visible page
+            if (!get().calculatingLastEraAPY) {
                 get().calculateLastEraAPYForAllValidators();
-            }, 1000);
+            }
+            get().prefetchValidators();
+
+            // offence reports are a big storage map and only add to the risk badge, merged in last
+            const offenceReportCounts = await createQuery(RequestPriority.background, signal)(repository => repository.getOffenceReportCounts())
+                .catch(ignoreUnlessAborted);
+            if (!offenceReportCounts || signal.aborted) return;
 
-            // prefetch additional validator details in the background
-            setTimeout(() => {
-                get().prefetchValidators();
-            }, 2000);
+            const slashingByValidator = buildSlashingHistories(slashes, unappliedSlashes, offenceReportCounts);
+            const withSlashing = (validator: Validator): Validator =>
+                ({ ...validator, slashing: slashingByValidator[validator.address] ?? EMPTY_SLASHING_HISTORY });
+            set(state => ({
+                slashingByValidator,
+                displayedValidators: state.displayedValidators.map(withSlashing),
+                validatorCache: Object.fromEntries(Object.entries(state.validatorCache).map(([address, v]) => [address, withSlashing(v)]))
+            }));
         } catch (error) {
+            if (isAbortError(error) || get().networkId !== networkId) return;
             set({ error: (error as Error).message, loading: false });
         }
     },
 
     /**
      * calc APY for all validators based on last era data
-     * using batch processing to avoid UI freezing
+     * prefs and exposures of the era are fetched in bulk, the APYs are then calculated in one pass
+     * runs with background priority, cancelled when the filters change
      */
     calculateLastEraAPYForAllValidators: async () => {
-        const { allValidators, validatorCache, lastEra } = get();
+        const { allValidators, validatorCache, lastEra, eraTiming } = get();
+        if (!eraTiming) return;
+
+        const query = createQuery(RequestPriority.background, controllers.background.signal);
 
         set({ calculatingLastEraAPY: true, lastEraAPYCalculated: false });
 
         try {
-            // get era reward & points
-            const eraReward = await typedApi.query.Staking.ErasValidatorReward.getValue(lastEra);
-            if (!eraReward) {
+            // get era reward, points, prefs & exposures in parallel
+            const [eraReward, eraPoints, prefsMap, overviewMap] = await Promise.all([
+                query(repository => repository.getEraReward(lastEra)),
+                query(repository => repository.getEraPoints(lastEra)),
+                query(repository => repository.getEraValidatorPrefsMap(lastEra)),
+                query(repository => repository.getEraStakersOverviewMap(lastEra))
+            ]);
+
+            if (!eraReward || !eraPoints || !eraPoints.total) {
                 set({ calculatingLastEraAPY: false });
                 return;
             }
 
-            const eraPoints = await typedApi.query.Staking.ErasRewardPoints.getValue(lastEra);
-            if (!eraPoints?.individual || !eraPoints.total) {
-                set({ calculatingLastEraAPY: false });
-                return;
-            }
-
-            const totalEraPoints = Number(eraPoints.total);
-            const individualPoints: Record<string, number> = {};
-
-            // get individual points
-            if (Array.isArray(eraPoints.individual)) {
-                eraPoints.individual.forEach(entry => {
-                    if (Array.isArray(entry) && entry.length === 2) {
-                        const [address, points] = entry;
-                        individualPoints[address.toString()] = Number(points);
-                    }
-                });
-            }
-
-            // using batch processing to avoid UI freezing
-            const batchSize = 25;
             const newCacheEntries: Record<string, Validator> = {};
-            const validatorsWithAPY: { address: string; points: number; lastEraAPY: number }[] = [];
-
-            for (let i = 0; i < allValidators.length; i += batchSize) {
-                const batch = allValidators.slice(i, i + batchSize);
-
-                const batchResults = await Promise.all(batch.map(async (validator) => {
-                    const { address } = validator;
-                    try {
-                        // check if we already have the APY calculated
-                        const existingValidator = validatorCache[address];
-                        if (existingValidator && typeof existingValidator.lastEraAPY === 'number' && existingValidator.lastEraAPY > 0) {
-                            return {
-                                address,
-                                lastEraAPY: existingValidator.lastEraAPY,
-                                validatorInstance: existingValidator
-                            };
-                        }
-
-                        const validatorPoints = individualPoints[address] || 0;
-
-                        // get validator prefs for the era
-                        const validatorPrefs = await typedApi.query.Staking.ErasValidatorPrefs.getValue(lastEra, address);
-                        const commissionValue = validatorPrefs?.commission || 0n;
-                        const commission = Number(commissionValue) / 1_000_000_000;
-                        const blockedNominations = validatorPrefs?.blocked || false;
-
-                        // get stake info
-                        const stakersOverview = await typedApi.query.Staking.ErasStakersOverview.getValue(lastEra, address);
-                        if (!stakersOverview || !stakersOverview.total || stakersOverview.total === 0n) {
-                            return {
-                                address,
-                                lastEraAPY: 0,
-                                validatorInstance: existingValidator ? {
-                                    ...existingValidator,
-                                    lastEraAPY: 0
-                                } : null
-                            };
-                        }
-
-                        const totalStake = stakersOverview.total;
-
-                        // calc APY
-                        let apy = 0;
-                        if (validatorPoints > 0) {
-                            // APY ccalc formula:
-                            // 1. calculate validators share of era rewards based on points
-                            // 2. remove commission
-                            // 3. calc return rate for the era
-                            // 4. annualize by multiplying by 365.25 days
-                            const pointsRatio = validatorPoints / totalEraPoints;
-                            const validatorReward = BigInt(Math.floor(Number(eraReward) * pointsRatio));
-
-                            const commissionPart = BigInt(Math.floor(commission * 1_000_000_000));
-                            const nominatorRatio = 1_000_000_000n - commissionPart;
-                            const nominatorReward = (validatorReward * nominatorRatio) / 1_000_000_000n;
-
-                            const eraReturnRate = Number(nominatorReward) / Number(totalStake);
-                            apy = eraReturnRate * 365.25 * 100; // convert to percentage and annualize
-                        }
+            const returnsByValidator = new Map<string, AnnualizedReturn>();
+
+            allValidators.forEach(({ address }) => {
+                // check if we already have the APY calculated
+                const existingValidator = validatorCache[address];
+                if (existingValidator && typeof existingValidator.lastEraAPY === 'number' && existingValidator.lastEraAPY > 0) {
+                    returnsByValidator.set(address, { apr: existingValidator.lastEraAPR, apy: existingValidator.lastEraAPY });
+                    return;
+                }
 
-                        if (existingValidator) {
-                            const updatedValidator = {
-                                ...existingValidator,
-                                lastEraAPY: apy,
-                                commission,
-                                blockedNominations
-                            };
-
-                            newCacheEntries[address] = updatedValidator;
-                            return {
-                                address,
-                                lastEraAPY: apy,
-                                validatorInstance: updatedValidator
-                            };
-                        }
+                const commission = perbillToRatio(prefsMap[address]?.commission || 0);
+                const blockedNominations = prefsMap[address]?.blocked || false;
+
+                // validators without exposure in the era earned nothing
+                const stakersOverview = overviewMap[address];
+                const eraReturn = stakersOverview && stakersOverview.total > 0n
+                    ? calculateEraReturn({
+                        eraReward,
+                        validatorPoints: eraPoints.individual[address] || 0,
+                        totalPoints: eraPoints.total,
+                        commission: prefsMap[address]?.commission || 0,
+                        totalStake: stakersOverview.total,
+                        erasPerYear: eraTiming.erasPerYear
+                    })
+                    : { apr: 0, apy: 0 };
+
+                returnsByValidator.set(address, eraReturn);
+
+                if (existingValidator) {
+                    newCacheEntries[address] = stakersOverview && stakersOverview.total > 0n
+                        ? { ...existingValidator, lastEraAPR: eraReturn.apr, lastEraAPY: eraReturn.apy, commission, blockedNominations }
+                        : { ...existingValidator, lastEraAPR: 0, lastEraAPY: 0 };
+                }
+            });
 
-                        return {
-                            address,
-                            lastEraAPY: apy,
-                            validatorInstance: null
-                        };
-                    } catch {
-                        return {
-                            address,
-                            lastEraAPY: 0,
-                            validatorInstance: null
-                        };
+            if (Object.keys(newCacheEntries).length > 0) {
+                set(state => ({
+                    validatorCache: {
+                        ...state.validatorCache,
+                        ...newCacheEntries
                     }
                 }));
-
-                batchResults.forEach(({ address, lastEraAPY, validatorInstance }) => {
-                    validatorsWithAPY.push({ address, points: 0, lastEraAPY });
-
-                    if (validatorInstance) {
-                        newCacheEntries[address] = validatorInstance;
-                    }
-                });
-
-                // update cache in batches
-                if (Object.keys(newCacheEntries).length > 0) {
-                    set(state => ({
-                        validatorCache: {
-                            ...state.validatorCache,
-                            ...newCacheEntries
-                        }
-                    }));
-                }
             }
 
             // update validator lists with calculated APYs
             set(state => {
-                const apyMap = new Map<string, number>();
-                validatorsWithAPY.forEach(v => apyMap.set(v.address, v.lastEraAPY));
-
                 const updatedFiltered = state.filteredValidators.map(v => ({
                     ...v,
-                    lastEraAPY: apyMap.get(v.address) || 0
+                    lastEraAPR: returnsByValidator.get(v.address)?.apr || 0,
+                    lastEraAPY: returnsByValidator.get(v.address)?.apy || 0
                 }));
 
                 // sort by APY - highest first
                 updatedFiltered.sort((a, b) => (b.lastEraAPY || 0) - (a.lastEraAPY || 0));
+                const orderedFiltered = state.groupByIdentity
+                    ? groupByIdentityRoot(updatedFiltered, useIdentityStore.getState().identities)
+                    : updatedFiltered;
 
                 const updatedDisplayed = state.displayedValidators.map(v => ({
                     ...v,
-                    lastEraAPY: apyMap.get(v.address) || 0
+                    lastEraAPR: returnsByValidator.get(v.address)?.apr || 0,
+                    lastEraAPY: returnsByValidator.get(v.address)?.apy || 0
                 }));
 
                 return {
-                    filteredValidators: updatedFiltered,
+                    filteredValidators: orderedFiltered,
                     displayedValidators: updatedDisplayed,
                     lastEraAPYCalculated: true,
                     calculatingLastEraAPY: false
@@ -587,6 +869,8 @@ export const useValidatorStore = create<ValidatorState>((set, get) => ({
             await get().fetchValidatorPage(1);
 
         } catch (error) {
+            // cancelled by a filter change, whoever cancelled it resets the flags
+            if (isAbortError(error)) return;
             set({
                 calculatingLastEraAPY: false,
                 error: `calculation error for apy calcs: ${(error as Error).message}`
@@ -599,9 +883,11 @@ export const useValidatorStore = create<ValidatorState>((set, get) => ({
      * trying to speed up loading time
      */
     prefetchValidators: async () => {
-        const { filteredValidators, validatorCache, prefetchSize, activeEra, currentEraPoints } = get();
+        const { filteredValidators, validatorCache, prefetchSize, activeEra, currentEraReward, currentEraPoints, eraTiming, maxExposurePageSize, slashingByValidator } = get();
         if (filteredValidators.length === 0) return;
 
+        const query = createQuery(RequestPriority.background, controllers.background.signal);
+
         try {
             // only prefetch validators if not in cache
             const toPrefetch = filteredValidators
@@ -612,258 +898,156 @@ export const useValidatorStore = create<ValidatorState>((set, get) => ({
                 return;
             }
 
-            // using batch processing to avoid UI freezing
-            const batchSize = 10;
-            const newCacheEntries: Record<string, Validator> = {};
+            // prefs and exposures of all validators in two bulk queries
+            const [prefsMap, overviewMap] = await Promise.all([
+                query(repository => repository.getAllValidatorPrefs()),
+                query(repository => repository.getEraStakersOverviewMap(activeEra))
+                    .catch(error => ignoreUnlessAborted(error) ?? ({} as Record<string, StakeOverview>))
+            ]);
 
-            for (let i = 0; i < toPrefetch.length; i += batchSize) {
-                const batch = toPrefetch.slice(i, i + batchSize);
-                const batchResults = await Promise.all(batch.map(async ({ address, points, lastEraAPY }) => {
-                    try {
-                        // get val prefs (commission, blocked status)
-                        const prefs = await typedApi.query.Staking.Validators.getValue(address);
-                        const commissionValue = prefs?.commission || 0n;
-                        const commission = Number(commissionValue) / 1_000_000_000;
-                        const blockedNominations = prefs?.blocked || false;
-
-                        // get stake information 
-                        let totalStake = 0n, ownStake = 0n;
-                        try {
-                            const stakersOverview = await typedApi.query.Staking.ErasStakersOverview.getValue(activeEra, address);
-                            if (stakersOverview && stakersOverview.total > 0n) {
-                                totalStake = stakersOverview.total;
-                                ownStake = stakersOverview.own || 0n;
-                            }
-                        } catch { }
-
-                        // calc current era rewards if possible
-                        let validatorReward = 0n;
-                        if (get().currentEraReward && points > 0 && currentEraPoints?.total > 0) {
-                            const totalEraPoints = Number(currentEraPoints.total);
-                            const pointsRatio = points / totalEraPoints;
-                            const fixedPointMultiplier = 1_000_000n; // fixed point for BigInt calcs
-                            const ratioFixed = BigInt(Math.floor(pointsRatio * Number(fixedPointMultiplier)));
-                            validatorReward = (ratioFixed * get().currentEraReward) / fixedPointMultiplier;
-                        }
-
-                        return {
-                            address,
-                            validator: {
-                                address,
-                                commission,
-                                blockedNominations,
-                                totalStake,
-                                ownStake,
-                                lastEraAPY: lastEraAPY || 0,
-                                performance: {
-                                    currentEraPoints: points,
-                                    previousErasPoints: {},
-                                    averagePoints: 0
-                                },
-                                rewards: {
-                                    currentEraReward: validatorReward,
-                                    previousErasRewards: {},
-                                    apyByEra: {},
-                                    averageAPY: 0,
-                                    activeOnlyAverageAPY: 0
-                                },
-                                historicalCommission: {},
-                                averageCommission: commission
-                            }
-                        };
-                    } catch {
-                        // default validator object if fetch fails
-                        return {
-                            address,
-                            validator: {
-                                address,
-                                commission: 0,
-                                blockedNominations: false,
-                                totalStake: 0n,
-                                ownStake: 0n,
-                                lastEraAPY: lastEraAPY || 0,
-                                performance: {
-                                    currentEraPoints: points,
-                                    previousErasPoints: {},
-                                    averagePoints: 0
-                                },
-                                rewards: {
-                                    currentEraReward: 0n,
-                                    previousErasRewards: {},
-                                    apyByEra: {},
-                                    averageAPY: 0,
-                                    activeOnlyAverageAPY: 0
-                                },
-                                historicalCommission: {},
-                                averageCommission: 0
-                            }
-                        };
-                    }
-                }));
-
-                batchResults.forEach(({ address, validator }) => {
-                    newCacheEntries[address] = validator;
+            const newCacheEntries: Record<string, Validator> = {};
+            toPrefetch.forEach(({ address, points, lastEraAPR, lastEraAPY }) => {
+                const prefs = prefsMap[address];
+                const stakersOverview = overviewMap[address];
+                const hasStake = stakersOverview !== undefined && stakersOverview.total > 0n;
+
+                newCacheEntries[address] = createValidator(address, points, { apr: lastEraAPR || 0, apy: lastEraAPY || 0 }, {
+                    commission: perbillToRatio(prefs?.commission || 0),
+                    blockedNominations: prefs?.blocked || false,
+                    totalStake: hasStake ? stakersOverview.total : 0n,
+                    ownStake: hasStake ? stakersOverview.own : 0n,
+                    exposure: summarizeExposure(stakersOverview, maxExposurePageSize),
+                    slashing: slashingByValidator[address] ?? EMPTY_SLASHING_HISTORY,
+                    currentEra: getCurrentEraReturn(address, prefs?.commission || 0, hasStake ? stakersOverview.total : 0n,
+                        currentEraReward, currentEraPoints, eraTiming?.erasPerYear)
                 });
+            });
 
-                // update cache with batch
-                set(state => ({
-                    validatorCache: {
-                        ...state.validatorCache,
-                        ...newCacheEntries
-                    }
-                }));
-            }
+            set(state => ({
+                validatorCache: {
+                    ...state.validatorCache,
+                    ...newCacheEntries
+                }
+            }));
         } catch (error) {
+            if (isAbortError(error)) return;
             set({ error: (error as Error).message });
         }
     },
 
+    /**
+     * subscribe to the active era and the points of the active era
+     * points are updated in place, a new era reloads everything with a fresh cache and shows a notice
+     */
+    watchChain: () => {
+        stopWatching();
+        const { networkId, activeEra } = get();
+        const repository = getEraRepository();
+
+        // a failed subscription is not worth an error message, the data just stops updating until the retry
+        const retry = () => {
+            stopWatching();
+            watchRetry = setTimeout(() => {
+                if (get().networkId === networkId) get().watchChain();
+            }, WATCH_RETRY_DELAY);
+        };
+
+        unwatch.push(repository.watchActiveEra(async (era) => {
+            const state = get();
+            if (era === undefined || era <= state.activeEra || state.networkId !== networkId) return;
+
+            // last era APYs and exposures of the cached validators belong to the old eras
+            const selected = state.selectedHistoricalValidator;
+            set({ eraChange: { from: state.activeEra, to: era }, validatorCache: {}, lastEraAPYCalculated: false });
+            await get().fetchAllValidators();
+
+            // the reload cancelled the history of the selected validator, load it for the new eras
+            if (selected && get().networkId === networkId) get().setSelectedHistoricalValidator(selected);
+        }, retry));
+
+        unwatch.push(repository.watchEraPoints(activeEra, (points) => {
+            if (!points || get().networkId !== networkId || get().activeEra !== activeEra) return;
+
+            const withPoints = <T extends { address: string; points: number }>(validators: T[]): T[] =>
+                validators.map(v => ({ ...v, points: points.individual[v.address] || 0 }));
+            const { currentEraReward, eraTiming } = get();
+            const withEraPoints = (validator: Validator): Validator => {
+                const currentEra = getCurrentEraReturn(validator.address, ratioToPerbill(validator.commission), validator.totalStake,
+                    currentEraReward, points, eraTiming?.erasPerYear);
+                return {
+                    ...validator,
+                    currentEraAPR: currentEra.apr,
+                    currentEraAPY: currentEra.apy,
+                    performance: { ...validator.performance, currentEraPoints: points.individual[validator.address] || 0 },
+                    rewards: { ...validator.rewards, currentEraReward: currentEra.reward }
+                };
+            };
+
+            // order stays as it is, re-sorting every block would move validators between pages
+            set(state => ({
+                currentEraPoints: points,
+                allValidators: withPoints(state.allValidators),
+                filteredValidators: withPoints(state.filteredValidators),
+                displayedValidators: state.displayedValidators.map(withEraPoints),
+                validatorCache: Object.fromEntries(Object.entries(state.validatorCache).map(([address, v]) => [address, withEraPoints(v)]))
+            }));
+        }, retry));
+    },
+
+    dismissEraChange: () => set({ eraChange: null }),
+
     /**
      * fetch val data for a specific page
      * hydrate the basic validator list with full details
+     * a newer page request cancels this one, so a slow old page never replaces the current one
      */
     fetchValidatorPage: async (page: number) => {
-        const { filteredValidators, pageSize, activeEra, currentEraPoints, validatorCache } = get();
+        const { filteredValidators, pageSize, activeEra, currentEraReward, currentEraPoints, eraTiming, validatorCache, maxExposurePageSize, slashingByValidator } = get();
         if (filteredValidators.length === 0) return;
 
+        const signal = restartLane('page');
+        const query = createQuery(RequestPriority.visible, signal);
+
         set({ loadingPage: true, currentPage: page });
 
         try {
             const startIdx = (page - 1) * pageSize;
             const pageValidators = filteredValidators.slice(startIdx, startIdx + pageSize);
 
-            // using batch processing to avoid UI freezing
-            const batchSize = 10;
-            const detailedValidators: Validator[] = [];
-
-            for (let i = 0; i < pageValidators.length; i += batchSize) {
-                const batch = pageValidators.slice(i, i + batchSize);
-                const batchPromises = batch.map(async ({ address, points, lastEraAPY }) => {
-                    // check cache
-                    if (validatorCache[address]) {
-                        const cached = validatorCache[address];
-                        // if APY has change - update the cached validator
-                        if (lastEraAPY !== undefined && cached.lastEraAPY !== lastEraAPY) {
-                            const updatedValidator = {
-                                ...cached,
-                                lastEraAPY: lastEraAPY
-                            };
-
-                            set(state => ({
-                                validatorCache: {
-                                    ...state.validatorCache,
-                                    [address]: updatedValidator
-                                }
-                            }));
-
-                            return updatedValidator;
-                        }
-                        return cached;
-                    }
-
-                    // not in cache, fetch from val prefs
-                    try {
-                        // get val prefs
-                        const prefs = await typedApi.query.Staking.Validators.getValue(address);
-                        const commissionValue = prefs?.commission || 0n;
-                        const commission = Number(commissionValue) / 1_000_000_000;
-                        const blockedNominations = prefs?.blocked || false;
-
-                        // get stake info
-                        let totalStake = 0n, ownStake = 0n;
-                        try {
-                            const stakersOverview = await typedApi.query.Staking.ErasStakersOverview.getValue(activeEra, address);
-                            if (stakersOverview && stakersOverview.total > 0n) {
-                                totalStake = stakersOverview.total;
-                                ownStake = stakersOverview.own || 0n;
-                            }
-                        } catch { }
-
-                        // calc current era rewards
-                        let validatorReward = 0n;
-                        if (get().currentEraReward && points > 0 && currentEraPoints?.total > 0) {
-                            const totalEraPoints = Number(currentEraPoints.total);
-                            const pointsRatio = points / totalEraPoints;
-                            const fixedPointMultiplier = 1_000_000n; // using fixed point for BigInt calcs
-                            const ratioFixed = BigInt(Math.floor(pointsRatio * Number(fixedPointMultiplier)));
-                            validatorReward = (ratioFixed * get().currentEraReward) / fixedPointMultiplier;
-                        }
+            // the scheduler caps how many of these hit the chain at once
+            const detailedValidators = await Promise.all(pageValidators.map(async ({ address, points, lastEraAPR, lastEraAPY }) => {
+                // check cache
+                const cached = validatorCache[address];
+                let validator: Validator;
+                if (cached) {
+                    // if APY has change - update the cached validator
+                    validator = lastEraAPY !== undefined && cached.lastEraAPY !== lastEraAPY
+                        ? { ...cached, lastEraAPR: lastEraAPR || 0, lastEraAPY }
+                        : cached;
+                } else {
+                    // not in cache, fetch from chain
+                    const lastEraReturn = { apr: lastEraAPR || 0, apy: lastEraAPY || 0 };
+                    validator = await loadValidator(query, address, points, lastEraReturn, activeEra, currentEraReward, currentEraPoints,
+                        eraTiming?.erasPerYear, maxExposurePageSize, slashingByValidator[address] ?? EMPTY_SLASHING_HISTORY);
+                }
 
-                        // new validator object with fetched data
-                        const newValidator = {
-                            address,
-                            commission,
-                            blockedNominations,
-                            totalStake,
-                            ownStake,
-                            lastEraAPY: lastEraAPY || 0,
-                            performance: {
-                                currentEraPoints: points,
-                                previousErasPoints: {},
-                                averagePoints: 0
-                            },
-                            rewards: {
-                                currentEraReward: validatorReward,
-                                previousErasRewards: {},
-                                apyByEra: {},
-                                averageAPY: 0,
-                                activeOnlyAverageAPY: 0
-                            },
-                            historicalCommission: {},
-                            averageCommission: commission
-                        };
-
-                        // update cache
-                        set(state => ({
-                            validatorCache: {
-                                ...state.validatorCache,
-                                [address]: newValidator
-                            }
-                        }));
-
-                        return newValidator;
-                    } catch {
-                        // default validator object if fetch fails
-                        const newValidator = {
-                            address,
-                            commission: 0,
-                            blockedNominations: false,
-                            totalStake: 0n,
-                            ownStake: 0n,
-                            lastEraAPY: lastEraAPY || 0,
-                            performance: {
-                                currentEraPoints: points,
-                                previousErasPoints: {},
-                                averagePoints: 0
-                            },
-                            rewards: {
-                                currentEraReward: 0n,
-                                previousErasRewards: {},
-                                apyByEra: {},
-                                averageAPY: 0,
-                                activeOnlyAverageAPY: 0
-                            },
-                            historicalCommission: {},
-                            averageCommission: 0
-                        };
-
-                        set(state => ({
-                            validatorCache: {
-                                ...state.validatorCache,
-                                [address]: newValidator
-                            }
-                        }));
-
-                        return newValidator;
-                    }
-                });
+                // nominator concentration needs all exposure pages, only loaded for the visible page
+                return loadExposureConcentration(query, validator, activeEra);
+            }));
 
-                const batchResults = await Promise.all(batchPromises);
-                detailedValidators.push(...batchResults);
-            }
+            // superseded while loading, the newer request owns the page
+            if (signal.aborted) return;
 
-            set({ displayedValidators: detailedValidators, loadingPage: false });
+            set(state => ({
+                displayedValidators: detailedValidators,
+                validatorCache: {
+                    ...state.validatorCache,
+                    ...Object.fromEntries(detailedValidators.map(v => [v.address, v]))
+                },
+                loadingPage: false
+            }));
         } catch (error) {
+            if (isAbortError(error)) return;
             set({ error: (error as Error).message, loadingPage: false });
         }
     },
@@ -876,6 +1060,10 @@ export const useValidatorStore = create<ValidatorState>((set, get) => ({
         const { activeEra, historyLength, validatorCache, displayedValidators } = get();
         if (!validatorAddress) return;
 
+        // cancelled when another validator or history length gets selected
+        const signal = controllers.history.signal;
+        const query = createQuery(RequestPriority.history, signal);
+
         set({ loadingHistoricalData: true });
 
         try {
@@ -908,77 +1096,44 @@ export const useValidatorStore = create<ValidatorState>((set, get) => ({
             const validatorRewards: Record<number, bigint> = {};
             const validatorCommissions: Record<number, number> = {};
 
-            // using batch processing to avoid UI freezing
-            const batchSize = 5;
-            for (let i = 0; i < historicalEras.length; i += batchSize) {
-                const eraBatch = historicalEras.slice(i, i + batchSize);
-
-                await Promise.all(eraBatch.map(async (era) => {
-                    try {
-                        // get points and rewards for the era
-                        const eraPoints = await typedApi.query.Staking.ErasRewardPoints.getValue(era);
-                        const eraReward = await typedApi.query.Staking.ErasValidatorReward.getValue(era);
-
-                        if (eraPoints?.individual) {
-                            const individualPoints = Array.isArray(eraPoints.individual)
-                                ? eraPoints.individual
-                                : [];
-
-                            // find validator points
-                            let validatorPoints = 0;
-                            for (const entry of individualPoints) {
-                                if (Array.isArray(entry) && entry.length === 2) {
-                                    const [address, points] = entry;
-                                    if (address.toString() === validatorAddress) {
-                                        validatorPoints = Number(points);
-                                        validatorPerformance[era] = validatorPoints;
-
-                                        // calc validators reward for this era
-                                        if (eraReward && eraPoints.total > 0) {
-                                            const totalPointsValue = Number(eraPoints.total);
-                                            const pointsRatio = validatorPoints / totalPointsValue;
-                                            const fixedPointMultiplier = 1_000_000n;
-                                            const ratioFixed = BigInt(Math.floor(pointsRatio * Number(fixedPointMultiplier)));
-                                            validatorRewards[era] = (ratioFixed * eraReward) / fixedPointMultiplier;
-                                        }
-                                        break;
-                                    }
-                                }
-                            }
+            // the scheduler caps how many eras are fetched at once
+            await Promise.all(historicalEras.map(async (era) => {
+                try {
+                    // get points and rewards for the era
+                    const eraPoints = await query(repository => repository.getEraPoints(era));
+                    const eraReward = await query(repository => repository.getEraReward(era));
+
+                    // find validator points and calc its reward for this era
+                    const validatorPoints = eraPoints?.individual[validatorAddress];
+                    if (eraPoints && validatorPoints !== undefined) {
+                        validatorPerformance[era] = validatorPoints;
+                        if (eraReward && eraPoints.total > 0) {
+                            validatorRewards[era] = getValidatorRewardShare(eraReward, eraPoints, validatorAddress);
                         }
-                        // get commission for the era
-                        try {
-                            const validatorPrefs = await typedApi.query.Staking.ErasValidatorPrefs.getValue(era, validatorAddress);
-                            if (validatorPrefs?.commission) {
-                                const commission = Number(validatorPrefs.commission) / 1_000_000_000;
-                                validatorCommissions[era] = commission;
-                            }
-                        } catch { }
-                    } catch {
-                        set({ error: `something went wrong fetching the era data for ${era}` });
                     }
-                }));
-            }
 
-            // calc averages
-            const historicalPointsArray = [];
-            const commissionValues = [];
-
-            for (const era of historicalEras) {
-                if (validatorPerformance[era] !== undefined) {
-                    historicalPointsArray.push(validatorPerformance[era]);
-                }
-                if (validatorCommissions[era] !== undefined) {
-                    commissionValues.push(validatorCommissions[era]);
+                    // get commission for the era, missing prefs just leave a gap in the history
+                    const validatorPrefs = await query(repository => repository.getEraValidatorPrefs(era, validatorAddress)).catch(ignoreUnlessAborted);
+                    if (validatorPrefs?.commission !== undefined) {
+                        validatorCommissions[era] = perbillToRatio(validatorPrefs.commission);
+                    }
+                } catch (error) {
+                    if (isAbortError(error)) throw error;
+                    set({ error: `something went wrong fetching the era data for ${era}` });
                 }
-            }
-
-            const averagePoints = historicalPointsArray.length > 0
-                ? historicalPointsArray.reduce((a, b) => a + b, 0) / historicalPointsArray.length
-                : 0;
+            }));
 
+            // calc averages
+            const historicalPoints = historicalEras
+                .filter(era => validatorPerformance[era] !== undefined)
+                .map(era => validatorPerformance[era]);
+            const commissionValues = historicalEras
+                .filter(era => validatorCommissions[era] !== undefined)
+                .map(era => validatorCommissions[era]);
+
+            const averagePoints = average(historicalPoints);
             const averageCommission = commissionValues.length > 0
-                ? commissionValues.reduce((a, b) => a + b, 0) / commissionValues.length
+                ? average(commissionValues)
                 : validator.commission;
 
             // update with historical data
@@ -992,7 +1147,10 @@ export const useValidatorStore = create<ValidatorState>((set, get) => ({
                 rewards: {
                     ...validator.rewards,
                     previousErasRewards: validatorRewards,
+                    aprByEra: validator.rewards.aprByEra || {},
                     apyByEra: validator.rewards.apyByEra || {},
+                    averageAPR: validator.rewards.averageAPR || 0,
+                    activeOnlyAverageAPR: validator.rewards.activeOnlyAverageAPR || 0,
                     averageAPY: validator.rewards.averageAPY || 0,
                     activeOnlyAverageAPY: validator.rewards.activeOnlyAverageAPY || 0
                 },
@@ -1000,149 +1158,106 @@ export const useValidatorStore = create<ValidatorState>((set, get) => ({
                 averageCommission
             };
 
-            // update cache
+            // update cache and displayed validators if this one is shown
+            // the page may have changed while loading, so map the current page
             set(state => ({
                 validatorCache: {
                     ...state.validatorCache,
                     [validatorAddress]: updatedValidator
-                }
-            }));
-
-            // update displayed validators if this one is shown
-            const updatedDisplayedValidators = displayedValidators.map(v =>
-                v.address === validatorAddress ? updatedValidator : v
-            );
-
-            set({
-                displayedValidators: updatedDisplayedValidators,
+                },
+                displayedValidators: state.displayedValidators.map(v =>
+                    v.address === validatorAddress ? updatedValidator : v
+                ),
                 loadingHistoricalData: false
-            });
+            }));
         } catch (error) {
+            if (isAbortError(error)) return;
             set({ error: (error as Error).message, loadingHistoricalData: false });
         }
     },
 
     /**
-     * calc APY for each historical era for a validator
+     * calc APR and APY for each historical era for a validator
      * gives us the trend of APY over time
      */
     calculateValidatorAPY: async (validatorAddress: string) => {
-        const { historicalEras, displayedValidators, validatorCache } = get();
+        const { historicalEras, displayedValidators, validatorCache, eraTiming } = get();
         const validator = displayedValidators.find(v => v.address === validatorAddress) ||
             validatorCache[validatorAddress];
 
-        if (!validator) return;
+        if (!validator || !eraTiming) return;
+
+        // cancelled when another validator or history length gets selected
+        const signal = controllers.history.signal;
+        const query = createQuery(RequestPriority.history, signal);
 
         set({ loadingAPY: true });
 
         try {
+            const aprByEra: Record<number, number> = {};
             const apyByEra: Record<number, number> = {};
 
-            // using batch processing to avoid UI freezing
-            const batchSize = 3;
-            for (let i = 0; i < historicalEras.length; i += batchSize) {
-                const batch = historicalEras.slice(i, i + batchSize);
-                await Promise.all(batch.map(async (era) => {
-                    try {
-                        // get era reward
-                        const eraReward = await typedApi.query.Staking.ErasValidatorReward.getValue(era);
-                        if (!eraReward) return;
-
-                        // get era points
-                        const eraPoints = await typedApi.query.Staking.ErasRewardPoints.getValue(era);
-                        if (!eraPoints?.individual) return;
-
-                        // find validators points
-                        let validatorPoints = 0;
-                        const individualPoints = Array.isArray(eraPoints.individual)
-                            ? eraPoints.individual
-                            : [];
-
-                        for (const entry of individualPoints) {
-                            if (Array.isArray(entry) && entry.length === 2) {
-                                const [address, points] = entry;
-                                if (address.toString() === validatorAddress) {
-                                    validatorPoints = Number(points);
-                                    break;
-                                }
-                            }
-                        }
-
-                        if (validatorPoints === 0 || !eraPoints.total) return;
-
-                        // get commission - use historical or current
-                        const commission = validator.historicalCommission[era] || validator.commission;
-
-                        // get stake information
-                        const stakersOverview = await typedApi.query.Staking.ErasStakersOverview.getValue(era, validatorAddress);
-                        if (!stakersOverview || !stakersOverview.total || stakersOverview.total === 0n) return;
-
-                        const totalStake = stakersOverview.total;
-
-                        // calc APY using the formula:
-                        // 1. get validator's share of rewards based on points
-                        // 2. minus commission
-                        // 3. calculate return rate
-                        // 4. annualize
-                        const totalEraPoints = Number(eraPoints.total);
-                        const pointsRatio = validatorPoints / totalEraPoints;
-                        const validatorReward = BigInt(Math.floor(Number(eraReward) * pointsRatio));
-
-                        const commissionPart = BigInt(Math.floor(commission * 1_000_000_000));
-                        const nominatorRatio = 1_000_000_000n - commissionPart;
-                        const nominatorReward = (validatorReward * nominatorRatio) / 1_000_000_000n;
-
-                        const eraReturnRate = Number(nominatorReward) / Number(totalStake);
-                        const apy = eraReturnRate * 365.25 * 100; // annualize and convert to percentage
-
-                        apyByEra[era] = apy;
-                    } catch {
-                        set({ error: `APY calc error for era ${era}` });
-                    }
-                }));
-            }
+            // the scheduler caps how many eras are fetched at once
+            await Promise.all(historicalEras.map(async (era) => {
+                try {
+                    // get era reward and points
+                    const eraReward = await query(repository => repository.getEraReward(era));
+                    if (!eraReward) return;
+
+                    const eraPoints = await query(repository => repository.getEraPoints(era));
+                    const validatorPoints = eraPoints?.individual[validatorAddress] || 0;
+                    if (!eraPoints || validatorPoints === 0 || !eraPoints.total) return;
+
+                    // get commission - use historical or current, 0% is a commission too
+                    const commission = ratioToPerbill(validator.historicalCommission[era] ?? validator.commission);
+
+                    // get stake information
+                    const stakersOverview = await query(repository => repository.getEraStakersOverview(era, validatorAddress));
+                    if (!stakersOverview || !stakersOverview.total || stakersOverview.total === 0n) return;
+
+                    const { apr, apy } = calculateEraReturn({
+                        eraReward,
+                        validatorPoints,
+                        totalPoints: eraPoints.total,
+                        commission,
+                        totalStake: stakersOverview.total,
+                        erasPerYear: eraTiming.erasPerYear
+                    });
+
+                    aprByEra[era] = apr;
+                    apyByEra[era] = apy;
+                } catch (error) {
+                    if (isAbortError(error)) throw error;
+                    set({ error: `APY calc error for era ${era}` });
+                }
+            }));
 
-            // calc averages
+            // calc averages, over all eras and only eras where validator was active
+            const aprValues = Object.values(aprByEra);
             const apyValues = Object.values(apyByEra);
-            const averageAPY = apyValues.length > 0
-                ? apyValues.reduce((sum, val) => sum + val, 0) / apyValues.length
-                : 0;
-
-            // calc average only for eras where validator was active
-            const activeApyValues = Object.values(apyByEra).filter(apy => apy > 0);
-            const activeOnlyAverageAPY = activeApyValues.length > 0
-                ? activeApyValues.reduce((sum, val) => sum + val, 0) / activeApyValues.length
-                : 0;
-
-            // update validators with APY data
-            const updatedValidators = displayedValidators.map(v => {
-                if (v.address === validatorAddress) {
-                    return {
-                        ...v,
-                        rewards: {
-                            ...v.rewards,
-                            apyByEra,
-                            averageAPY,
-                            activeOnlyAverageAPY
-                        }
-                    };
-                }
-                return v;
-            });
+            const returns = {
+                aprByEra,
+                apyByEra,
+                averageAPR: average(aprValues),
+                activeOnlyAverageAPR: average(aprValues.filter(apr => apr > 0)),
+                averageAPY: average(apyValues),
+                activeOnlyAverageAPY: average(apyValues.filter(apy => apy > 0))
+            };
 
             const updatedValidator = {
                 ...validator,
                 rewards: {
                     ...validator.rewards,
-                    apyByEra,
-                    averageAPY,
-                    activeOnlyAverageAPY
+                    ...returns
                 }
             };
 
-            // update state
+            // update state, map the current page in case it changed while loading
             set(state => ({
-                displayedValidators: updatedValidators,
+                displayedValidators: state.displayedValidators.map(v => v.address === validatorAddress
+                    ? { ...v, rewards: { ...v.rewards, ...returns } }
+                    : v
+                ),
                 validatorCache: {
                     ...state.validatorCache,
                     [validatorAddress]: updatedValidator
@@ -1153,6 +1268,7 @@ export const useValidatorStore = create<ValidatorState>((set, get) => ({
             // calculate other averages
             get().calculateAverages(validatorAddress);
         } catch (error) {
+            if (isAbortError(error)) return;
             set({ loadingAPY: false });
         }
     }
@@ -0,0 +1,103 @@
+import { create } from 'zustand';
+import { createQuery } from '../utils/api';
+import {
+    ApprovalStake,
+    RequestPriority,
+    aggregateApprovals,
+    distanceToThreshold,
+    estimateElectionThreshold,
+    isAbortError,
+    perbillToRatio
+} from '../sdk';
+
+// validator intention (Staking.Validators entry) with its approval stake
+export interface Candidate extends ApprovalStake {
+    commission: number;     // 0-1
+    blocked: boolean;
+    active: boolean;        // in the current session set
+    rank: number;           // by approval stake, 1 = most
+    distance: bigint;       // approval stake missing to the estimated threshold, 0 if above
+}
+
+/**
+ * all validator intentions, not only the active set
+ * approval stakes come from a snapshot of all nominations and bonds, loaded once per era when the
+ * waiting list is opened. that is a few big storage iterations, so it is not done on startup.
+ */
+interface WaitingState {
+    networkId: string | null;   // network + active era the data below belongs to
+    activeEra: number;
+    candidates: Candidate[];    // most approval stake first
+    seats: number;              // Staking.ValidatorCount
+    threshold: bigint;          // estimated approval stake needed for a seat
+    loading: boolean;
+    error: string | null;
+
+    // actions
+    fetchCandidates: (networkId: string, activeEra: number, activeValidators: string[]) => Promise<void>;
+    reset: () => void;
+}
+
+const initialState = {
+    networkId: null,
+    activeEra: 0,
+    candidates: [],
+    seats: 0,
+    threshold: 0n,
+    loading: false,
+    error: null
+} satisfies Partial<WaitingState>;
+
+// cancels the loading of the previous network / era
+let controller = new AbortController();
+
+export const useWaitingStore = create<WaitingState>((set, get) => ({
+    ...initialState,
+
+    fetchCandidates: async (networkId, activeEra, activeValidators) => {
+        if (get().networkId === networkId && get().activeEra === activeEra) return;
+
+        controller.abort();
+        controller = new AbortController();
+        const signal = controller.signal;
+        const query = createQuery(RequestPriority.visible, signal);
+
+        set({ ...initialState, networkId, activeEra, loading: true });
+
+        try {
+            const [prefs, nominations, bonded, seats] = await Promise.all([
+                query(repository => repository.getAllValidatorPrefs()),
+                query(repository => repository.getNominations()),
+                query(repository => repository.getBondedStakes()),
+                query(repository => repository.getValidatorCount())
+            ]);
+            if (signal.aborted) return;
+
+            const approvals = aggregateApprovals(Object.keys(prefs), nominations, bonded);
+            const threshold = estimateElectionThreshold(Object.values(approvals).map(approval => approval.approvalStake), seats);
+            const active = new Set(activeValidators);
+
+            const candidates = Object.values(approvals)
+                .sort((a, b) => (b.approvalStake > a.approvalStake ? 1 : b.approvalStake < a.approvalStake ? -1 : 0))
+                .map((approval, i): Candidate => ({
+                    ...approval,
+                    commission: perbillToRatio(prefs[approval.address].commission),
+                    blocked: prefs[approval.address].blocked,
+                    active: active.has(approval.address),
+                    rank: i + 1,
+                    distance: distanceToThreshold(approval.approvalStake, threshold)
+                }));
+
+            set({ candidates, seats, threshold, loading: false });
+        } catch (error) {
+            if (isAbortError(error)) return;
+            // forget the key so the next call tries again
+            set({ error: (error as Error).message, loading: false, networkId: null });
+        }
+    },
+
+    reset: () => {
+        controller.abort();
+        set(initialState);
+    }
+}));
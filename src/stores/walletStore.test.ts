@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const ALICE = '15oF4uVJwmo4TdGW7VfQxNLavjCXviqxT9S1MgbjMNHr6Sp5';
+const BOB = '14E5nqKAp3oAJcmzgZhUD2RcptBeUBScxKHgJKU4HPNcKVf3';
+
+interface MockAccount {
+    address: string;
+    type: string;
+}
+
+// pjs style extension as it shows up in window.injectedWeb3, `emit` plays an account change
+const mockExtension = (accounts: MockAccount[], rejects = false) => {
+    let listener: ((accounts: MockAccount[]) => void) | undefined;
+    return {
+        enable: vi.fn(async () => {
+            if (rejects) throw new Error('not allowed');
+            return {
+                accounts: {
+                    get: async () => accounts,
+                    subscribe: (callback: (accounts: MockAccount[]) => void) => {
+                        listener = callback;
+                        return () => { listener = undefined; };
+                    }
+                },
+                signer: { signPayload: vi.fn(), signRaw: vi.fn() }
+            };
+        }),
+        emit: (accounts: MockAccount[]) => listener?.(accounts)
+    };
+};
+
+let injected: Record<string, ReturnType<typeof mockExtension>>;
+let reads: number;
+let page: EventTarget;
+
+// a fresh store per test, it hydrates from the stubbed localStorage on import
+const loadStore = async () => (await import('./walletStore')).useWalletStore;
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    vi.resetModules();
+
+    injected = {};
+    reads = 0;
+    page = new EventTarget();
+    Object.defineProperty(page, 'injectedWeb3', { get: () => { reads++; return injected; } });
+
+    const storage = new Map<string, string>();
+    vi.stubGlobal('window', page);
+    vi.stubGlobal('document', { readyState: 'loading' });
+    vi.stubGlobal('localStorage', {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => storage.set(key, value),
+        removeItem: (key: string) => storage.delete(key)
+    });
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+});
+
+describe('detectExtensions', () => {
+    it('lists the injected extensions and picks up late ones after load', async () => {
+        injected['polkadot-js'] = mockExtension([]);
+        const store = await loadStore();
+
+        store.getState().detectExtensions();
+        expect(store.getState().availableExtensions).toEqual(['polkadot-js']);
+
+        injected.talisman = mockExtension([]);
+        page.dispatchEvent(new Event('load'));
+        expect(store.getState().availableExtensions).toEqual(['polkadot-js', 'talisman']);
+
+        injected['subwallet-js'] = mockExtension([]);
+        await vi.advanceTimersByTimeAsync(3_000);
+        expect(store.getState().availableExtensions).toEqual(['polkadot-js', 'talisman', 'subwallet-js']);
+    });
+
+    it('detects once however often it is called', async () => {
+        const store = await loadStore();
+
+        store.getState().detectExtensions();
+        store.getState().detectExtensions();
+        store.getState().detectExtensions();
+        expect(reads).toBe(1);
+
+        page.dispatchEvent(new Event('load'));
+        await vi.runAllTimersAsync();
+        expect(reads).toBe(5);
+    });
+
+    it('reconnects to the extension used last time once it shows up', async () => {
+        localStorage.setItem('staking-analyzer-wallet', JSON.stringify({ state: { lastExtension: 'talisman', selectedAddress: BOB }, version: 0 }));
+        const store = await loadStore();
+
+        store.getState().detectExtensions();
+        expect(store.getState().extension).toBeNull();
+
+        injected.talisman = mockExtension([{ address: ALICE, type: 'sr25519' }, { address: BOB, type: 'sr25519' }]);
+        await vi.advanceTimersByTimeAsync(500);
+
+        expect(injected.talisman.enable).toHaveBeenCalledOnce();
+        expect(store.getState().extension?.name).toBe('talisman');
+        expect(store.getState().selectedAddress).toBe(BOB);
+    });
+});
+
+describe('connect', () => {
+    it('selects the first account and follows the accounts shared by the extension', async () => {
+        injected.talisman = mockExtension([{ address: ALICE, type: 'sr25519' }, { address: BOB, type: 'ed25519' }]);
+        const store = await loadStore();
+
+        await store.getState().connect('talisman');
+        expect(store.getState().accounts.map(account => account.address)).toEqual([ALICE, BOB]);
+        expect(store.getState().selectedAddress).toBe(ALICE);
+        expect(store.getState().lastExtension).toBe('talisman');
+
+        store.getState().selectAccount(BOB);
+        injected.talisman.emit([{ address: BOB, type: 'ed25519' }, { address: ALICE, type: 'sr25519' }]);
+        expect(store.getState().selectedAddress).toBe(BOB);
+
+        // the picked account was hidden in the extension
+        injected.talisman.emit([{ address: ALICE, type: 'sr25519' }]);
+        expect(store.getState().selectedAddress).toBe(ALICE);
+    });
+
+    it('forgets an extension that rejects the connection', async () => {
+        injected.talisman = mockExtension([], true);
+        const store = await loadStore();
+
+        await store.getState().connect('talisman');
+        expect(store.getState()).toMatchObject({ extension: null, connecting: false, lastExtension: null, error: 'not allowed' });
+    });
+
+    it('drops the connection and forgets extension and account on disconnect', async () => {
+        injected.talisman = mockExtension([{ address: ALICE, type: 'sr25519' }]);
+        const store = await loadStore();
+
+        await store.getState().connect('talisman');
+        store.getState().disconnect();
+        expect(store.getState()).toMatchObject({ extension: null, accounts: [], lastExtension: null, selectedAddress: null });
+    });
+});
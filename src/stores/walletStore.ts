@@ -0,0 +1,138 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import {
+    InjectedExtension,
+    InjectedPolkadotAccount,
+    connectInjectedExtension,
+    getInjectedExtensions
+} from 'polkadot-api/pjs-signer';
+
+// name the dapp introduces itself with to the browser extension
+const DAPP_NAME = 'Polkadot Staking Rewards Analyzer';
+
+/**
+ * browser wallet (polkadot.js compatible extension: polkadot.js, talisman, subwallet, ...) connection
+ * the accounts come with a papi signer, used to submit transactions. the picked account also drives
+ * the nominator status and the highlights in the validator table.
+ *
+ * extensions are only reached through `window.injectedWeb3`, so a mocked object there is all it
+ * takes to run this without a real extension.
+ * the extension and account are persisted in localStorage, the page reconnects on reload.
+ */
+interface WalletState {
+    availableExtensions: string[];
+    extension: InjectedExtension | null;
+    accounts: InjectedPolkadotAccount[];
+    lastExtension: string | null;    // reconnected to on the next visit, cleared on disconnect
+    selectedAddress: string | null;
+    connecting: boolean;
+    error: string | null;
+
+    // actions
+    detectExtensions: () => void;
+    connect: (name: string) => Promise<void>;
+    disconnect: () => void;
+    selectAccount: (address: string) => void;
+}
+
+// extensions inject themselves into the page, some only once it finished loading.
+// detection looks again on load and after these delays (ms)
+const DETECT_RETRY_DELAYS = [500, 1_500, 3_000];
+
+// stops listening to account changes of the connected extension
+let unsubscribeAccounts: (() => void) | null = null;
+
+// detection runs once per page, however many wallet panels are mounted
+let detecting = false;
+
+// keep the picked account if the extension still shares it
+const pickAccount = (accounts: InjectedPolkadotAccount[], selected: string | null): string | null =>
+    accounts.some(a => a.address === selected) ? selected : accounts[0]?.address || null;
+
+export const useWalletStore = create<WalletState>()(
+    persist(
+        (set, get) => {
+            // drop the connection, but remember the extension and account
+            const release = () => {
+                unsubscribeAccounts?.();
+                unsubscribeAccounts = null;
+                get().extension?.disconnect();
+                set({ extension: null, accounts: [] });
+            };
+
+            return {
+                availableExtensions: [],
+                extension: null,
+                accounts: [],
+                lastExtension: null,
+                selectedAddress: null,
+                connecting: false,
+                error: null,
+
+                // list the extensions that injected themselves and reconnect to the one used last
+                // time, the extension remembers it was allowed. late ones are picked up by the rechecks
+                detectExtensions: () => {
+                    if (detecting) return;
+                    detecting = true;
+
+                    const detect = () => {
+                        const availableExtensions = getInjectedExtensions();
+                        if (availableExtensions.join() !== get().availableExtensions.join()) set({ availableExtensions });
+
+                        const { extension, lastExtension, connecting } = get();
+                        if (!extension && !connecting && lastExtension && availableExtensions.includes(lastExtension)) {
+                            get().connect(lastExtension);
+                        }
+                    };
+
+                    detect();
+                    if (document.readyState !== 'complete') window.addEventListener('load', detect, { once: true });
+                    DETECT_RETRY_DELAYS.forEach(delay => setTimeout(detect, delay));
+                },
+
+                connect: async (name: string) => {
+                    release();
+                    set({ connecting: true, error: null });
+
+                    try {
+                        const extension = await connectInjectedExtension(name, DAPP_NAME);
+                        const accounts = extension.getAccounts();
+
+                        // accounts can be added or hidden in the extension while we are connected
+                        unsubscribeAccounts = extension.subscribe(accounts => {
+                            set({ accounts, selectedAddress: pickAccount(accounts, get().selectedAddress) });
+                        });
+
+                        set({
+                            extension,
+                            accounts,
+                            lastExtension: name,
+                            selectedAddress: pickAccount(accounts, get().selectedAddress),
+                            connecting: false
+                        });
+                    } catch (error) {
+                        // a rejected reconnect is not retried on the next visit
+                        set({ error: (error as Error).message, connecting: false, lastExtension: null });
+                    }
+                },
+
+                disconnect: () => {
+                    release();
+                    set({ lastExtension: null, selectedAddress: null });
+                },
+
+                selectAccount: (address: string) => {
+                    set({ selectedAddress: address });
+                }
+            };
+        },
+        {
+            name: 'staking-analyzer-wallet',
+            partialize: state => ({ lastExtension: state.lastExtension, selectedAddress: state.selectedAddress })
+        }
+    )
+);
+
+// selector for the account transactions are signed with
+export const selectSelectedAccount = (state: WalletState): InjectedPolkadotAccount | null =>
+    state.accounts.find(account => account.address === state.selectedAddress) || null;
@@ -1,29 +1,340 @@
 import { dot } from "@polkadot-api/descriptors";
-import { createClient } from "polkadot-api";
-import { getWsProvider } from "polkadot-api/ws-provider/web";
+import { PolkadotClient, TypedApi, createClient } from "polkadot-api";
+import { getSmProvider } from "polkadot-api/sm-provider";
+import { Chain } from "polkadot-api/smoldot";
+import { StatusChange, WsEvent, WsJsonRpcProvider, getWsProvider } from "polkadot-api/ws-provider/web";
+import {
+    EraRepository,
+    IdentitySource,
+    RequestPriority,
+    createEraRepository,
+    createPapiChainSource,
+    createPapiIdentitySource,
+    createRequestScheduler
+} from "../sdk";
+import { useConnectionStore } from "../stores/connectionStore";
+import { clearEraCache, createIndexedDbEraStore } from "./eraCache";
+import { getSmoldot, loadChainSpec } from "./lightClient";
+import { ConnectionMode, NetworkConfig } from "./networks";
+import { checkEndpoints, selectFailover } from "./rpcHealth";
 
-// setup ws to polkadot relay chain
-const provider = getWsProvider("wss://rpc.polkadot.io");
+// how often the endpoints of the current network get health checked
+const HEALTH_CHECK_INTERVAL = 30_000;
 
-// create client using provider
-export const client = createClient(provider);
+// give up on an endpoint that does not connect within this time and try the next one
+const CONNECT_TIMEOUT = 10_000;
 
-// creating typedApi from the descriptors
-export const typedApi = client.getTypedApi(dot);
+// how often light client sync progress is polled
+const SYNC_POLL_INTERVAL = 2_000;
+
+// max number of chain queries in flight at the same time
+const MAX_CONCURRENT_REQUESTS = 8;
+
+// label shown as endpoint in light client mode
+export const LIGHT_CLIENT_ENDPOINT = "light client (smoldot)";
+
+/**
+ * connection to the selected relay chain
+ *
+ * all relay chains use the `dot` descriptors, the staking storage we read is the same on
+ * kusama and westend and papi checks compatibility against the live metadata at runtime
+ */
+interface Connection {
+    network: NetworkConfig;
+    mode: ConnectionMode;
+    client: PolkadotClient;
+    typedApi: TypedApi<typeof dot>;
+    eraRepository: EraRepository;
+    ready: Promise<void>;       // resolves once the chain can be queried (light client synced)
+    stopMonitor: () => void;    // stops health checks / sync polling
+    relayChain?: Promise<Chain>;    // smoldot relay chain in light client mode, parachains sync through it
+    people: PeopleConnection | null;  // opened on first identity lookup
+}
+
+/**
+ * connection to the People chain of the selected network
+ * no descriptors are generated for it, queries go through the unsafe api (see papiIdentitySource)
+ */
+interface PeopleConnection {
+    client: PolkadotClient;
+    identitySource: IdentitySource;
+}
+
+let connection: Connection | null = null;
+
+/**
+ * keep the connection store in sync with the ws provider
+ * the provider moves on to the next endpoint by itself when one fails, we record that as a failover
+ */
+const handleStatusChange = (status: StatusChange) => {
+    const store = useConnectionStore.getState();
+
+    switch (status.type) {
+        case WsEvent.CONNECTING:
+            store.setStatus('connecting', status.uri);
+            break;
+        case WsEvent.CONNECTED:
+            if (store.status === 'error' && store.endpoint && store.endpoint !== status.uri) {
+                store.recordFailover(store.endpoint, status.uri);
+            }
+            store.setStatus('connected', status.uri);
+            break;
+        case WsEvent.ERROR:
+            store.setStatus('error');
+            break;
+        case WsEvent.CLOSE:
+            store.setStatus('closed');
+            break;
+    }
+};
+
+/**
+ * periodically health check all endpoints of a network
+ * switches to the best endpoint when the one in use is down or lagging behind
+ *
+ * @returns function to stop monitoring
+ */
+const monitorEndpoints = (network: NetworkConfig, provider: WsJsonRpcProvider): (() => void) => {
+    let stopped = false;
+
+    const check = async () => {
+        const health = await checkEndpoints(network.endpoints);
+        if (stopped) return;
+
+        const store = useConnectionStore.getState();
+        store.setHealth(health);
+
+        const next = selectFailover(health, store.endpoint);
+        if (next && store.endpoint) {
+            store.recordFailover(store.endpoint, next);
+            provider.switch(next);
+        }
+    };
+
+    check();
+    const interval = setInterval(check, HEALTH_CHECK_INTERVAL);
+
+    return () => {
+        stopped = true;
+        clearInterval(interval);
+    };
+};
+
+/**
+ * report light client sync progress until the first finalized block arrives
+ * smoldot warp syncs first, queries only make sense once it has a finalized block
+ *
+ * @returns function to stop polling
+ */
+const monitorLightClientSync = (client: PolkadotClient): (() => void) => {
+    const store = useConnectionStore.getState();
+    let stopped = false;
+    let bestBlock: number | null = null;
+
+    store.setStatus('syncing', LIGHT_CLIENT_ENDPOINT);
+
+    const bestBlockSubscription = client.bestBlocks$.subscribe(blocks => {
+        bestBlock = blocks[0]?.number ?? bestBlock;
+    });
+
+    const poll = async () => {
+        try {
+            const health = await client._request<{ peers: number; isSyncing: boolean }>("system_health", []);
+            if (stopped) return;
+            useConnectionStore.getState().setSync({ peers: health.peers, isSyncing: health.isSyncing, bestBlock });
+        } catch {
+            // smoldot not ready to answer yet, try again on the next poll
+        }
+    };
+
+    poll();
+    const interval = setInterval(poll, SYNC_POLL_INTERVAL);
+
+    // destroying the client before its first finalized block rejects, nothing to report once stopped
+    client.getFinalizedBlock().then(() => {
+        if (!stopped) useConnectionStore.getState().setStatus('connected');
+    }, () => {
+        if (!stopped) useConnectionStore.getState().setStatus('error');
+    });
+
+    return () => {
+        stopped = true;
+        clearInterval(interval);
+        bestBlockSubscription.unsubscribe();
+    };
+};
+
+/**
+ * create the provider and monitoring for a connection mode
+ * rpc: ws provider over all endpoints with health checks and failover
+ * light-client: smoldot with the bundled chain spec of the network
+ */
+const createProvider = (network: NetworkConfig, mode: ConnectionMode) => {
+    if (mode === 'light-client') {
+        if (!network.lightClientChain) throw new Error(`${network.name} has no bundled chain spec for light client mode`);
+
+        const chain = loadChainSpec(network.lightClientChain)
+            .then(chainSpec => getSmoldot().addChain({ chainSpec }));
+        return {
+            provider: getSmProvider(chain),
+            startMonitor: (client: PolkadotClient) => monitorLightClientSync(client),
+            relayChain: chain
+        };
+    }
+
+    // setup ws to the relay chain with all endpoints for failover
+    const provider = getWsProvider({
+        endpoints: network.endpoints,
+        timeout: CONNECT_TIMEOUT,
+        onStatusChanged: handleStatusChange
+    });
+    return {
+        provider,
+        startMonitor: () => monitorEndpoints(network, provider),
+        relayChain: undefined
+    };
+};
+
+/**
+ * provider for the People chain of a network
+ * in light client mode the parachain is synced through the relay chain smoldot already follows
+ */
+const createPeopleProvider = (network: NetworkConfig, relayChain?: Promise<Chain>) => {
+    const people = network.people!;
+    if (relayChain && people.lightClientChain) {
+        const chain = Promise.all([loadChainSpec(people.lightClientChain), relayChain])
+            .then(([chainSpec, relay]) => getSmoldot().addChain({ chainSpec, potentialRelayChains: [relay] }));
+        return getSmProvider(chain);
+    }
+    return getWsProvider({ endpoints: people.endpoints, timeout: CONNECT_TIMEOUT });
+};
+
+/**
+ * connect to a network, closing the previous connection
+ * does nothing if we are already connected to the same network and endpoints in the same mode
+ */
+export const connectToNetwork = (network: NetworkConfig, mode: ConnectionMode = 'rpc'): Connection => {
+    if (connection &&
+        connection.mode === mode &&
+        connection.network.id === network.id &&
+        connection.network.endpoints.join() === network.endpoints.join()) {
+        return connection;
+    }
+
+    connection?.stopMonitor();
+    connection?.people?.client.destroy();
+    connection?.client.destroy();
+    useConnectionStore.getState().reset();
+
+    // create client using provider
+    const { provider, startMonitor, relayChain } = createProvider(network, mode);
+    const client = createClient(provider);
+
+    // creating typedApi from the descriptors
+    const typedApi = client.getTypedApi(dot);
+
+    // finished era data is persisted per network, keyed by genesis hash
+    const eraStore = createIndexedDbEraStore(client.getChainSpecData().then(spec => spec.genesisHash));
+
+    connection = {
+        network,
+        mode,
+        client,
+        typedApi,
+        eraRepository: createEraRepository(createPapiChainSource(typedApi), eraStore),
+        ready: client.getFinalizedBlock().then(() => undefined),
+        stopMonitor: startMonitor(client),
+        relayChain,
+        people: null
+    };
+    return connection;
+};
+
+const getConnection = (): Connection => {
+    if (!connection) throw new Error("not connected to any network");
+    return connection;
+};
+
+export const getClient = () => getConnection().client;
+
+// wait until the current connection can serve queries
+export const waitUntilReady = () => getConnection().ready;
+export const getTypedApi = () => getConnection().typedApi;
+
+// era data repository the store reads all staking data from
+export const getEraRepository = () => getConnection().eraRepository;
+
+/**
+ * identities of the current network, connects to its People chain on first use
+ * undefined for networks without a People chain (e.g. custom networks)
+ */
+export const getIdentitySource = (): IdentitySource | undefined => {
+    const current = getConnection();
+    if (!current.network.people) return undefined;
+
+    if (!current.people) {
+        const client = createClient(createPeopleProvider(current.network, current.relayChain));
+        current.people = { client, identitySource: createPapiIdentitySource(client.getUnsafeApi()) };
+    }
+    return current.people.identitySource;
+};
+
+/**
+ * all chain queries of the stores go through one scheduler
+ * the visible page goes first, then the selected validators history, then background work
+ */
+const scheduler = createRequestScheduler(MAX_CONCURRENT_REQUESTS);
+
+// a repository query that runs through the scheduler
+export type Query = <T>(task: (repository: EraRepository) => Promise<T>) => Promise<T>;
+
+export const createQuery = (priority: RequestPriority, signal: AbortSignal): Query =>
+    (task) => scheduler.schedule(priority, () => task(getEraRepository()), signal);
+
+/**
+ * drop all cached era data, persisted and in memory
+ */
+export const clearCaches = async () => {
+    await clearEraCache();
+    connection?.eraRepository.clear();
+};
+
+/**
+ * parse a token amount typed by the user (e.g. "12.5") into plancks
+ * undefined for anything that is not a plain positive number or has more decimals than the token
+ */
+export const parseBalance = (input: string, network: Pick<NetworkConfig, 'decimals'>): bigint | undefined => {
+    const match = input.trim().match(/^(\d*)(?:\.(\d*))?$/);
+    if (!match || (!match[1] && !match[2])) return undefined;
+
+    const [, whole, fraction = ''] = match;
+    if (fraction.length > network.decimals) return undefined;
+    return BigInt(whole || '0') * 10n ** BigInt(network.decimals) + BigInt(fraction.padEnd(network.decimals, '0') || '0');
+};
+
+/**
+ * exact token amount of plancks without symbol, the inverse of parseBalance
+ */
+export const formatTokenAmount = (amount: bigint, network: Pick<NetworkConfig, 'decimals'>): string => {
+    const base = 10n ** BigInt(network.decimals);
+    const fraction = (amount % base).toString().padStart(network.decimals, '0').replace(/0+$/, '');
+    return fraction ? `${amount / base}.${fraction}` : `${amount / base}`;
+};
 
 /**
- * format a raw DOT amount (in plancks) to a human-readable DOT string
- * 
+ * format a raw token amount (in plancks) to a human-readable string
+ *
  * polkadot stores token values as integers in the smallest unit (plancks)
- * 1 DOT = 10^10 plancks (10 billion)
- * 
+ * 1 DOT = 10^10 plancks (10 billion), kusama and westend use 12 decimals
+ *
  * @param amount - amount in plancks (smallest unit)
- * @returns formatted string with DOT value and symbol
+ * @param network - network the amount belongs to, gives decimals and symbol
+ * @returns formatted string with token value and symbol
  */
-export const formatDOT = (amount: bigint): string => {
-    // divide by 10^10 to convert plancks to DOT
-    const dotAmount = Number(amount) / 1e10;
+export const formatBalance = (amount: bigint, network: Pick<NetworkConfig, 'decimals' | 'symbol'>): string => {
+    // divide by 10^decimals to convert plancks to tokens
+    const tokenAmount = Number(amount) / 10 ** network.decimals;
 
     // format with thousands separators and max 2 decimal places
-    return dotAmount.toLocaleString(undefined, { maximumFractionDigits: 2 }) + ' DOT';
-};
\ No newline at end of file
+    return tokenAmount.toLocaleString(undefined, { maximumFractionDigits: 2 }) + ' ' + network.symbol;
+};
@@ -0,0 +1,26 @@
+import { ElectionInput, ElectionResult } from '../sdk';
+import ElectionWorker from './election.worker?worker';
+
+/**
+ * run the election in a fresh web worker, terminated when done or when the signal aborts
+ */
+export const runElectionInWorker = (input: ElectionInput, signal?: AbortSignal): Promise<ElectionResult> =>
+    new Promise((resolve, reject) => {
+        const worker = new ElectionWorker();
+        const stop = (error?: unknown) => {
+            worker.terminate();
+            signal?.removeEventListener('abort', onAbort);
+            if (error) reject(error);
+        };
+        const onAbort = () => stop(signal?.reason ?? new DOMException('election was cancelled', 'AbortError'));
+
+        if (signal?.aborted) return onAbort();
+        signal?.addEventListener('abort', onAbort);
+
+        worker.onmessage = (event: MessageEvent<ElectionResult>) => {
+            stop();
+            resolve(event.data);
+        };
+        worker.onerror = (event) => stop(new Error(event.message || 'election worker failed'));
+        worker.postMessage(input);
+    });
@@ -0,0 +1,9 @@
+import { ElectionInput, runElection } from '../sdk/phragmen';
+
+/**
+ * runs the election off the main thread, it takes seconds on a full snapshot
+ * imports the module directly instead of the sdk index to keep papi out of the worker bundle
+ */
+self.onmessage = (event: MessageEvent<ElectionInput>) => {
+    self.postMessage(runElection(event.data));
+};
@@ -0,0 +1,177 @@
+import { EraStore } from '../sdk';
+
+/**
+ * persistent IndexedDB cache for finished era data
+ *
+ * entries are keyed by network genesis hash + repository key (e.g. `points:1650`), so data of
+ * different networks never mixes. bumping CACHE_VERSION drops everything stored by older versions
+ * of the app, the entry count is capped and the oldest eras are evicted first.
+ */
+const DB_NAME = 'staking-analyzer-cache';
+const STORE_NAME = 'eras';
+
+// bump when the shape of cached values changes
+export const CACHE_VERSION = 1;
+
+// max number of cached entries before the oldest eras get evicted
+export const MAX_CACHE_ENTRIES = 200_000;
+
+// share of entries removed in one eviction run
+const EVICTION_RATIO = 0.1;
+
+// writes are collected and flushed in one transaction
+const WRITE_FLUSH_DELAY = 500;
+
+interface CacheRecord {
+    id: string;        // `${genesis}:${key}`
+    genesis: string;
+    era: number;
+    value: unknown;
+    storedAt: number;
+}
+
+export interface CacheStats {
+    entries: number;
+    maxEntries: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// wrap an IDBRequest in a promise
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/**
+ * open (and on version change recreate) the cache database
+ */
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB not available'));
+                return;
+            }
+
+            const request = indexedDB.open(DB_NAME, CACHE_VERSION);
+
+            // new cache version: old entries may have a different shape, start from scratch
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (db.objectStoreNames.contains(STORE_NAME)) {
+                    db.deleteObjectStore(STORE_NAME);
+                }
+                const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                store.createIndex('era', 'era');
+                store.createIndex('genesis', 'genesis');
+            };
+
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+
+        // allow retrying after a failed open
+        dbPromise.catch(() => {
+            dbPromise = null;
+        });
+    }
+    return dbPromise;
+};
+
+/**
+ * evict the oldest eras when the cache grows over the entry limit
+ */
+const enforceSizeLimit = async (db: IDBDatabase) => {
+    const count = await requestToPromise(db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).count());
+    if (count <= MAX_CACHE_ENTRIES) return;
+
+    // era index is ascending, so the cursor walks the oldest eras first
+    let toDelete = Math.ceil(count - MAX_CACHE_ENTRIES + MAX_CACHE_ENTRIES * EVICTION_RATIO);
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await new Promise<void>((resolve, reject) => {
+        const cursorRequest = store.index('era').openCursor();
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor || toDelete <= 0) {
+                resolve();
+                return;
+            }
+            cursor.delete();
+            toDelete--;
+            cursor.continue();
+        };
+        cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+};
+
+/**
+ * EraStore backed by IndexedDB for one network
+ * failures (private mode, quota) are swallowed, the repository then just falls back to the chain
+ *
+ * @param genesisHash - genesis hash of the network, resolved once the client knows it
+ */
+export const createIndexedDbEraStore = (genesisHash: Promise<string>): EraStore => {
+    let pendingWrites: CacheRecord[] = [];
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = async () => {
+        flushTimer = null;
+        const records = pendingWrites;
+        pendingWrites = [];
+
+        try {
+            const db = await openDb();
+            const transaction = db.transaction(STORE_NAME, 'readwrite');
+            const store = transaction.objectStore(STORE_NAME);
+            records.forEach(record => store.put(record));
+            await new Promise<void>((resolve, reject) => {
+                transaction.oncomplete = () => resolve();
+                transaction.onerror = () => reject(transaction.error);
+            });
+            await enforceSizeLimit(db);
+        } catch {
+            // cache is best effort
+        }
+    };
+
+    return {
+        get: async (key) => {
+            const genesis = await genesisHash;
+            const db = await openDb();
+            const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+            const record = await requestToPromise<CacheRecord | undefined>(store.get(`${genesis}:${key}`));
+            return record ? { value: record.value } : undefined;
+        },
+
+        set: (key, era, value) => {
+            genesisHash.then(genesis => {
+                pendingWrites.push({ id: `${genesis}:${key}`, genesis, era, value, storedAt: Date.now() });
+                if (!flushTimer) flushTimer = setTimeout(flush, WRITE_FLUSH_DELAY);
+            }).catch(() => undefined);
+        }
+    };
+};
+
+/**
+ * number of cached entries over all networks
+ */
+export const getCacheStats = async (): Promise<CacheStats> => {
+    try {
+        const db = await openDb();
+        const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+        return { entries: await requestToPromise(store.count()), maxEntries: MAX_CACHE_ENTRIES };
+    } catch {
+        return { entries: 0, maxEntries: MAX_CACHE_ENTRIES };
+    }
+};
+
+/**
+ * remove all cached era data of every network
+ */
+export const clearEraCache = async (): Promise<void> => {
+    const db = await openDb();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await requestToPromise(store.clear());
+};
@@ -0,0 +1,44 @@
+import { Client } from "polkadot-api/smoldot";
+import { startFromWorker } from "polkadot-api/smoldot/from-worker";
+import SmWorker from "polkadot-api/smoldot/worker?worker";
+
+/**
+ * embedded smoldot light client
+ * runs in a web worker and verifies everything against the chain instead of trusting an rpc node
+ */
+let smoldot: Client | null = null;
+
+/**
+ * start smoldot on first use, later calls reuse the same instance
+ */
+export const getSmoldot = (): Client => {
+    if (!smoldot) {
+        smoldot = startFromWorker(new SmWorker());
+    }
+    return smoldot;
+};
+
+/**
+ * load the bundled chain spec of a known relay chain
+ * dynamic imports so the (large) specs only get downloaded when light client mode is used
+ *
+ * @param chain - known-chains name of the spec (polkadot, ksmcc3, westend2 and their _people parachains)
+ */
+export const loadChainSpec = async (chain: string): Promise<string> => {
+    switch (chain) {
+        case 'polkadot':
+            return (await import("polkadot-api/chains/polkadot")).chainSpec;
+        case 'ksmcc3':
+            return (await import("polkadot-api/chains/ksmcc3")).chainSpec;
+        case 'westend2':
+            return (await import("polkadot-api/chains/westend2")).chainSpec;
+        case 'polkadot_people':
+            return (await import("polkadot-api/chains/polkadot_people")).chainSpec;
+        case 'ksmcc3_people':
+            return (await import("polkadot-api/chains/ksmcc3_people")).chainSpec;
+        case 'westend2_people':
+            return (await import("polkadot-api/chains/westend2_people")).chainSpec;
+        default:
+            throw new Error(`no bundled chain spec for ${chain}`);
+    }
+};
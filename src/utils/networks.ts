@@ -0,0 +1,113 @@
+import { AccountId, getSs58AddressInfo } from 'polkadot-api';
+
+/**
+ * network registry
+ * every relay chain the analyzer can connect to, with the token and chain params the UI needs
+ */
+export interface NetworkConfig {
+    id: string;
+    name: string;
+    endpoints: string[];   // rpc endpoints, first one is preferred
+    decimals: number;      // token decimals (1 token = 10^decimals plancks)
+    symbol: string;        // token symbol
+    ss58Prefix: number;    // address format of the chain
+    historyDepth: number;  // number of eras the chain keeps staking history for
+    lightClientChain?: string;  // bundled chain spec for light client mode (polkadot-api/chains/*)
+    people?: PeopleChainConfig; // system parachain identities live on
+    custom?: boolean;      // added by the user
+}
+
+// People chain of a relay chain, identities moved there from the relay chain
+export interface PeopleChainConfig {
+    endpoints: string[];
+    lightClientChain?: string;  // bundled parachain spec, synced through the relay chain light client
+}
+
+// how the app talks to the chain: trusted rpc node or embedded smoldot light client
+export type ConnectionMode = 'rpc' | 'light-client';
+
+export const NETWORKS: NetworkConfig[] = [
+    {
+        id: 'polkadot',
+        name: 'Polkadot',
+        endpoints: [
+            'wss://rpc.polkadot.io',
+            'wss://polkadot-rpc.dwellir.com',
+            'wss://rpc.ibp.network/polkadot'
+        ],
+        decimals: 10,
+        symbol: 'DOT',
+        lightClientChain: 'polkadot',
+        people: {
+            endpoints: [
+                'wss://polkadot-people-rpc.polkadot.io',
+                'wss://sys.ibp.network/people-polkadot'
+            ],
+            lightClientChain: 'polkadot_people'
+        },
+        ss58Prefix: 0,
+        historyDepth: 84
+    },
+    {
+        id: 'kusama',
+        name: 'Kusama',
+        endpoints: [
+            'wss://kusama-rpc.polkadot.io',
+            'wss://kusama-rpc.dwellir.com',
+            'wss://rpc.ibp.network/kusama'
+        ],
+        decimals: 12,
+        symbol: 'KSM',
+        lightClientChain: 'ksmcc3',
+        people: {
+            endpoints: [
+                'wss://kusama-people-rpc.polkadot.io',
+                'wss://sys.ibp.network/people-kusama'
+            ],
+            lightClientChain: 'ksmcc3_people'
+        },
+        ss58Prefix: 2,
+        historyDepth: 84
+    },
+    {
+        id: 'westend',
+        name: 'Westend',
+        endpoints: [
+            'wss://westend-rpc.polkadot.io',
+            'wss://westend-rpc.dwellir.com',
+            'wss://rpc.ibp.network/westend'
+        ],
+        decimals: 12,
+        symbol: 'WND',
+        lightClientChain: 'westend2',
+        people: {
+            endpoints: [
+                'wss://westend-people-rpc.polkadot.io',
+                'wss://sys.ibp.network/people-westend'
+            ],
+            lightClientChain: 'westend2_people'
+        },
+        ss58Prefix: 42,
+        historyDepth: 84
+    }
+];
+
+export const DEFAULT_NETWORK_ID = 'polkadot';
+
+/**
+ * find a network by id in the built-in and custom networks
+ * falls back to polkadot if the id is unknown (e.g. a removed custom network)
+ */
+export const findNetwork = (id: string, customNetworks: NetworkConfig[] = []): NetworkConfig => {
+    return [...NETWORKS, ...customNetworks].find(n => n.id === id) ||
+        NETWORKS.find(n => n.id === DEFAULT_NETWORK_ID)!;
+};
+
+/**
+ * the same account in the address format of a network, chain data is compared as strings
+ * undefined for invalid input
+ */
+export const toNetworkAddress = (address: string, ss58Prefix: number): string | undefined => {
+    const info = getSs58AddressInfo(address.trim());
+    return info.isValid ? AccountId(ss58Prefix).dec(info.publicKey) : undefined;
+};
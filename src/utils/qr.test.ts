@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import jsQR from 'jsqr';
+import { QrMatrix, encodeQr } from './qr';
+
+// pixels per module and modules of white space around the code
+const SCALE = 4;
+const QUIET_ZONE = 4;
+
+// render the matrix as RGBA pixels and read it back with an independent decoder
+const decode = (matrix: QrMatrix): Uint8Array | undefined => {
+    const size = (matrix.length + 2 * QUIET_ZONE) * SCALE;
+    const pixels = new Uint8ClampedArray(size * size * 4).fill(255);
+    matrix.forEach((row, y) => row.forEach((dark, x) => {
+        if (!dark) return;
+        for (let dy = 0; dy < SCALE; dy++) {
+            for (let dx = 0; dx < SCALE; dx++) {
+                const offset = (((y + QUIET_ZONE) * SCALE + dy) * size + (x + QUIET_ZONE) * SCALE + dx) * 4;
+                pixels.fill(0, offset, offset + 3);
+            }
+        }
+    }));
+    const code = jsQR(pixels, size, size, { inversionAttempts: 'dontInvert' });
+    return code ? Uint8Array.from(code.binaryData) : undefined;
+};
+
+describe('encodeQr', () => {
+    it('round trips a short payload in the smallest version', () => {
+        const payload = new TextEncoder().encode('HELLO WORLD');
+        const matrix = encodeQr(payload);
+        expect(matrix).toHaveLength(21);
+        expect(decode(matrix)).toEqual(payload);
+    });
+
+    it('round trips binary payloads across versions', () => {
+        [1, 100, 500].forEach(length => {
+            const payload = Uint8Array.from({ length }, (_, i) => (i * 37 + 11) % 256);
+            expect(decode(encodeQr(payload))).toEqual(payload);
+        });
+    });
+
+    it('round trips a full vault frame', () => {
+        const frame = Uint8Array.from({ length: 1024 + 5 }, (_, i) => (i * 13) % 256);
+        const matrix = encodeQr(frame);
+        expect(matrix.length).toBeGreaterThan(100);
+        expect(decode(matrix)).toEqual(frame);
+    });
+
+    it('throws when the payload does not fit version 40', () => {
+        expect(() => encodeQr(new Uint8Array(3000))).toThrow();
+    });
+});
@@ -0,0 +1,295 @@
+/**
+ * QR code encoder for binary payloads (byte mode, error correction level M)
+ *
+ * follows ISO/IEC 18004 the way most small encoders do: smallest version that fits, reed-solomon
+ * blocks interleaved, the mask with the lowest penalty. the finder-like pattern penalty is left out,
+ * it only affects which (equally valid) mask is picked.
+ */
+
+// error correction codewords per block and number of blocks per version (index 0 unused), level M
+const ECC_CODEWORDS_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28];
+const NUM_ERROR_CORRECTION_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49];
+const ECC_LEVEL_M_BITS = 0b00;
+const MODE_BYTE = 0b0100;
+
+// dark modules, rows of columns
+export type QrMatrix = boolean[][];
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+// modules left for data and error correction after the function patterns
+const getNumRawDataModules = (version: number): number => {
+    let result = (16 * version + 128) * version + 64;
+    if (version >= 2) {
+        const numAlign = Math.floor(version / 7) + 2;
+        result -= (25 * numAlign - 10) * numAlign - 55;
+        if (version >= 7) result -= 36;
+    }
+    return result;
+};
+
+const getNumDataCodewords = (version: number): number =>
+    Math.floor(getNumRawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * NUM_ERROR_CORRECTION_BLOCKS[version];
+
+// GF(2^8) multiplication modulo x^8 + x^4 + x^3 + x^2 + 1
+const gfMultiply = (x: number, y: number): number => {
+    let z = 0;
+    for (let i = 7; i >= 0; i--) {
+        z = (z << 1) ^ ((z >>> 7) * 0x11d);
+        z ^= ((y >>> i) & 1) * x;
+    }
+    return z;
+};
+
+const reedSolomonDivisor = (degree: number): number[] => {
+    const result = new Array<number>(degree).fill(0);
+    result[degree - 1] = 1;
+    let root = 1;
+    for (let i = 0; i < degree; i++) {
+        for (let j = 0; j < result.length; j++) {
+            result[j] = gfMultiply(result[j], root);
+            if (j + 1 < result.length) result[j] ^= result[j + 1];
+        }
+        root = gfMultiply(root, 0x02);
+    }
+    return result;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]): number[] => {
+    const result = divisor.map(() => 0);
+    for (const b of data) {
+        const factor = b ^ (result.shift() as number);
+        result.push(0);
+        divisor.forEach((coefficient, i) => {
+            result[i] ^= gfMultiply(coefficient, factor);
+        });
+    }
+    return result;
+};
+
+// split into blocks, add the error correction of each and interleave them
+const addEccAndInterleave = (data: number[], version: number): number[] => {
+    const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[version];
+    const blockEccLength = ECC_CODEWORDS_PER_BLOCK[version];
+    const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+    const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+    const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+
+    const divisor = reedSolomonDivisor(blockEccLength);
+    const blocks: number[][] = [];
+    for (let i = 0, k = 0; i < numBlocks; i++) {
+        const block = data.slice(k, k + shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1));
+        k += block.length;
+        const ecc = reedSolomonRemainder(block, divisor);
+        if (i < numShortBlocks) block.push(0);
+        blocks.push([...block, ...ecc]);
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i < blocks[0].length; i++) {
+        blocks.forEach((block, j) => {
+            // the padding byte of the short blocks is skipped
+            if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) result.push(block[i]);
+        });
+    }
+    return result;
+};
+
+// mode, length, bytes, terminator and pad bytes up to the capacity of the version
+const encodeData = (bytes: Uint8Array, version: number): number[] => {
+    const bits: number[] = [];
+    const append = (value: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+    };
+
+    append(MODE_BYTE, 4);
+    append(bytes.length, version <= 9 ? 8 : 16);
+    bytes.forEach(b => append(b, 8));
+
+    const capacityBits = getNumDataCodewords(version) * 8;
+    append(0, Math.min(4, capacityBits - bits.length));
+    append(0, (8 - (bits.length % 8)) % 8);
+    for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+    const codewords: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+    return codewords;
+};
+
+const getAlignmentPatternPositions = (version: number): number[] => {
+    if (version === 1) return [];
+    const numAlign = Math.floor(version / 7) + 2;
+    const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+    const result = [6];
+    for (let position = version * 4 + 17 - 7; result.length < numAlign; position -= step) result.splice(1, 0, position);
+    return result;
+};
+
+// (x + y) % 2 === 0 etc., the eight masks of the standard
+const MASKS: Array<(x: number, y: number) => boolean> = [
+    (x, y) => (x + y) % 2 === 0,
+    (_x, y) => y % 2 === 0,
+    (x) => x % 3 === 0,
+    (x, y) => (x + y) % 3 === 0,
+    (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+    (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+    (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+    (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+];
+
+// penalty rules 1 (runs), 2 (2x2 blocks) and 4 (dark/light balance)
+const getPenaltyScore = (modules: QrMatrix): number => {
+    const size = modules.length;
+    let result = 0;
+
+    const runPenalty = (get: (i: number, j: number) => boolean) => {
+        for (let i = 0; i < size; i++) {
+            let run = 1;
+            for (let j = 1; j < size; j++) {
+                if (get(i, j) === get(i, j - 1)) {
+                    run++;
+                    if (run === 5) result += 3;
+                    else if (run > 5) result++;
+                } else {
+                    run = 1;
+                }
+            }
+        }
+    };
+    runPenalty((y, x) => modules[y][x]);
+    runPenalty((x, y) => modules[y][x]);
+
+    for (let y = 0; y < size - 1; y++) {
+        for (let x = 0; x < size - 1; x++) {
+            const color = modules[y][x];
+            if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) result += 3;
+        }
+    }
+
+    const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = size * size;
+    result += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+    return result;
+};
+
+/**
+ * QR code of arbitrary bytes, throws if they do not fit a version 40 code
+ */
+export const encodeQr = (bytes: Uint8Array): QrMatrix => {
+    let version = 1;
+    while (4 + (version <= 9 ? 8 : 16) + bytes.length * 8 > getNumDataCodewords(version) * 8) {
+        if (++version > 40) throw new Error(`${bytes.length} bytes do not fit a QR code`);
+    }
+
+    const size = version * 4 + 17;
+    const modules: QrMatrix = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+    const isFunction: QrMatrix = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+    const setFunction = (x: number, y: number, dark: boolean) => {
+        modules[y][x] = dark;
+        isFunction[y][x] = true;
+    };
+
+    // timing patterns
+    for (let i = 0; i < size; i++) {
+        setFunction(6, i, i % 2 === 0);
+        setFunction(i, 6, i % 2 === 0);
+    }
+
+    // finder patterns with separators
+    [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([cx, cy]) => {
+        for (let dy = -4; dy <= 4; dy++) {
+            for (let dx = -4; dx <= 4; dx++) {
+                const distance = Math.max(Math.abs(dx), Math.abs(dy));
+                const x = cx + dx;
+                const y = cy + dy;
+                if (x >= 0 && x < size && y >= 0 && y < size) setFunction(x, y, distance !== 2 && distance !== 4);
+            }
+        }
+    });
+
+    // alignment patterns, except where the finder patterns are
+    const alignment = getAlignmentPatternPositions(version);
+    alignment.forEach((cy, i) => alignment.forEach((cx, j) => {
+        const last = alignment.length - 1;
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        for (let dy = -2; dy <= 2; dy++) {
+            for (let dx = -2; dx <= 2; dx++) setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+    }));
+
+    // format bits: error correction level and mask, BCH protected, two copies
+    const drawFormatBits = (mask: number) => {
+        const data = (ECC_LEVEL_M_BITS << 3) | mask;
+        let remainder = data;
+        for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+        const bits = ((data << 10) | remainder) ^ 0x5412;
+
+        for (let i = 0; i <= 5; i++) setFunction(8, i, getBit(bits, i));
+        setFunction(8, 7, getBit(bits, 6));
+        setFunction(8, 8, getBit(bits, 7));
+        setFunction(7, 8, getBit(bits, 8));
+        for (let i = 9; i < 15; i++) setFunction(14 - i, 8, getBit(bits, i));
+
+        for (let i = 0; i < 8; i++) setFunction(size - 1 - i, 8, getBit(bits, i));
+        for (let i = 8; i < 15; i++) setFunction(8, size - 15 + i, getBit(bits, i));
+        setFunction(8, size - 8, true);
+    };
+    drawFormatBits(0);  // reserves the area, drawn for real once the mask is known
+
+    // version bits from version 7 on
+    if (version >= 7) {
+        let remainder = version;
+        for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+        const bits = (version << 12) | remainder;
+        for (let i = 0; i < 18; i++) {
+            const a = size - 11 + (i % 3);
+            const b = Math.floor(i / 3);
+            setFunction(a, b, getBit(bits, i));
+            setFunction(b, a, getBit(bits, i));
+        }
+    }
+
+    // data in the zigzag of two module wide columns, bottom right first
+    const codewords = addEccAndInterleave(encodeData(bytes, version), version);
+    let bit = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+        if (right === 6) right = 5;
+        for (let vertical = 0; vertical < size; vertical++) {
+            for (let j = 0; j < 2; j++) {
+                const x = right - j;
+                const upward = ((right + 1) & 2) === 0;
+                const y = upward ? size - 1 - vertical : vertical;
+                if (!isFunction[y][x] && bit < codewords.length * 8) {
+                    modules[y][x] = getBit(codewords[bit >>> 3], 7 - (bit & 7));
+                    bit++;
+                }
+            }
+        }
+    }
+
+    // xor twice undoes a mask
+    const applyMask = (mask: number) => {
+        for (let y = 0; y < size; y++) {
+            for (let x = 0; x < size; x++) {
+                if (!isFunction[y][x] && MASKS[mask](x, y)) modules[y][x] = !modules[y][x];
+            }
+        }
+    };
+
+    let bestMask = 0;
+    let bestPenalty = Infinity;
+    for (let mask = 0; mask < MASKS.length; mask++) {
+        applyMask(mask);
+        drawFormatBits(mask);
+        const penalty = getPenaltyScore(modules);
+        if (penalty < bestPenalty) {
+            bestMask = mask;
+            bestPenalty = penalty;
+        }
+        applyMask(mask);
+    }
+    applyMask(bestMask);
+    drawFormatBits(bestMask);
+
+    return modules;
+};
@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    EndpointHealth,
+    MAX_BLOCK_LAG,
+    WebSocketFactory,
+    checkEndpoints,
+    probeEndpoint,
+    rankEndpoints,
+    selectFailover
+} from './rpcHealth';
+
+// how a mock server behaves: answer with a block after a delay, refuse the connection, never answer or return an rpc error
+interface MockServer {
+    block?: number;
+    delay?: number;
+    refuse?: boolean;
+    silent?: boolean;
+    error?: string;
+}
+
+// websocket that talks to in-memory servers by uri, timers run on the fake clock
+const mockServers = (servers: Record<string, MockServer>): WebSocketFactory => class {
+    onopen: (() => void) | null = null;
+    onmessage: ((event: { data: string }) => void) | null = null;
+    onerror: (() => void) | null = null;
+    onclose: (() => void) | null = null;
+    private server: MockServer;
+
+    constructor(uri: string) {
+        const server = servers[uri];
+        if (!server) throw new Error(`no server at ${uri}`);
+        this.server = server;
+        setTimeout(() => (server.refuse ? this.onerror?.() : this.onopen?.()), 0);
+    }
+
+    send(data: string) {
+        const { id } = JSON.parse(data);
+        if (this.server.silent) return;
+
+        const response = this.server.error
+            ? { id, jsonrpc: '2.0', error: { code: -32000, message: this.server.error } }
+            : { id, jsonrpc: '2.0', result: { number: `0x${(this.server.block ?? 0).toString(16)}` } };
+        setTimeout(() => this.onmessage?.({ data: JSON.stringify(response) }), this.server.delay ?? 0);
+    }
+
+    close() {}
+} as unknown as WebSocketFactory;
+
+const health = (uri: string, ok: boolean, latency: number | null, bestBlock: number | null): EndpointHealth =>
+    ({ uri, ok, latency, bestBlock, blockLag: null, checkedAt: 0 });
+
+beforeEach(() => {
+    vi.useFakeTimers();
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('probeEndpoint', () => {
+    it('measures the header round trip and reads the best block', async () => {
+        const probe = probeEndpoint('wss://a', 1000, mockServers({ 'wss://a': { block: 0x1234, delay: 120 } }));
+        await vi.advanceTimersByTimeAsync(200);
+
+        expect(await probe).toMatchObject({ uri: 'wss://a', ok: true, latency: 120, bestBlock: 0x1234 });
+    });
+
+    it('gives up on an endpoint that does not answer in time', async () => {
+        const probe = probeEndpoint('wss://a', 1000, mockServers({ 'wss://a': { silent: true } }));
+        await vi.advanceTimersByTimeAsync(999);
+        expect(vi.getTimerCount()).toBe(1);
+        await vi.advanceTimersByTimeAsync(1);
+
+        expect(await probe).toMatchObject({ ok: false, latency: null, bestBlock: null, error: 'timeout' });
+    });
+
+    it('times out an answer that comes too late', async () => {
+        const probe = probeEndpoint('wss://a', 1000, mockServers({ 'wss://a': { block: 1, delay: 1500 } }));
+        await vi.advanceTimersByTimeAsync(2000);
+
+        expect(await probe).toMatchObject({ ok: false, error: 'timeout' });
+    });
+
+    it('reports refused connections, rpc errors and endpoints that cannot be opened', async () => {
+        const WebSocketImpl = mockServers({
+            'wss://refused': { refuse: true },
+            'wss://broken': { error: 'method not found' }
+        });
+        const probes = Promise.all([
+            probeEndpoint('wss://refused', 1000, WebSocketImpl),
+            probeEndpoint('wss://broken', 1000, WebSocketImpl),
+            probeEndpoint('wss://missing', 1000, WebSocketImpl)
+        ]);
+        await vi.advanceTimersByTimeAsync(10);
+
+        expect((await probes).map(result => [result.ok, result.error])).toEqual([
+            [false, 'connection error'],
+            [false, 'method not found'],
+            [false, 'no server at wss://missing']
+        ]);
+    });
+});
+
+describe('rankEndpoints', () => {
+    it('puts healthy endpoints first, fastest first', () => {
+        const ranked = rankEndpoints([
+            health('wss://slow', true, 300, 100),
+            health('wss://down', false, null, null),
+            health('wss://fast', true, 50, 100)
+        ]);
+
+        expect(ranked.map(r => r.uri)).toEqual(['wss://fast', 'wss://slow', 'wss://down']);
+        expect(ranked.map(r => r.blockLag)).toEqual([0, 0, null]);
+    });
+
+    it('marks an endpoint lagging more than the allowed blocks unhealthy', () => {
+        const ranked = rankEndpoints([
+            health('wss://behind', true, 10, 100 - MAX_BLOCK_LAG - 1),
+            health('wss://edge', true, 20, 100 - MAX_BLOCK_LAG),
+            health('wss://best', true, 30, 100)
+        ]);
+
+        expect(ranked.map(r => [r.uri, r.ok])).toEqual([['wss://edge', true], ['wss://best', true], ['wss://behind', false]]);
+        expect(ranked[2]).toMatchObject({ blockLag: MAX_BLOCK_LAG + 1, error: `${MAX_BLOCK_LAG + 1} blocks behind` });
+    });
+});
+
+describe('selectFailover', () => {
+    const ranked = [health('wss://b', true, 50, 100), health('wss://a', false, null, null)];
+
+    it('switches to the best endpoint when the one in use failed', () => {
+        expect(selectFailover(ranked, 'wss://a')).toBe('wss://b');
+    });
+
+    it('stays on a healthy endpoint even when another one is faster', () => {
+        expect(selectFailover([health('wss://b', true, 50, 100), health('wss://a', true, 80, 100)], 'wss://a')).toBeNull();
+    });
+
+    it('stays when no endpoint is healthy or none is in use yet', () => {
+        expect(selectFailover([health('wss://b', false, null, null), health('wss://a', false, null, null)], 'wss://a')).toBeNull();
+        expect(selectFailover(ranked, null)).toBeNull();
+    });
+});
+
+describe('checkEndpoints', () => {
+    it('fails over from a dead and a lagging endpoint to the healthy one', async () => {
+        const WebSocketImpl = mockServers({
+            'wss://dead': { silent: true },
+            'wss://lagging': { block: 90, delay: 20 },
+            'wss://healthy': { block: 100, delay: 80 }
+        });
+        const check = checkEndpoints(['wss://dead', 'wss://lagging', 'wss://healthy'], 1000, WebSocketImpl);
+        await vi.advanceTimersByTimeAsync(1000);
+        const ranked = await check;
+
+        expect(ranked.map(r => [r.uri, r.ok])).toEqual([['wss://healthy', true], ['wss://lagging', false], ['wss://dead', false]]);
+        expect(selectFailover(ranked, 'wss://dead')).toBe('wss://healthy');
+        expect(selectFailover(ranked, 'wss://lagging')).toBe('wss://healthy');
+    });
+});
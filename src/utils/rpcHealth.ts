@@ -0,0 +1,131 @@
+/**
+ * rpc endpoint health checks
+ * probes an endpoint over a plain websocket (no papi client) so it can run next to the live
+ * connection and against local mock websocket servers
+ */
+export interface EndpointHealth {
+    uri: string;
+    ok: boolean;                 // endpoint answered in time
+    latency: number | null;      // round trip of the header request in ms
+    bestBlock: number | null;    // best block number reported by the endpoint
+    blockLag: number | null;     // blocks behind the best endpoint, set by rankEndpoints
+    error?: string;
+    checkedAt: number;
+}
+
+// an endpoint more than this many blocks behind the others counts as unhealthy
+export const MAX_BLOCK_LAG = 5;
+
+// default probe timeout in ms
+export const PROBE_TIMEOUT = 5000;
+
+// minimal websocket constructor so tests can pass their own implementation
+export type WebSocketFactory = new (uri: string) => WebSocket;
+
+/**
+ * probe one endpoint: connect, ask for the best header and measure the round trip
+ * never rejects, failures are reported with ok: false
+ */
+export const probeEndpoint = (
+    uri: string,
+    timeout = PROBE_TIMEOUT,
+    WebSocketImpl: WebSocketFactory = WebSocket
+): Promise<EndpointHealth> => {
+    return new Promise(resolve => {
+        let socket: WebSocket | null = null;
+        let sentAt = 0;
+        let done = false;
+
+        const finish = (result: Omit<EndpointHealth, 'uri' | 'blockLag' | 'checkedAt'>) => {
+            if (done) return;
+            done = true;
+            clearTimeout(timer);
+            socket?.close();
+            resolve({ uri, blockLag: null, checkedAt: Date.now(), ...result });
+        };
+
+        const fail = (error: string) => finish({ ok: false, latency: null, bestBlock: null, error });
+
+        const timer = setTimeout(() => fail('timeout'), timeout);
+
+        try {
+            socket = new WebSocketImpl(uri);
+        } catch (error) {
+            fail((error as Error).message);
+            return;
+        }
+
+        socket.onopen = () => {
+            sentAt = Date.now();
+            socket?.send(JSON.stringify({ id: 1, jsonrpc: '2.0', method: 'chain_getHeader', params: [] }));
+        };
+
+        socket.onmessage = (event: MessageEvent) => {
+            try {
+                const response = JSON.parse(event.data);
+                if (response.id !== 1) return;
+                if (!response.result?.number) {
+                    fail(response.error?.message || 'invalid header response');
+                    return;
+                }
+
+                finish({
+                    ok: true,
+                    latency: Date.now() - sentAt,
+                    bestBlock: parseInt(response.result.number, 16)
+                });
+            } catch {
+                fail('invalid json response');
+            }
+        };
+
+        socket.onerror = () => fail('connection error');
+        socket.onclose = () => fail('connection closed');
+    });
+};
+
+/**
+ * compute block lag against the best endpoint and order endpoints best first
+ * healthy (answering, not lagging) endpoints come first, then by latency
+ */
+export const rankEndpoints = (results: EndpointHealth[]): EndpointHealth[] => {
+    const bestBlock = Math.max(0, ...results.map(r => r.bestBlock ?? 0));
+
+    const withLag = results.map(r => {
+        const blockLag = r.bestBlock !== null ? bestBlock - r.bestBlock : null;
+        const ok = r.ok && blockLag !== null && blockLag <= MAX_BLOCK_LAG;
+        return {
+            ...r,
+            blockLag,
+            ok,
+            error: r.ok && !ok ? `${blockLag} blocks behind` : r.error
+        };
+    });
+
+    return withLag.sort((a, b) => {
+        if (a.ok !== b.ok) return a.ok ? -1 : 1;
+        return (a.latency ?? Infinity) - (b.latency ?? Infinity);
+    });
+};
+
+/**
+ * endpoint to switch to after a health check of ranked results
+ * only when the endpoint in use failed the check and a healthy one is available
+ */
+export const selectFailover = (ranked: EndpointHealth[], current: string | null): string | null => {
+    const best = ranked[0];
+    const inUse = ranked.find(r => r.uri === current);
+    return best?.ok && current && best.uri !== current && !inUse?.ok ? best.uri : null;
+};
+
+/**
+ * probe all endpoints in parallel and rank them
+ */
+export const checkEndpoints = async (
+    uris: string[],
+    timeout = PROBE_TIMEOUT,
+    WebSocketImpl: WebSocketFactory = WebSocket
+): Promise<EndpointHealth[]> => {
+    const results = await Promise.all(uris.map(uri => probeEndpoint(uri, timeout, WebSocketImpl)));
+    return rankEndpoints(results);
+};
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { dot } from '@polkadot-api/descriptors';
+import { getPolkadotSigner } from 'polkadot-api/signer';
+import { fromHex, toHex } from 'polkadot-api/utils';
+import { encodeCompactLength, encodeSignedExtrinsic, encodeVaultPayload } from '../sdk';
+import {
+    OFFLINE_MORTALITY_PERIOD,
+    OfflineCall,
+    buildPayoutBatch,
+    buildStakingCall,
+    getOfflineRelayApi,
+    prepareUnsignedTransaction
+} from './transactions';
+
+const STASH = '15oF4uVJwmo4TdGW7VfQxNLavjCXviqxT9S1MgbjMNHr6Sp5';
+const VALIDATOR = '14E5nqKAp3oAJcmzgZhUD2RcptBeUBScxKHgJKU4HPNcKVf3';
+
+const context = {
+    genesisHash: dot.genesis!,
+    nonce: 7,
+    block: { height: 1_000, hash: `0x${'11'.repeat(32)}` }
+};
+
+// a typed api that only records the calls it is asked for
+interface MockCall {
+    name: string;
+    args: unknown;
+    decodedCall: { type: string; value: { type: string; value: unknown } };
+}
+type MockApi = Parameters<typeof buildPayoutBatch<MockCall>>[0];
+
+const mockCall = (pallet: string, name: string) => (args: unknown): MockCall =>
+    ({ name: `${pallet}.${name}`, args, decodedCall: { type: pallet, value: { type: name, value: args } } });
+
+const STAKING_CALLS = ['bond', 'bond_extra', 'unbond', 'rebond', 'withdraw_unbonded', 'nominate', 'chill', 'payout_stakers_by_page'];
+
+const mockApi = {
+    tx: {
+        Staking: Object.fromEntries(STAKING_CALLS.map(name => [name, mockCall('Staking', name)])),
+        Utility: { batch_all: mockCall('Utility', 'batch_all') }
+    }
+} as unknown as MockApi;
+
+describe('buildPayoutBatch', () => {
+    it('batches one payout_stakers_by_page call per target in order', () => {
+        const batch = buildPayoutBatch<MockCall>(mockApi, [
+            { validator: VALIDATOR, era: 1500, page: 0 },
+            { validator: VALIDATOR, era: 1500, page: 1 },
+            { validator: STASH, era: 1501, page: 0 }
+        ]);
+
+        expect(batch.name).toBe('Utility.batch_all');
+        expect(batch.args).toEqual({
+            calls: [
+                { type: 'Staking', value: { type: 'payout_stakers_by_page', value: { validator_stash: VALIDATOR, era: 1500, page: 0 } } },
+                { type: 'Staking', value: { type: 'payout_stakers_by_page', value: { validator_stash: VALIDATOR, era: 1500, page: 1 } } },
+                { type: 'Staking', value: { type: 'payout_stakers_by_page', value: { validator_stash: STASH, era: 1501, page: 0 } } }
+            ]
+        });
+    });
+
+    it('builds an empty batch for no targets', () => {
+        expect(buildPayoutBatch<MockCall>(mockApi, []).args).toEqual({ calls: [] });
+    });
+});
+
+describe('buildStakingCall', () => {
+    it('maps the actions onto the staking pallet calls', () => {
+        expect(buildStakingCall<MockCall>(mockApi, { type: 'bond_extra', value: 5n })).toMatchObject({ name: 'Staking.bond_extra', args: { max_additional: 5n } });
+        expect(buildStakingCall<MockCall>(mockApi, { type: 'withdraw_unbonded', slashingSpans: 2 })).toMatchObject({ args: { num_slashing_spans: 2 } });
+        expect(buildStakingCall<MockCall>(mockApi, { type: 'nominate', targets: [VALIDATOR] })).toMatchObject({
+            args: { targets: [{ type: 'Id', value: VALIDATOR }] }
+        });
+        expect(buildStakingCall<MockCall>(mockApi, { type: 'chill' })).toMatchObject({ name: 'Staking.chill', args: undefined });
+    });
+
+    it('turns the payee into a reward destination', () => {
+        expect(buildStakingCall<MockCall>(mockApi, { type: 'bond', value: 1n, payee: { type: 'Staked' } }).args)
+            .toEqual({ value: 1n, payee: { type: 'Staked', value: undefined } });
+        expect(buildStakingCall<MockCall>(mockApi, { type: 'bond', value: 1n, payee: { type: 'Account', account: STASH } }).args)
+            .toEqual({ value: 1n, payee: { type: 'Account', value: STASH } });
+    });
+});
+
+// calls built from the checked-in metadata (.papi/metadata/dot.scale), no chain involved
+describe('offline signing against the polkadot metadata', () => {
+    it('hands the signer the call and the extensions in metadata order', async () => {
+        const api = await getOfflineRelayApi();
+        const call = buildStakingCall<OfflineCall>(api, { type: 'nominate', targets: [VALIDATOR] });
+        const unsigned = await prepareUnsignedTransaction(call, STASH, context);
+
+        expect(toHex(unsigned.callData)).toBe(call.encodedData.asHex());
+        expect(unsigned.genesisHash).toEqual(fromHex(context.genesisHash));
+        expect(unsigned.extensions.map(extension => extension.identifier)).toContain('CheckMortality');
+        expect(unsigned.extensions.find(extension => extension.identifier === 'CheckGenesis')?.additionalSigned)
+            .toEqual(fromHex(context.genesisHash));
+    });
+
+    it('builds a vault payload with the compact prefixed call', async () => {
+        const api = await getOfflineRelayApi();
+        const unsigned = await prepareUnsignedTransaction(buildStakingCall<OfflineCall>(api, { type: 'chill' }), STASH, context);
+        const payload = encodeVaultPayload(unsigned);
+        const prefix = encodeCompactLength(unsigned.callData.length);
+
+        expect([...payload.subarray(0, 3)]).toEqual([0x53, 0x01, 0x02]);
+        expect(payload.subarray(3, 35)).toEqual(unsigned.publicKey);
+        expect(payload.subarray(35, 35 + prefix.length)).toEqual(prefix);
+        expect(payload.subarray(35 + prefix.length, 35 + prefix.length + unsigned.callData.length)).toEqual(unsigned.callData);
+        expect(payload.subarray(payload.length - 32)).toEqual(unsigned.genesisHash);
+    });
+
+    it('puts the signature together into the v4 extrinsic papi signs', async () => {
+        const api = await getOfflineRelayApi();
+        const call = buildStakingCall<OfflineCall>(api, { type: 'bond_extra', value: 10_000_000_000n });
+        const unsigned = await prepareUnsignedTransaction(call, STASH, context);
+
+        const signature = new Uint8Array(64).fill(9);
+        const expected = await call.sign(getPolkadotSigner(unsigned.publicKey, 'Sr25519', () => signature), {
+            nonce: context.nonce,
+            mortality: { mortal: true, period: OFFLINE_MORTALITY_PERIOD, startAtBlock: context.block }
+        });
+        const extrinsic = encodeSignedExtrinsic(unsigned, new Uint8Array([0x01, ...signature]));
+
+        expect(toHex(extrinsic)).toBe(expected);
+        expect(extrinsic[encodeCompactLength(extrinsic.length).length]).toBe(0x84);
+    });
+
+    it('encodes a payout batch', async () => {
+        const api = await getOfflineRelayApi();
+        const batch = buildPayoutBatch<OfflineCall>(api, [{ validator: VALIDATOR, era: 1500, page: 0 }]);
+        const single = api.tx.Staking.payout_stakers_by_page({ validator_stash: VALIDATOR, era: 1500, page: 0 }).encodedData.asBytes();
+        const encoded = batch.encodedData.asBytes();
+
+        // Utility.batch_all, a vector of one call, the payout call
+        expect(encoded.length).toBe(2 + 1 + single.length);
+        expect(encoded.subarray(2, 3)).toEqual(encodeCompactLength(1));
+        expect(encoded.subarray(3)).toEqual(single);
+    });
+
+    it('rejects an invalid signer address', async () => {
+        const api = await getOfflineRelayApi();
+        await expect(prepareUnsignedTransaction(buildStakingCall<OfflineCall>(api, { type: 'chill' }), 'nope', context))
+            .rejects.toThrow('invalid address');
+    });
+});
@@ -0,0 +1,210 @@
+import { MultiAddress, StakingRewardDestination, dot } from "@polkadot-api/descriptors";
+import {
+    HexString,
+    PolkadotClient,
+    PolkadotSigner,
+    SS58String,
+    Transaction,
+    TxCallData,
+    TxFinalizedPayload,
+    TypedApi,
+    getOfflineApi,
+    getSs58AddressInfo
+} from "polkadot-api";
+import { fromHex } from "polkadot-api/utils";
+import { PayoutTarget, RewardDestination, SigningContext, StakingAction, UnsignedTransaction } from "../sdk";
+
+/**
+ * building, estimating and submitting relay chain transactions
+ * the typed api is passed in so the builders work against any connection (or a mocked api)
+ */
+type RelayApi = TypedApi<typeof dot>;
+
+// calls built from the checked-in metadata alone, for offline signing
+export type OfflineRelayApi = Awaited<ReturnType<typeof getOfflineApi<typeof dot>>>;
+export type OfflineCall = Pick<ReturnType<OfflineRelayApi['tx']['Staking']['chill']>, 'encodedData' | 'sign'>;
+
+// the parts of a papi transaction we need, independent of the call it wraps
+export type RelayTransaction = Pick<
+    Transaction<object, string, string, unknown>,
+    'getEncodedData' | 'getPaymentInfo' | 'signSubmitAndWatch'
+>;
+
+export interface TransactionSummary {
+    callData: HexString;       // SCALE encoded call
+    weight: {
+        refTime: bigint;
+        proofSize: bigint;
+    };
+    partialFee: bigint;        // estimated fee in plancks, without tip
+}
+
+// progress of a submitted transaction
+export type SubmissionStatus = 'signing' | 'broadcasted' | 'in-block' | 'finalized';
+
+// the connected and the offline api encode calls the same way, builders take either
+type StakingTx = RelayApi['tx']['Staking'];
+type CallArgs<K extends keyof StakingTx> = Parameters<StakingTx[K]>[0];
+type StakingCallName = 'bond' | 'bond_extra' | 'unbond' | 'rebond' | 'withdraw_unbonded' | 'nominate' | 'chill' | 'payout_stakers_by_page';
+
+interface CallBuilder<T> {
+    tx: {
+        Staking: { [K in StakingCallName]: (args: CallArgs<K>) => T & { decodedCall: TxCallData } };
+        Utility: { batch_all: (args: Parameters<RelayApi['tx']['Utility']['batch_all']>[0]) => T };
+    };
+}
+
+/**
+ * one `payout_stakers_by_page` call per target, wrapped in `Utility.batch_all`
+ * batch_all reverts all payouts if one of them fails, e.g. a page someone else paid in the meantime
+ */
+export const buildPayoutBatch = <T>(api: CallBuilder<T>, targets: PayoutTarget[]): T =>
+    api.tx.Utility.batch_all({
+        calls: targets.map(target => api.tx.Staking.payout_stakers_by_page({
+            validator_stash: target.validator,
+            era: target.era,
+            page: target.page
+        }).decodedCall)
+    });
+
+const toRewardDestination = (payee: RewardDestination): StakingRewardDestination =>
+    payee.type === 'Account' ? StakingRewardDestination.Account(payee.account) : StakingRewardDestination[payee.type]();
+
+/**
+ * the staking pallet call of a nominator action, signed by the stash (controllers are deprecated)
+ */
+export const buildStakingCall = <T>(api: CallBuilder<T>, action: StakingAction): T => {
+    switch (action.type) {
+        case 'bond':
+            return api.tx.Staking.bond({ value: action.value, payee: toRewardDestination(action.payee) });
+        case 'bond_extra':
+            return api.tx.Staking.bond_extra({ max_additional: action.value });
+        case 'unbond':
+            return api.tx.Staking.unbond({ value: action.value });
+        case 'rebond':
+            return api.tx.Staking.rebond({ value: action.value });
+        case 'withdraw_unbonded':
+            return api.tx.Staking.withdraw_unbonded({ num_slashing_spans: action.slashingSpans });
+        case 'nominate':
+            return api.tx.Staking.nominate({ targets: action.targets.map(target => MultiAddress.Id(target)) });
+        case 'chill':
+            return api.tx.Staking.chill(undefined);
+    }
+};
+
+/**
+ * call data, weight and fee of a transaction
+ * the fee hardly depends on the sender, any valid address works for the estimate
+ */
+export const summarizeTransaction = async (tx: RelayTransaction, from: SS58String): Promise<TransactionSummary> => {
+    const [callData, paymentInfo] = await Promise.all([
+        tx.getEncodedData(),
+        tx.getPaymentInfo(from)
+    ]);
+
+    return {
+        callData: callData.asHex(),
+        weight: {
+            refTime: paymentInfo.weight.ref_time,
+            proofSize: paymentInfo.weight.proof_size
+        },
+        partialFee: paymentInfo.partial_fee
+    };
+};
+
+// e.g. "Module.Staking" with the pallet error inside, enough to look it up
+const formatDispatchError = ({ type, value }: { type: string; value: unknown }): string => {
+    const inner = (value as { type?: string; value?: { type?: string } } | undefined);
+    return [type, inner?.type, inner?.value?.type].filter(Boolean).join('.');
+};
+
+// follow a submitted transaction until it is finalized
+const watchSubmission = (events: ReturnType<PolkadotClient['submitAndWatch']>, onStatus: (status: SubmissionStatus) => void): Promise<TxFinalizedPayload> =>
+    new Promise((resolve, reject) => {
+        events.subscribe({
+            next: event => {
+                switch (event.type) {
+                    case 'broadcasted':
+                        onStatus('broadcasted');
+                        break;
+                    case 'txBestBlocksState':
+                        if (event.found) onStatus('in-block');
+                        break;
+                    case 'finalized':
+                        onStatus('finalized');
+                        if (event.ok) resolve(event);
+                        else reject(new Error(`transaction failed: ${formatDispatchError(event.dispatchError)}`));
+                        break;
+                }
+            },
+            error: reject
+        });
+    });
+
+/**
+ * sign and submit a transaction, resolves once it is finalized
+ * rejects when signing is cancelled, the transaction is invalid or it failed on chain
+ */
+export const submitTransaction = (
+    tx: RelayTransaction,
+    signer: PolkadotSigner,
+    onStatus: (status: SubmissionStatus) => void = () => {}
+): Promise<TxFinalizedPayload> => {
+    onStatus('signing');
+    return watchSubmission(tx.signSubmitAndWatch(signer), onStatus);
+};
+
+/**
+ * broadcast an extrinsic signed elsewhere, resolves once it is finalized
+ */
+export const submitSignedTransaction = (
+    client: Pick<PolkadotClient, 'submitAndWatch'>,
+    transaction: HexString,
+    onStatus: (status: SubmissionStatus) => void = () => {}
+): Promise<TxFinalizedPayload> => watchSubmission(client.submitAndWatch(transaction), onStatus);
+
+// the metadata is only decoded once
+let offlineApi: Promise<OfflineRelayApi> | null = null;
+export const getOfflineRelayApi = (): Promise<OfflineRelayApi> => (offlineApi ??= getOfflineApi(dot));
+
+// blocks an offline signed transaction stays valid, long enough to walk to the signing device and
+// back. the birth block has to stay within BlockHashCount (4096 blocks on polkadot)
+export const OFFLINE_MORTALITY_PERIOD = 2048;
+
+/**
+ * what a signer gets handed for an offline built call, without signing it
+ * the call is "signed" with a signer that records its input, the signature is added later
+ */
+export const prepareUnsignedTransaction = async (
+    call: OfflineCall,
+    address: SS58String,
+    context: Pick<SigningContext, 'genesisHash' | 'nonce' | 'block'>
+): Promise<UnsignedTransaction> => {
+    const info = getSs58AddressInfo(address);
+    if (!info.isValid) throw new Error(`invalid address ${address}`);
+
+    let unsigned: UnsignedTransaction | undefined;
+    const recorder: PolkadotSigner = {
+        publicKey: info.publicKey,
+        signTx: async (callData, signedExtensions) => {
+            unsigned = {
+                address,
+                publicKey: info.publicKey,
+                callData,
+                extensions: Object.values(signedExtensions),
+                genesisHash: fromHex(context.genesisHash)
+            };
+            return new Uint8Array();
+        },
+        signBytes: async () => {
+            throw new Error('only transactions are signed offline');
+        }
+    };
+
+    await call.sign(recorder, {
+        nonce: context.nonce,
+        mortality: { mortal: true, period: OFFLINE_MORTALITY_PERIOD, startAtBlock: context.block }
+    });
+    if (!unsigned) throw new Error('the call was not handed to the signer');
+    return unsigned;
+};